@@ -0,0 +1,161 @@
+/**
+ * Scheduler benchmark
+ *
+ * Compares the active pair scheduler that rescanned every active pair on
+ * each step with the indexed redex queue, on the js-framework-benchmark
+ * operations: create rows, update every 10th row, swap two rows and clear.
+ * Every operation connects one operation agent per affected row, so a
+ * batch of N operations leaves N active pairs to reduce. The rewrite case
+ * clears rows with a rewrite rule, so every interaction removes two agents
+ * while the other rows stay connected.
+ *
+ * Run with `npm run bench`.
+ */
+import { bench, describe } from 'vitest';
+import { Agent, ActionRule, Network, IAgent, IBoundPort, PortInstanceKey, RedexQueue, RewriteRule, getPortInstanceKey } from '../src';
+import { getRuleLookupKey } from '../src/network';
+
+type RowValue = { id: number; label: string; removed: boolean };
+type Interaction = (row: IAgent<string, RowValue>, op: IAgent) => void;
+
+interface Scheduler {
+  connect(port1: IBoundPort, port2: IBoundPort): void;
+  step(): boolean;
+}
+
+const interactions = new Map<string, Interaction>([
+  [getRuleLookupKey('Row', 'main', 'Create', 'main'), (row, op) => { row.value.label = op.value.label; }],
+  [getRuleLookupKey('Row', 'main', 'Update', 'main'), row => { row.value.label += ' !!!'; }],
+  [getRuleLookupKey('Row', 'main', 'Swap', 'main'), (row, op) => { row.value.id = op.value.id; }],
+  [getRuleLookupKey('Row', 'main', 'Clear', 'main'), row => { row.value.removed = true; }]
+]);
+
+const interactionOf = (port1: IBoundPort, port2: IBoundPort) =>
+  interactions.get(getRuleLookupKey(port1.agent.name, port1.name, port2.agent.name, port2.name));
+
+const fire = (port1: IBoundPort, port2: IBoundPort) => {
+  const [row, op] = port1.agent.name === 'Row' ? [port1.agent, port2.agent] : [port2.agent, port1.agent];
+  interactionOf(port1, port2)!(row as IAgent<string, RowValue>, op);
+};
+
+// The scheduler before the redex queue: a set of string pair keys, split
+// and resolved again on every step
+function rescanScheduler(): Scheduler {
+  const ports = new Map<PortInstanceKey, IBoundPort>();
+  const activePairs = new Set<string>();
+
+  return {
+    connect(port1, port2) {
+      const key1 = getPortInstanceKey(port1);
+      const key2 = getPortInstanceKey(port2);
+      ports.set(key1, port1);
+      ports.set(key2, port2);
+      if (interactionOf(port1, port2)) activePairs.add(`${key1}<->${key2}`);
+    },
+    step() {
+      const ready: Array<{ key: string; port1: IBoundPort; port2: IBoundPort }> = [];
+      for (const pairKey of Array.from(activePairs)) {
+        const [key1, key2] = pairKey.split('<->') as [PortInstanceKey, PortInstanceKey];
+        const port1 = ports.get(key1)!;
+        const port2 = ports.get(key2)!;
+        if (interactionOf(port1, port2)) ready.push({ key: pairKey, port1, port2 });
+      }
+      // fifo order
+      const [next] = ready.slice();
+      if (!next) return false;
+      activePairs.delete(next.key);
+      fire(next.port1, next.port2);
+      return true;
+    }
+  };
+}
+
+function queueScheduler(): Scheduler {
+  const activePairs = new RedexQueue();
+
+  return {
+    connect(port1, port2) {
+      if (interactionOf(port1, port2)) {
+        activePairs.add(port1, getPortInstanceKey(port1), port2, getPortInstanceKey(port2));
+      }
+    },
+    step() {
+      const id = activePairs.find(false, id => interactionOf(activePairs.firstPort(id), activePairs.secondPort(id)) !== undefined);
+      if (id === -1) return false;
+      const port1 = activePairs.firstPort(id);
+      const port2 = activePairs.secondPort(id);
+      activePairs.delete(id);
+      fire(port1, port2);
+      return true;
+    }
+  };
+}
+
+function runWorkload(scheduler: Scheduler, count: number): void {
+  const rows = Array.from({ length: count }, (_, index) => Agent('Row', { id: index + 1, label: '', removed: false }));
+  const batch = (name: string, targets: IAgent[], value: (index: number) => unknown = () => null) => {
+    targets.forEach((row, index) => scheduler.connect(row.ports.main, Agent(name, value(index)).ports.main));
+    while (scheduler.step());
+  };
+
+  batch('Create', rows, index => ({ label: `Item ${index + 1}` }));
+  batch('Update', rows.filter((_, index) => index % 10 === 0));
+  batch('Swap', [rows[1], rows[count - 2]], index => ({ id: index === 0 ? count - 1 : 2 }));
+  batch('Clear', rows);
+}
+
+function runNetworkWorkload(count: number): void {
+  const network = Network('js-framework-benchmark');
+  const row = Agent('Row', { id: 0, label: '', removed: false });
+  for (const name of ['Create', 'Update', 'Swap', 'Clear']) {
+    network.addRule(ActionRule(row.ports.main, Agent(name, null).ports.main, (row, op) => {
+      interactions.get(getRuleLookupKey('Row', 'main', name, 'main'))!(row, op);
+    }));
+  }
+
+  const rows = Array.from({ length: count }, (_, index) =>
+    network.addAgent(Agent('Row', { id: index + 1, label: '', removed: false })));
+  const batch = (name: string, targets: IAgent[], value: (index: number) => unknown = () => null) => {
+    const ops = targets.map((row, index) => {
+      const op = network.addAgent(Agent(name, value(index)));
+      network.connectPorts(row.ports.main, op.ports.main);
+      return op;
+    });
+    network.reduce();
+    targets.forEach((row, index) => network.disconnectPorts(row.ports.main, ops[index].ports.main));
+  };
+
+  batch('Create', rows, index => ({ label: `Item ${index + 1}` }));
+  batch('Update', rows.filter((_, index) => index % 10 === 0));
+  batch('Swap', [rows[1], rows[count - 2]], index => ({ id: index === 0 ? count - 1 : 2 }));
+  batch('Clear', rows);
+}
+
+// Rows are cleared by rewriting each row and its Clear agent into a Removed agent
+function runRewriteWorkload(count: number): void {
+  const network = Network('js-framework-benchmark-rewrite');
+  network.addRule(RewriteRule(Agent('Row', null).ports.main, Agent('Clear', null).ports.main, {
+    newAgents: [{ name: 'Removed', _templateId: 'removed' }],
+    internalConnections: [],
+    portMapAgent1: {},
+    portMapAgent2: {}
+  }));
+
+  for (let index = 0; index < count; index++) {
+    const row = network.addAgent(Agent('Row', { id: index + 1, label: `Item ${index + 1}`, removed: false }));
+    network.connectPorts(row.ports.main, network.addAgent(Agent('Clear', null)).ports.main);
+  }
+  network.reduce();
+}
+
+// The rescan scheduler is quadratic in the batch size, so the runs are kept short
+const options = { iterations: 3, warmupIterations: 1, time: 0, warmupTime: 0 };
+
+for (const count of [1_000, 2_000]) {
+  describe(`${count} rows`, () => {
+    bench('rescan scheduler', () => runWorkload(rescanScheduler(), count), options);
+    bench('redex queue', () => runWorkload(queueScheduler(), count), options);
+    bench('Network.reduce', () => runNetworkWorkload(count), options);
+    bench('Network.reduce with rewrites', () => runRewriteWorkload(count), options);
+  });
+}
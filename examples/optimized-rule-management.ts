@@ -79,7 +79,7 @@ network.connectPorts(processorAgent.ports.output, sinkAgent.ports.input);
 
 // Execute network with optimizations
 console.log('\nExecuting network (with optimizations)...');
-const steps = network.reduce(10);
+const { steps } = network.reduce(10);
 console.log(`Executed ${steps} steps`);
 
 // Remove rules and see optimization in action
@@ -156,4 +156,4 @@ const lastIncrement = newIncrements[newIncrements.length - 1];
 console.log("New increment value:", lastIncrement.value.amount);
 
 // Execute all remaining reductions until fixed point
-console.log("Total steps performed:", net.reduce());
\ No newline at end of file
+console.log("Total steps performed:", net.reduce().steps);
\ No newline at end of file
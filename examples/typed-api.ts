@@ -60,7 +60,7 @@ net.connectPorts(counter.ports.output, display.ports.input);
 
 // Execute the reduction and log the result
 console.log("Before reduction:", counter.value, display.value);
-const steps = net.reduce();
+const { steps } = net.reduce();
 console.log("After reduction:", counter.value, display.value);
 console.log("Steps performed:", steps);
 
@@ -101,7 +101,7 @@ net.connectPorts(num1.ports.main, num2.ports.main);
 
 // Execute and check result
 console.log("\nBefore number addition:", num1.value, "+", num2.value);
-const moreSteps = net.reduce();
+const { steps: moreSteps } = net.reduce();
 console.log("Addition steps performed:", moreSteps);
 
 // Find result agents
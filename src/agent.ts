@@ -1,5 +1,6 @@
-import { v4 as uuidv4 } from 'uuid';
 import { Connections } from "./connection";
+import { nextId } from "./id-generator";
+import { attachSchema, ValueSchema } from "./schema";
 import { BoundPortsMap, Port, PortsHasMainPort, PortsDefObj, PortArray, PortsMap, createBoundPortsMap } from "./port";
 
 export type AgentId = string;
@@ -50,10 +51,10 @@ export interface IAgent<Name extends string = string, Value = any, Type extends
 export function Agent<Name extends string, Value = any, Type extends string = string, P extends PortArray | PortsDefObj | PortsMap = PortArray | PortsDefObj | PortsMap>(name: Name, value: Value, ports?: P, type?: Type) {
   let t = typeof type === 'string' ? type : 'agent' as const;
   let po = typeof ports === 'undefined' ? { main: Port({ name: 'main', type: 'main' }) } as PortsMap : ports;
-  let agentId = uuidv4();
+  let agentId = nextId('agent');
   
   // First create the agent without the ports to avoid circular dependency
-  let agent = {} as IAgent<Name, Value, typeof t, typeof po>;
+  let agent = {} as IAgent<Name, Value, typeof t, P>;
   
   // Define base properties
   Object.defineProperties(agent, {
@@ -114,17 +115,20 @@ export type AgentFactory<Name extends string = string, Value = any, Type extends
     __agentName: Name;
     __ports?: P;
     __type?: Type;
+    __schema?: ValueSchema<Value>;
   };
 
-export type AgentFactoryOptions<P extends PortArray | PortsDefObj | PortsMap, Type extends string = string> = {
+export type AgentFactoryOptions<P extends PortArray | PortsDefObj | PortsMap, Type extends string = string, Value = any> = {
   ports?: P;
   type?: Type;
+  /** Schema the values of the factory's agents are checked against */
+  schema?: ValueSchema<Value>;
 };
 
 const normalizeFactoryOptions = <P extends PortArray | PortsDefObj | PortsMap, Type extends string>(
   portsOrOptions?: P | AgentFactoryOptions<P, Type>
 ): AgentFactoryOptions<P, Type> => {
-  if (portsOrOptions && typeof portsOrOptions === 'object' && ('ports' in portsOrOptions || 'type' in portsOrOptions)) {
+  if (portsOrOptions && typeof portsOrOptions === 'object' && ('ports' in portsOrOptions || 'type' in portsOrOptions || 'schema' in portsOrOptions)) {
     return portsOrOptions as AgentFactoryOptions<P, Type>;
   }
   return { ports: portsOrOptions as P | undefined };
@@ -132,11 +136,11 @@ const normalizeFactoryOptions = <P extends PortArray | PortsDefObj | PortsMap, T
 
 export function createAgentFactory<Name extends string, Value, Type extends string = string, P extends PortArray | PortsDefObj | PortsMap = PortArray | PortsDefObj | PortsMap>(
   name: Name,
-  portsOrOptions?: P | AgentFactoryOptions<P, Type>
+  portsOrOptions?: P | AgentFactoryOptions<P, Type, Value>
 ): AgentFactory<Name, Value, Type, P>;
 export function createAgentFactory<Value, Name extends string = string, Type extends string = string, P extends PortArray | PortsDefObj | PortsMap = PortArray | PortsDefObj | PortsMap>(
   name: Name,
-  portsOrOptions?: P | AgentFactoryOptions<P, Type>
+  portsOrOptions?: P | AgentFactoryOptions<P, Type, Value>
 ): AgentFactory<Name, Value, Type, P>;
 export function createAgentFactory(
   name: string,
@@ -144,12 +148,15 @@ export function createAgentFactory(
 ) {
   const options = normalizeFactoryOptions<any, any>(portsOrOptions);
   const factory = ((value: any, portsOverride?: any) => {
-    return Agent(name, value, portsOverride ?? options.ports, options.type);
+    const agent = Agent(name, value, portsOverride ?? options.ports, options.type);
+    if (options.schema) attachSchema(agent, options.schema);
+    return agent;
   }) as AgentFactory<string, any, string, any>;
 
   factory.__agentName = name;
   factory.__ports = options.ports;
   factory.__type = options.type;
+  factory.__schema = options.schema;
 
   return factory;
 }
@@ -0,0 +1,438 @@
+/**
+ * Interaction Combinators for Annette
+ *
+ * This module provides:
+ * 1. The three symmetric interaction combinators: eraser (ε), duplicator (δ)
+ *    and constructor (γ)
+ * 2. Their six annihilation and commutation rules, registered on any network
+ * 3. Helpers to encode lambda terms into combinators and read back the normal form
+ *
+ * Combinator nets are a small, well-understood workload, which makes them a
+ * reference for testing the reducer and benchmarking optimizations.
+ */
+import { Agent, IAgent } from "./agent";
+import { INetwork, Network } from "./network";
+import { IBoundPort, Port } from "./port";
+
+export const ERASER = 'Eraser';
+export const DUPLICATOR = 'Duplicator';
+export const CONSTRUCTOR = 'Constructor';
+
+export type CombinatorName = typeof ERASER | typeof DUPLICATOR | typeof CONSTRUCTOR;
+
+export type DuplicatorValue = {
+  label: number;
+};
+
+/**
+ * Create an eraser (ε) agent
+ *
+ * An eraser has only a main port and deletes whatever it interacts with.
+ */
+export function EraserAgent(): IAgent<typeof ERASER, null> {
+  return Agent(ERASER, null, { main: Port.main() });
+}
+
+/**
+ * Create a duplicator (δ) agent
+ *
+ * Two duplicators with the same label annihilate; with different labels
+ * they copy each other.
+ *
+ * @param label Label distinguishing independent duplications
+ */
+export function DuplicatorAgent(label: number = 0): IAgent<typeof DUPLICATOR, DuplicatorValue> {
+  return Agent(DUPLICATOR, { label }, {
+    main: Port.main(),
+    aux1: Port.aux('aux1'),
+    aux2: Port.aux('aux2')
+  });
+}
+
+/**
+ * Create a constructor (γ) agent
+ */
+export function ConstructorAgent(): IAgent<typeof CONSTRUCTOR, null> {
+  return Agent(CONSTRUCTOR, null, {
+    main: Port.main(),
+    aux1: Port.aux('aux1'),
+    aux2: Port.aux('aux2')
+  });
+}
+
+// ========== Rewiring ==========
+
+const AUX_PORTS = ['aux1', 'aux2'] as const;
+
+const portId = (port: IBoundPort): string => `${port.agent._agentId}:${port.name}`;
+
+function peerOf(network: INetwork, port: IBoundPort): IBoundPort | undefined {
+  return network.getConnectedPort?.(port);
+}
+
+function auxPorts(agent: IAgent): IBoundPort[] {
+  return AUX_PORTS.map(name => agent.ports[name] as IBoundPort | undefined).filter((port): port is IBoundPort => port !== undefined);
+}
+
+// Record the current peer of every auxiliary port of the interacting pair
+function collectPeers(network: INetwork, agents: IAgent[]): Map<string, IBoundPort> {
+  const peers = new Map<string, IBoundPort>();
+  for (const agent of agents) {
+    for (const port of auxPorts(agent)) {
+      const peer = peerOf(network, port);
+      if (peer) peers.set(portId(port), peer);
+    }
+  }
+  return peers;
+}
+
+/**
+ * Replace the auxiliary ports of an interacting pair with ports of new agents
+ *
+ * Each old auxiliary port hands its connection to its replacement. When two
+ * old ports were wired to each other, their replacements are wired together.
+ */
+function replaceAuxPorts(network: INetwork, pair: [IAgent, IAgent], replacements: Map<string, IBoundPort>): void {
+  const peers = collectPeers(network, pair);
+  network.removeAgent(pair[0]._agentId);
+  network.removeAgent(pair[1]._agentId);
+
+  const linked = new Set<string>();
+  for (const [oldId, peer] of peers) {
+    if (linked.has(oldId)) continue;
+    const replacement = replacements.get(oldId)!;
+    const peerId = portId(peer);
+    const target = replacements.get(peerId) ?? peer;
+    linked.add(oldId);
+    linked.add(peerId);
+    network.connectPorts(replacement, target);
+  }
+}
+
+/**
+ * Fuse the auxiliary ports of an annihilating pair
+ *
+ * Each port in `fusions` is joined to its partner on the other agent, so the
+ * peers at both ends of the resulting wire get connected directly. Wires that
+ * run through several fused ports are followed to their ends; closed loops
+ * disappear.
+ */
+function fuseAuxPorts(network: INetwork, pair: [IAgent, IAgent], fusions: Map<string, IBoundPort>): void {
+  const peers = collectPeers(network, pair);
+  network.removeAgent(pair[0]._agentId);
+  network.removeAgent(pair[1]._agentId);
+
+  const visited = new Set<string>();
+
+  // Walk alternately along wires and fusions until leaving the removed pair
+  const endOfWire = (start: IBoundPort, viaWire: boolean): IBoundPort | undefined => {
+    let current = start;
+    let useWire = viaWire;
+    for (;;) {
+      const next = useWire ? peers.get(portId(current)) : fusions.get(portId(current));
+      if (!next) return undefined;
+      if (!fusions.has(portId(next))) return next;
+      if (visited.has(portId(next))) return undefined;
+      visited.add(portId(next));
+      current = next;
+      useWire = !useWire;
+    }
+  };
+
+  for (const port of pair.flatMap(auxPorts)) {
+    if (visited.has(portId(port))) continue;
+    visited.add(portId(port));
+    const end1 = endOfWire(port, true);
+    const end2 = endOfWire(port, false);
+    if (end1 && end2) {
+      network.connectPorts(end1, end2);
+    }
+  }
+}
+
+function annihilate(network: INetwork, a: IAgent, b: IAgent): void {
+  const fusions = new Map<string, IBoundPort>();
+  for (const name of AUX_PORTS) {
+    fusions.set(portId(a.ports[name]), b.ports[name]);
+    fusions.set(portId(b.ports[name]), a.ports[name]);
+  }
+  fuseAuxPorts(network, [a, b], fusions);
+}
+
+// Each agent is copied once per auxiliary port of the other, and the copies are wired in a grid
+function commute(network: INetwork, a: IAgent, b: IAgent, copy: (agent: IAgent) => IAgent): void {
+  const copiesOfA = [copy(a), copy(a)];
+  const copiesOfB = [copy(b), copy(b)];
+  [...copiesOfA, ...copiesOfB].forEach(agent => network.addAgent(agent));
+
+  for (let i = 0; i < 2; i++) {
+    for (let j = 0; j < 2; j++) {
+      network.connectPorts(copiesOfB[i].ports[AUX_PORTS[j]], copiesOfA[j].ports[AUX_PORTS[i]]);
+    }
+  }
+
+  const replacements = new Map<string, IBoundPort>();
+  AUX_PORTS.forEach((name, index) => {
+    replacements.set(portId(a.ports[name]), copiesOfB[index].ports.main);
+    replacements.set(portId(b.ports[name]), copiesOfA[index].ports.main);
+  });
+  replaceAuxPorts(network, [a, b], replacements);
+}
+
+function erase(network: INetwork, eraser: IAgent, target: IAgent): void {
+  const replacements = new Map<string, IBoundPort>();
+  for (const port of auxPorts(target)) {
+    const copy = network.addAgent(EraserAgent());
+    replacements.set(portId(port), copy.ports.main);
+  }
+  replaceAuxPorts(network, [eraser, target], replacements);
+}
+
+const copyCombinator = (agent: IAgent): IAgent => agent.name === DUPLICATOR
+  ? DuplicatorAgent((agent.value as DuplicatorValue).label)
+  : ConstructorAgent();
+
+/**
+ * Register the six interaction combinator rules on a network
+ *
+ * - εε: both erasers vanish
+ * - εδ, εγ: the eraser is copied onto each auxiliary port
+ * - γγ: annihilation, connecting aux1 to aux1 and aux2 to aux2
+ * - δδ: annihilation when labels match, commutation otherwise
+ * - γδ: commutation
+ *
+ * @param network The network to register the rules on
+ */
+export function registerCombinatorRules(network: INetwork): void {
+  const rule = (
+    name: string,
+    agentName1: CombinatorName,
+    agentName2: CombinatorName,
+    action: (agent1: IAgent, agent2: IAgent, network: INetwork) => void
+  ) => network.addRule({
+    type: 'action',
+    name,
+    matchInfo: { agentName1, portName1: 'main', agentName2, portName2: 'main' },
+    // Connections are unordered, so put the agents in the order the rule was declared
+    action: (agent1, agent2, network) => agent1.name === agentName1
+      ? action(agent1, agent2, network)
+      : action(agent2, agent1, network)
+  });
+
+  rule('Eraser-Eraser', ERASER, ERASER, (a, b, network) => {
+    network.removeAgent(a._agentId);
+    network.removeAgent(b._agentId);
+  });
+  rule('Eraser-Duplicator', ERASER, DUPLICATOR, (eraser, target, network) => erase(network, eraser, target));
+  rule('Eraser-Constructor', ERASER, CONSTRUCTOR, (eraser, target, network) => erase(network, eraser, target));
+  rule('Constructor-Constructor', CONSTRUCTOR, CONSTRUCTOR, (a, b, network) => annihilate(network, a, b));
+  rule('Duplicator-Duplicator', DUPLICATOR, DUPLICATOR, (a, b, network) => {
+    if ((a.value as DuplicatorValue).label === (b.value as DuplicatorValue).label) {
+      annihilate(network, a, b);
+    } else {
+      commute(network, a, b, copyCombinator);
+    }
+  });
+  rule('Constructor-Duplicator', CONSTRUCTOR, DUPLICATOR, (a, b, network) => commute(network, a, b, copyCombinator));
+}
+
+// ========== Lambda Calculus ==========
+
+export type LambdaTerm =
+  | { kind: 'var'; name: string }
+  | { kind: 'lam'; param: string; body: LambdaTerm }
+  | { kind: 'app'; fn: LambdaTerm; arg: LambdaTerm };
+
+/**
+ * Builders for lambda terms
+ */
+export const Lambda = {
+  v: (name: string): LambdaTerm => ({ kind: 'var', name }),
+  lam: (param: string, body: LambdaTerm): LambdaTerm => ({ kind: 'lam', param, body }),
+  app: (fn: LambdaTerm, ...args: LambdaTerm[]): LambdaTerm =>
+    args.reduce<LambdaTerm>((term, arg) => ({ kind: 'app', fn: term, arg }), fn)
+};
+
+/**
+ * Format a lambda term, e.g. `λx.λy.x y`
+ */
+export function formatLambda(term: LambdaTerm): string {
+  switch (term.kind) {
+    case 'var':
+      return term.name;
+    case 'lam':
+      return `λ${term.param}.${formatLambda(term.body)}`;
+    case 'app': {
+      const fn = term.fn.kind === 'lam' ? `(${formatLambda(term.fn)})` : formatLambda(term.fn);
+      const arg = term.arg.kind === 'var' ? term.arg.name : `(${formatLambda(term.arg)})`;
+      return `${fn} ${arg}`;
+    }
+  }
+}
+
+function countOccurrences(term: LambdaTerm, name: string): number {
+  switch (term.kind) {
+    case 'var':
+      return term.name === name ? 1 : 0;
+    case 'lam':
+      return term.param === name ? 0 : countOccurrences(term.body, name);
+    case 'app':
+      return countOccurrences(term.fn, name) + countOccurrences(term.arg, name);
+  }
+}
+
+/**
+ * Encode a lambda term as a combinator net
+ *
+ * Abstractions and applications both become constructors: an abstraction
+ * exposes its value on main, its variable on aux1 and takes its body on aux2;
+ * an application takes the function on main, the argument on aux1 and
+ * exposes the result on aux2. Variables used more than once are shared
+ * through duplicators with a fresh label per variable, and unused variables
+ * are erased. Free variables become `Free` agents named after the variable.
+ *
+ * The encoding follows the oracle-free abstract algorithm, so it reduces
+ * terms whose duplications do not interfere, such as Church numerals and
+ * elementary-affine terms, to their normal form.
+ *
+ * @param network A network with the combinator rules registered
+ * @param term The term to encode
+ * @returns A `Root` agent whose main port is connected to the term
+ */
+export function encodeLambda(network: INetwork, term: LambdaTerm): IAgent<'Root', null> {
+  let nextLabel = 1;
+  const scopes = new Map<string, IBoundPort[]>();
+
+  const encode = (term: LambdaTerm): IBoundPort => {
+    switch (term.kind) {
+      case 'var': {
+        const occurrences = scopes.get(term.name);
+        if (occurrences && occurrences.length > 0) {
+          return occurrences.shift()!;
+        }
+        return network.addAgent(Agent('Free', term.name, { main: Port.main() })).ports.main;
+      }
+      case 'lam': {
+        const lambda = network.addAgent(ConstructorAgent());
+        const uses = countOccurrences(term.body, term.param);
+        const outer = scopes.get(term.param);
+        scopes.set(term.param, share(lambda.ports.aux1, uses));
+        network.connectPorts(encode(term.body), lambda.ports.aux2);
+        if (outer) scopes.set(term.param, outer); else scopes.delete(term.param);
+        return lambda.ports.main;
+      }
+      case 'app': {
+        const application = network.addAgent(ConstructorAgent());
+        network.connectPorts(encode(term.fn), application.ports.main);
+        network.connectPorts(encode(term.arg), application.ports.aux1);
+        return application.ports.aux2;
+      }
+    }
+  };
+
+  // Fan a variable port out to `uses` occurrence ports
+  const share = (variable: IBoundPort, uses: number): IBoundPort[] => {
+    if (uses === 0) {
+      network.connectPorts(network.addAgent(EraserAgent()).ports.main, variable);
+      return [];
+    }
+    const occurrences = [variable];
+    const label = nextLabel++;
+    while (occurrences.length < uses) {
+      const duplicator = network.addAgent(DuplicatorAgent(label));
+      network.connectPorts(duplicator.ports.main, occurrences.pop()!);
+      occurrences.push(duplicator.ports.aux1, duplicator.ports.aux2);
+    }
+    return occurrences;
+  };
+
+  const root = network.addAgent(Agent('Root', null, { main: Port.main() }));
+  network.connectPorts(root.ports.main, encode(term));
+  return root;
+}
+
+/**
+ * Read back the lambda term connected to a root agent
+ *
+ * Duplicators left in the normal form are traversed by tracking, per label,
+ * which auxiliary port each path entered through.
+ *
+ * @param network The network containing the term
+ * @param root The agent returned by `encodeLambda`
+ * @throws Error if the net does not have the shape of a lambda term
+ */
+export function readbackLambda(network: INetwork, root: IAgent): LambdaTerm {
+  const binders = new Map<string, string>();
+  const paths = new Map<number, string[]>();
+  let nextName = 0;
+
+  const read = (port: IBoundPort | undefined, depth: number): LambdaTerm => {
+    if (!port) throw new Error('Cannot read back a disconnected port');
+    if (depth > 10000) throw new Error('Readback did not terminate');
+
+    const agent = port.agent;
+    if (agent.name === 'Free') {
+      return Lambda.v(agent.value as string);
+    }
+
+    if (agent.name === CONSTRUCTOR) {
+      if (port.name === 'main') {
+        const param = `x${nextName++}`;
+        binders.set(agent._agentId, param);
+        const body = read(peerOf(network, agent.ports.aux2), depth + 1);
+        binders.delete(agent._agentId);
+        return Lambda.lam(param, body);
+      }
+      if (port.name === 'aux1') {
+        const name = binders.get(agent._agentId);
+        if (!name) throw new Error('Variable read back outside of its abstraction');
+        return Lambda.v(name);
+      }
+      return Lambda.app(
+        read(peerOf(network, agent.ports.main), depth + 1),
+        read(peerOf(network, agent.ports.aux1), depth + 1)
+      );
+    }
+
+    if (agent.name === DUPLICATOR) {
+      const label = (agent.value as DuplicatorValue).label;
+      const path = paths.get(label) ?? [];
+      paths.set(label, path);
+
+      if (port.name === 'main') {
+        const exit = path.pop();
+        if (!exit) throw new Error(`Unbalanced duplicator with label ${label}`);
+        const term = read(peerOf(network, agent.ports[exit]), depth + 1);
+        path.push(exit);
+        return term;
+      }
+      path.push(port.name);
+      const term = read(peerOf(network, agent.ports.main), depth + 1);
+      path.pop();
+      return term;
+    }
+
+    throw new Error(`Cannot read back agent ${agent.name}`);
+  };
+
+  return read(peerOf(network, root.ports.main), 0);
+}
+
+/**
+ * Reduce a lambda term to normal form on a fresh combinator network
+ *
+ * @param term The term to reduce
+ * @param maxSteps Maximum number of interactions (default 10000)
+ * @returns The normal form and the number of interactions it took
+ * @throws Error if the term has no normal form within maxSteps interactions
+ */
+export function reduceLambda(term: LambdaTerm, maxSteps: number = 10000): { term: LambdaTerm; interactions: number } {
+  const network = Network('lambda');
+  registerCombinatorRules(network);
+  const root = encodeLambda(network, term);
+  const { steps: interactions, reason } = network.reduce(maxSteps);
+  if (reason !== 'normal-form') {
+    throw new Error(`Lambda term did not reach normal form within ${maxSteps} interactions (${reason})`);
+  }
+  return { term: readbackLambda(network, root), interactions };
+}
@@ -16,7 +16,7 @@ import {
   IActionRule, IRewriteRule, AnyRule, 
   Action, ActionReturn, Rewrite
 } from './rule';
-import { Network, INetwork } from './network';
+import { Network, INetwork, NetworkOptions } from './network';
 
 /**
  * Core namespace containing the fundamental interaction net primitives
@@ -94,8 +94,8 @@ export const Core = {
   /**
    * Create a new network
    */
-  createNetwork(name: string): INetwork {
-    return Network(name);
+  createNetwork(name: string, options?: NetworkOptions): INetwork {
+    return Network(name, undefined, undefined, options);
   }
 };
 
@@ -13,7 +13,8 @@ import {
   Port, IBoundPort, PortTypes,
   IConnection,
   IRule, ActionRule, RewriteRule, AnyRule,
-  NetworkBoundary, NetworkMessage, NetworkNode
+  NetworkBoundary, NetworkMessage, NetworkNode,
+  IdGenerator, namespacedIds
 } from './index';
 import { AutoNet, SerializedNet, SerializedNode, SerializedPort } from './auto-net';
 
@@ -92,6 +93,8 @@ export interface DistributedNetworkOptions {
   transport?: 'websocket' | 'http' | 'postmessage' | 'custom';
   transportOptions?: Record<string, any>;
   logger?: (level: string, message: string, data?: any) => void;
+  /** Id generator for a network created by name; 'peer' prefixes sequential ids with the peer id */
+  ids?: IdGenerator | 'peer';
 }
 
 // Default options
@@ -148,16 +151,17 @@ export class DistributedNetwork {
       ...options
     } as Required<DistributedNetworkOptions>;
 
+    this.peerId = `peer-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
     // Initialize network
     if (typeof nameOrNetwork === 'string') {
-      this.network = new (Network as any)(nameOrNetwork);
+      const ids = this.options.ids === 'peer' ? namespacedIds(this.peerId) : this.options.ids;
+      this.network = Network(nameOrNetwork, undefined, undefined, { ids });
       this.networkId = nameOrNetwork;
     } else {
       this.network = nameOrNetwork;
       this.networkId = nameOrNetwork.name || 'distributed-network';
     }
-
-    this.peerId = `peer-${Date.now()}-${Math.random().toString(36).slice(2)}`;
     this.setupMessageHandlers();
 
     if (this.options.autoConnect) {
@@ -2,7 +2,8 @@ import { ActionRule, type RuleCommand } from "../../rule";
 import { Port, type IBoundPort } from "../../port";
 import { Agent, type IAgent } from "../../agent";
 import { type ScopedNetwork, type AgentFactory, type PortsDefinition } from "../../scoped-network";
-import { type INetwork } from "../../network";
+import { type INetwork, type ScheduledReduceOptions, type ScheduledReduction } from "../../network";
+import { Connection } from "../../connection";
 
 export type BlockEdits = Record<string, Node>;
 
@@ -36,6 +37,15 @@ export type ListManagerValue<T> = {
 
 export type ListDataValue<T> = {
   items: Array<ListItem<T>>;
+  /** Index of the first item this agent still has to sync */
+  offset?: number;
+  /** Items to sync per interaction; the rest continue in a new ListData agent */
+  chunkSize?: number;
+};
+
+export type UpdateListOptions = ScheduledReduceOptions & {
+  /** Items to sync per interaction (default 50) */
+  chunkSize?: number;
 };
 
 export type SelectionManagerValue = {
@@ -73,6 +83,11 @@ export type OptimizedDomSystem = {
   ) => (item: ListItem<T>) => IAgent<"Block", BlockValue>;
   createListManager: <T>(options: ListManagerValue<T>) => IAgent<"ListManager", ListManagerValue<T>>;
   updateList: <T>(manager: IAgent<"ListManager", ListManagerValue<T>>, items: Array<ListItem<T>>) => boolean;
+  updateListScheduled: <T>(
+    manager: IAgent<"ListManager", ListManagerValue<T>>,
+    items: Array<ListItem<T>>,
+    options?: UpdateListOptions
+  ) => ScheduledReduction;
   applyUpdates: (block: IAgent<"Block", BlockValue>, updates: UpdateSpec[]) => void;
   selectBlock: (block: IAgent<"Block", BlockValue>) => void;
 };
@@ -273,17 +288,23 @@ export function createOptimizedDomSystem(scoped: ScopedNetwork): OptimizedDomSys
     ) => {
     const items = data.value.items as Array<ListItem<unknown>>;
     const activeBlocks = manager.value.activeBlocks;
-    const nextIds = new Set(items.map((item) => item.id));
-
-    for (const [id, block] of activeBlocks.entries()) {
-      if (!nextIds.has(id)) {
-        block.value.root.remove();
-        activeBlocks.delete(id);
-        network.removeAgent(block);
+    const offset = data.value.offset ?? 0;
+    const end = Math.min(items.length, offset + (data.value.chunkSize ?? items.length));
+
+    // The first chunk removes the blocks that are no longer listed
+    if (offset === 0) {
+      const nextIds = new Set(items.map((item) => item.id));
+
+      for (const [id, block] of activeBlocks.entries()) {
+        if (!nextIds.has(id)) {
+          block.value.root.remove();
+          activeBlocks.delete(id);
+          network.removeAgent(block);
+        }
       }
     }
 
-    items.forEach((item) => {
+    items.slice(offset, end).forEach((item) => {
       let block = activeBlocks.get(item.id);
 
       if (!block) {
@@ -299,7 +320,15 @@ export function createOptimizedDomSystem(scoped: ScopedNetwork): OptimizedDomSys
       });
     });
 
-    return [{ type: "remove", entity: data }];
+    const commands: RuleCommand[] = [{ type: "remove", entity: data }];
+    if (end < items.length) {
+      const rest = ListData({ ...data.value, offset: end });
+      commands.push(
+        { type: "add", entity: rest },
+        { type: "add", entity: Connection(manager.ports.main, rest.ports.main) }
+      );
+    }
+    return commands;
   });
 
   scoped.network.addRule(blockUpdateRule);
@@ -337,13 +366,57 @@ export function createOptimizedDomSystem(scoped: ScopedNetwork): OptimizedDomSys
     });
   };
 
+  // The scheduled update of each list, replaced by the next update of that list
+  const listUpdates = new WeakMap<IAgent, ScheduledReduction>();
+
+  // Drop the chunks of a list's previous update that have not been synced yet
+  const dropPendingListData = (manager: IAgent) => {
+    const pending = scoped.network.getConnectedPort?.(manager.ports.main);
+    if (pending?.agent.name === "ListData") {
+      scoped.network.removeAgent(pending.agent);
+    }
+  };
+
+  const cancelListUpdate = (manager: IAgent) => {
+    listUpdates.get(manager)?.cancel();
+    listUpdates.delete(manager);
+    dropPendingListData(manager);
+  };
+
   const updateList = <T,>(manager: IAgent<"ListManager", ListManagerValue<T>>, items: Array<ListItem<T>>) => {
+    cancelListUpdate(manager);
     const listData = ListData({ items } as ListDataValue<unknown>);
     scoped.network.connectPorts(manager.ports.main, listData.ports.main);
     const steps = scoped.reduce();
     return steps > 0;
   };
 
+  // Sync the list in chunks, one interaction each, so the reduction can
+  // yield to the browser between them. A newer update of the same list
+  // cancels this one, and a cancelled update drops its remaining chunks.
+  const updateListScheduled = <T,>(
+    manager: IAgent<"ListManager", ListManagerValue<T>>,
+    items: Array<ListItem<T>>,
+    options: UpdateListOptions = {}
+  ) => {
+    const { chunkSize = 50, ...reduceOptions } = options;
+    cancelListUpdate(manager);
+    const listData = ListData({ items, chunkSize } as ListDataValue<unknown>);
+    scoped.network.connectPorts(manager.ports.main, listData.ports.main);
+    const task = scoped.network.reduceScheduled!(reduceOptions);
+    listUpdates.set(manager, task);
+    task.promise.then((result) => {
+      if (listUpdates.get(manager) !== task) return;
+      listUpdates.delete(manager);
+      if (result.reason === "aborted") {
+        dropPendingListData(manager);
+      }
+    }, () => {
+      if (listUpdates.get(manager) === task) listUpdates.delete(manager);
+    });
+    return task;
+  };
+
   const selectBlock = (block: IAgent<"Block", BlockValue>) => {
     const intent = SelectIntent(null);
     scoped.network.connectPorts(block.ports.selection, intent.ports.main);
@@ -359,6 +432,7 @@ export function createOptimizedDomSystem(scoped: ScopedNetwork): OptimizedDomSys
     createBlockTemplate,
     createListManager,
     updateList,
+    updateListScheduled,
     applyUpdates,
     selectBlock
   };
@@ -0,0 +1,275 @@
+/**
+ * Annette Error Classes
+ *
+ * Errors thrown by the core engine and reported by the developer experience
+ * tools. They have no runtime dependencies, so any module can throw them.
+ */
+import type { IAgent } from './agent';
+import type { IBoundPort } from './port';
+import type { AnyRule } from './rule';
+import type { SchemaIssue } from './schema';
+import type { StorylineCheckFailure } from './storyline-testing';
+
+/**
+ * Base error class for Annette
+ */
+export class AnnetteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnnetteError';
+  }
+}
+
+/**
+ * Why two ports could not be connected
+ * - `already-connected`: one of the ports already has a connection
+ * - `agent-not-accepted`: a port's `accepts` list does not include the other agent
+ * - `port-type-not-accepted`: a port's `acceptsPortTypes` list does not include the other port's type
+ * - `missing-tags`: the other port lacks tags required by `requiresTags`
+ * - `already-used`: a port declared `once` has been connected before
+ * - `no-rule`: a strict scoped network has no rule for the two principal ports
+ */
+export type PortConnectionFailure =
+  | 'already-connected'
+  | 'agent-not-accepted'
+  | 'port-type-not-accepted'
+  | 'missing-tags'
+  | 'already-used'
+  | 'no-rule';
+
+/**
+ * Error for port connection issues
+ */
+export class PortConnectionError extends AnnetteError {
+  sourceAgent: IAgent;
+  sourcePort: IBoundPort;
+  targetAgent: IAgent;
+  targetPort: IBoundPort;
+  reason?: PortConnectionFailure;
+
+  constructor(
+    message: string,
+    sourceAgent: IAgent,
+    sourcePort: IBoundPort,
+    targetAgent: IAgent,
+    targetPort: IBoundPort,
+    reason?: PortConnectionFailure
+  ) {
+    super(message);
+    this.name = 'PortConnectionError';
+    this.sourceAgent = sourceAgent;
+    this.sourcePort = sourcePort;
+    this.targetAgent = targetAgent;
+    this.targetPort = targetPort;
+    this.reason = reason;
+  }
+
+  /**
+   * Get detailed error information
+   */
+  getDetails(): string {
+    return `
+      Failed to connect ports: ${this.message}
+      Reason: ${this.reason ?? 'unknown'}
+      Source agent: ${this.sourceAgent.name} (${this.sourceAgent._agentId})
+      Source port: ${this.sourcePort.name} (${this.sourcePort.type})
+      Target agent: ${this.targetAgent.name} (${this.targetAgent._agentId})
+      Target port: ${this.targetPort.name} (${this.targetPort.type})
+    `;
+  }
+}
+
+/**
+ * Error for rule application issues
+ */
+export class RuleApplicationError extends AnnetteError {
+  rule: AnyRule;
+  agent1?: IAgent;
+  port1?: IBoundPort;
+  agent2?: IAgent;
+  port2?: IBoundPort;
+  /** Interaction number the rule was applied as */
+  step?: number;
+  /** Error thrown by the rule */
+  cause?: unknown;
+
+  constructor(
+    message: string,
+    rule: AnyRule,
+    agent1?: IAgent,
+    port1?: IBoundPort,
+    agent2?: IAgent,
+    port2?: IBoundPort,
+    step?: number,
+    cause?: unknown
+  ) {
+    super(message);
+    this.name = 'RuleApplicationError';
+    this.rule = rule;
+    this.agent1 = agent1;
+    this.port1 = port1;
+    this.agent2 = agent2;
+    this.port2 = port2;
+    this.step = step;
+    this.cause = cause;
+  }
+
+  /**
+   * Get detailed error information
+   */
+  getDetails(): string {
+    let details = `
+      Failed to apply rule: ${this.message}
+      Rule: ${this.rule.name}
+    `;
+
+    if (this.step !== undefined) {
+      details += `
+        Step: ${this.step}
+      `;
+    }
+
+    if (this.agent1 && this.port1) {
+      details += `
+        Agent 1: ${this.agent1.name} (${this.agent1._agentId})
+        Port 1: ${this.port1.name} (${this.port1.type})
+      `;
+    }
+
+    if (this.agent2 && this.port2) {
+      details += `
+        Agent 2: ${this.agent2.name} (${this.agent2._agentId})
+        Port 2: ${this.port2.name} (${this.port2.type})
+      `;
+    }
+
+    return details;
+  }
+}
+
+/**
+ * Error for a rule that claims the same agent/port pairs as registered rules
+ */
+export class RuleConflictError extends AnnetteError {
+  rule: AnyRule;
+  conflicts: AnyRule[];
+
+  constructor(message: string, rule: AnyRule, conflicts: AnyRule[]) {
+    super(message);
+    this.name = 'RuleConflictError';
+    this.rule = rule;
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * Why a subnet could not be extracted or embedded
+ * - `unknown-agent`: an extraction root is not in the network
+ * - `unknown-interface`: a binding names a port the subnet's interface lacks
+ * - `unknown-port`: a connection or interface port refers to a port the subnet lacks
+ * - `unserializable-value`: an agent value would not survive a JSON round trip
+ */
+export type SubnetFailure = 'unknown-agent' | 'unknown-interface' | 'unknown-port' | 'unserializable-value';
+
+/**
+ * Error for subnet extraction and embedding issues
+ */
+export class SubnetError extends AnnetteError {
+  reason: SubnetFailure;
+  /** The agent id, interface name or port the failure refers to */
+  subject: string;
+
+  constructor(message: string, reason: SubnetFailure, subject: string) {
+    super(message);
+    this.name = 'SubnetError';
+    this.reason = reason;
+    this.subject = subject;
+  }
+}
+
+/**
+ * Why a rule module could not be loaded or unloaded
+ * - `invalid-name`: the module name is empty or contains '/' or '#'
+ * - `duplicate`: a different module with the same name is already loaded
+ * - `in-use`: a loaded module depends on it, or live agents still take part in its rules
+ */
+export type RuleModuleFailure = 'invalid-name' | 'duplicate' | 'in-use';
+
+/**
+ * Error for rule module issues
+ */
+export class RuleModuleError extends AnnetteError {
+  reason: RuleModuleFailure;
+  module: string;
+
+  constructor(message: string, reason: RuleModuleFailure, module: string) {
+    super(message);
+    this.name = 'RuleModuleError';
+    this.reason = reason;
+    this.module = module;
+  }
+}
+
+/**
+ * When an agent value failed its schema
+ * - `create`: the agent was created by a factory with a schema
+ * - `rule`: an action rule left the value invalid
+ * - `remote`: a remote operation created or updated the agent
+ */
+export type SchemaValidationPhase = 'create' | 'rule' | 'remote';
+
+/**
+ * Error for an agent value that does not match its schema
+ */
+export class SchemaValidationError extends AnnetteError {
+  agentName: string;
+  agentId: string;
+  value: unknown;
+  issues: ReadonlyArray<SchemaIssue>;
+  phase: SchemaValidationPhase;
+  ruleName?: string;
+
+  constructor(
+    message: string,
+    agentName: string,
+    agentId: string,
+    value: unknown,
+    issues: ReadonlyArray<SchemaIssue>,
+    phase: SchemaValidationPhase,
+    ruleName?: string
+  ) {
+    super(message);
+    this.name = 'SchemaValidationError';
+    this.agentName = agentName;
+    this.agentId = agentId;
+    this.value = value;
+    this.issues = issues;
+    this.phase = phase;
+    this.ruleName = ruleName;
+  }
+
+  /**
+   * Get detailed error information
+   */
+  getDetails(): string {
+    return `
+      Invalid agent value: ${this.message}
+      Agent: ${this.agentName} (${this.agentId})
+      Phase: ${this.phase}${this.ruleName ? `\n      Rule: ${this.ruleName}` : ''}
+      Value: ${JSON.stringify(this.value)}
+    `;
+  }
+}
+
+/**
+ * Error for a storyline that breaks an invariant in `assertStorylines`
+ */
+export class StorylinePropertyError extends AnnetteError {
+  failure: StorylineCheckFailure;
+
+  constructor(message: string, failure: StorylineCheckFailure) {
+    super(message);
+    this.name = 'StorylinePropertyError';
+    this.failure = failure;
+  }
+}
@@ -6,11 +6,16 @@
  */
 import { INetwork, IAgent, IRule, IBoundPort, Core } from './core';
 import { isPort } from './port';
+import { ReduceOptions, ReductionStepInfo, TraceEvent } from './network';
+import { ReductionStrategy, ReductionStrategyName } from './reduction-strategy';
+import { AgentQuery, AgentRecord, createRecordGraph, runQuery } from './query';
+import { querySnapshot } from './timetravel';
 import { StdLib } from './stdlib';
 import { 
   AnnetteError, PortConnectionError, RuleApplicationError,
   createOptimizedNetwork, AnnetteOptions
 } from './optimization';
+import { SchemaValidationError } from './errors';
 
 // ========== Progressive Disclosure ==========
 
@@ -165,9 +170,13 @@ export class ErrorReporter {
 
   /**
    * Add an error handler
+   * @returns A function removing the handler
    */
-  addErrorHandler(handler: (error: Error) => void): void {
+  addErrorHandler(handler: (error: Error) => void): () => void {
     this.errorHandlers.push(handler);
+    return () => {
+      this.errorHandlers = this.errorHandlers.filter(other => other !== handler);
+    };
   }
 
   /**
@@ -187,7 +196,7 @@ export class ErrorReporter {
         console.error('Annette Error:', error.message);
         if (error instanceof PortConnectionError) {
           console.error(error.getDetails());
-        } else if (error instanceof RuleApplicationError) {
+        } else if (error instanceof RuleApplicationError || error instanceof SchemaValidationError) {
           console.error(error.getDetails());
         }
       } else {
@@ -296,6 +305,7 @@ export interface DebugConfig {
   trackRuleApplications: boolean;
   trackStateChanges: boolean;
   trackConnections: boolean;
+  trackReductionSteps: boolean;
   logToConsole: boolean;
   maxLogEntries: number;
 }
@@ -339,6 +349,7 @@ export class DebugTools {
       trackRuleApplications: false,
       trackStateChanges: false,
       trackConnections: false,
+      trackReductionSteps: false,
       logToConsole: true,
       maxLogEntries: 1000
     };
@@ -423,6 +434,32 @@ export class DebugTools {
     );
   }
 
+  /**
+   * Track a reduction step, including the strategy that picked it
+   */
+  trackReductionStep(networkName: string, step: ReductionStepInfo): void {
+    if (!this.config.trackReductionSteps) return;
+    
+    this.log(
+      DebugLevel.INFO,
+      'reduction',
+      `Network ${networkName} step ${step.interaction} (${step.strategy}): ${step.rule.name} on ${step.agent1.name} and ${step.agent2.name}`,
+      step
+    );
+  }
+
+  /**
+   * Log every trace event of a network at verbose level
+   * @returns A function that detaches the tracer
+   */
+  attachTracer(network: INetwork): () => void {
+    if (!network.onTrace) return () => {};
+    
+    return network.onTrace((event: TraceEvent) => {
+      this.log(DebugLevel.VERBOSE, `trace:${event.type}`, `Network ${network.name}: ${event.type}`, event);
+    });
+  }
+
   /**
    * Track state change
    */
@@ -506,6 +543,40 @@ export class DebugTools {
     );
   }
 
+  /**
+   * Run an agent query against a live network
+   */
+  query(network: INetwork, query?: AgentQuery<IAgent>): IAgent[] {
+    if (!network.query) {
+      throw new Error(`Network ${network.name} does not support queries`);
+    }
+    return network.query(query);
+  }
+
+  /**
+   * Run an agent query against a snapshot taken with takeNetworkSnapshot
+   * @returns The serialized agents that match
+   */
+  querySnapshot(id: string, query?: AgentQuery<AgentRecord>): AgentRecord[] {
+    const snapshot = this.networkSnapshots.get(id);
+    if (!snapshot) {
+      throw new Error(`Snapshot with ID ${id} not found`);
+    }
+
+    // Networks with native snapshots store time travel snapshots
+    if (snapshot.agentStates instanceof Map) {
+      return querySnapshot(snapshot, query);
+    }
+
+    const graph = createRecordGraph<AgentRecord>(snapshot.agents, snapshot.connections.map((conn: any) => ({
+      sourceAgentId: conn.source.agentId,
+      sourcePortName: conn.source.portName,
+      destinationAgentId: conn.destination.agentId,
+      destinationPortName: conn.destination.portName
+    })));
+    return runQuery(graph, query);
+  }
+
   /**
    * Compare two network snapshots
    */
@@ -721,10 +792,16 @@ export class DebugTools {
  */
 export function createEnhancedNetwork(
   name: string, 
-  options?: AnnetteOptions & { debugLevel?: DebugLevel }
+  options?: AnnetteOptions & {
+    debugLevel?: DebugLevel;
+    strategy?: ReductionStrategy | ReductionStrategyName;
+  }
 ): INetwork {
   // Create the network
   const network = StdLib.createEnhancedNetwork(name);
+  if (options?.strategy) {
+    network.setReductionStrategy(options.strategy);
+  }
   
   // Apply optimizations
   const optimizedNetwork = createOptimizedNetwork(network, options);
@@ -735,9 +812,18 @@ export function createEnhancedNetwork(
     level: options?.debugLevel || DebugLevel.ERROR,
     trackRuleApplications: true,
     trackStateChanges: true,
-    trackConnections: true
+    trackConnections: true,
+    trackReductionSteps: true
   });
   
+  // Record every interaction together with the strategy that picked it
+  optimizedNetwork.onReductionStep?.(step => debugTools.trackReductionStep(name, step));
+  
+  // Detailed trace events are only collected when verbose logging is requested
+  if (options?.debugLevel === DebugLevel.VERBOSE) {
+    debugTools.attachTracer(optimizedNetwork);
+  }
+  
   // Take initial snapshot
   debugTools.takeNetworkSnapshot(optimizedNetwork, `${name}_initial`);
   
@@ -797,12 +883,12 @@ export function createEnhancedNetwork(
       }
       
       if (prop === 'reduce') {
-        return function reduce(maxSteps?: number) {
+        return function reduce(maxStepsOrOptions?: number | ReduceOptions) {
           // Take snapshot before reduction
           debugTools.takeNetworkSnapshot(target, `${name}_before_reduce`);
           
           // Call original method
-          const result = target.reduce(maxSteps);
+          const result = target.reduce(maxStepsOrOptions);
           
           // Take snapshot after reduction
           debugTools.takeNetworkSnapshot(target, `${name}_after_reduce`);
@@ -811,8 +897,8 @@ export function createEnhancedNetwork(
           debugTools.log(
             DebugLevel.INFO,
             'network',
-            `Network ${name} reduced with result: ${result}`,
-            { stepsLimit: maxSteps }
+            `Network ${name} reduced in ${result.steps} steps (${result.reason})`,
+            { options: maxStepsOrOptions, strategy: target.getReductionStrategy().name }
           );
           
           return result;
@@ -0,0 +1,213 @@
+/**
+ * Graph Export
+ *
+ * Renders the agent/port graph of a network, or of a time travel snapshot,
+ * for graph tools: Graphviz DOT, Mermaid flowcharts and the JSON Graph
+ * Format. Agents become nodes and connections become edges labelled with
+ * the ports at both ends. Principal (`main`) ports are emphasised, and the
+ * active pairs a reduction works on are highlighted: for a network, the
+ * pairs its rules match; for a snapshot, which has no rules, every
+ * connection between two principal ports.
+ *
+ * ```typescript
+ * const dot = exportGraph(network, { format: 'dot', filter: { type: 'op' } });
+ * const frames = snapshots.map(snapshot => exportGraph(snapshot, { format: 'mermaid' }));
+ * ```
+ */
+import type { IAgent } from "./agent";
+import type { INetwork } from "./network";
+import type { IBoundPort } from "./port";
+import { AgentQuery, createRecordGraph, runQuery } from "./query";
+import { serializeValue } from "./serialization";
+import type { AgentState, ConnectionState, NetworkSnapshot } from "./timetravel";
+
+export type GraphExportFormat = 'dot' | 'mermaid' | 'json-graph';
+
+export interface GraphExportOptions {
+  /** Default 'dot' */
+  format?: GraphExportFormat;
+  /** Only agents matching the query are drawn, with the connections among them */
+  filter?: AgentQuery<AgentState>;
+  /** Add each agent's value to its label, or to its metadata in JSON Graph (default false) */
+  values?: boolean;
+  /** Graph title (default the network name or snapshot description) */
+  label?: string;
+}
+
+/**
+ * Connection between two drawn agents
+ */
+interface GraphEdge {
+  source: AgentState;
+  sourcePort: string;
+  target: AgentState;
+  targetPort: string;
+  /** The connection is an active pair */
+  active: boolean;
+}
+
+const isPrincipal = (agent: AgentState, portName: string) => agent.ports[portName]?.type === 'main';
+
+// JSON where it can be, seroval for what JSON throws on, such as cycles and BigInt
+const valueText = (value: unknown) => {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return serializeValue(value);
+  }
+};
+
+const nodeLabel = (agent: AgentState, options: GraphExportOptions) =>
+  options.values && agent.value !== undefined ? `${agent.name}\n${valueText(agent.value)}` : agent.name;
+
+// Node record of a live agent; the value is shared, not cloned, and only read when drawn
+const agentRecord = (agent: IAgent): AgentState => ({
+  id: agent._agentId,
+  name: agent.name,
+  type: agent.type || "",
+  value: agent.value,
+  ports: Object.fromEntries(Object.entries(agent.ports).map(([name, port]) => [name, { name: port.name, type: port.type }]))
+});
+
+/**
+ * Render the agent/port graph of a network or snapshot
+ * @returns The graph as DOT or Mermaid source, or as JSON Graph Format text
+ */
+export function exportGraph(source: INetwork | NetworkSnapshot, options: GraphExportOptions = {}): string {
+  const snapshot = 'agentStates' in source;
+  const agents = snapshot ? Array.from(source.agentStates.values()) : source.getAllAgents().map(agentRecord);
+  const activeLinks = new Set<ConnectionState>();
+  const links: ConnectionState[] = snapshot
+    ? Array.from(source.connections.values())
+    : source.getAllConnections().map(connection => {
+        const link = {
+          sourceAgentId: connection.source._agentId,
+          sourcePortName: connection.sourcePort.name,
+          destinationAgentId: connection.destination._agentId,
+          destinationPortName: connection.destinationPort.name,
+          name: connection.name
+        };
+        if (source.isActivePair?.(connection.sourcePort as IBoundPort, connection.destinationPort as IBoundPort)) {
+          activeLinks.add(link);
+        }
+        return link;
+      });
+
+  const nodes = options.filter
+    ? runQuery(createRecordGraph(agents, links, agent => Object.keys(agent.ports)), options.filter)
+    : agents;
+  const drawn = new Map(nodes.map(agent => [agent.id as string, agent]));
+
+  const edges: GraphEdge[] = [];
+  for (const link of links) {
+    const from = drawn.get(link.sourceAgentId);
+    const to = drawn.get(link.destinationAgentId);
+    if (!from || !to) continue;
+    edges.push({
+      source: from,
+      sourcePort: link.sourcePortName,
+      target: to,
+      targetPort: link.destinationPortName,
+      active: snapshot
+        ? isPrincipal(from, link.sourcePortName) && isPrincipal(to, link.destinationPortName)
+        : activeLinks.has(link)
+    });
+  }
+
+  const label = options.label ?? (snapshot ? source.description : source.name);
+  switch (options.format ?? 'dot') {
+    case 'dot':
+      return toDot(label, nodes, edges, options);
+    case 'mermaid':
+      return toMermaid(nodes, edges, options);
+    case 'json-graph':
+      return toJsonGraph(label, nodes, edges, options);
+    default:
+      throw new Error(`Unknown graph export format: ${options.format}`);
+  }
+}
+
+const dotString = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+const dotHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+function toDot(label: string, nodes: AgentState[], edges: GraphEdge[], options: GraphExportOptions): string {
+  // Principal port names are set in bold
+  const portLabel = (agent: AgentState, portName: string) =>
+    isPrincipal(agent, portName) ? `<<b>${dotHtml(portName)}</b>>` : dotString(portName);
+
+  const lines = [`graph ${dotString(label)} {`, '  node [shape=box];'];
+  for (const agent of nodes) {
+    lines.push(`  ${dotString(agent.id)} [label=${dotString(nodeLabel(agent, options))}];`);
+  }
+  for (const edge of edges) {
+    const attributes = [
+      `taillabel=${portLabel(edge.source, edge.sourcePort)}`,
+      `headlabel=${portLabel(edge.target, edge.targetPort)}`,
+      ...(edge.active ? ['color=red', 'penwidth=2'] : [])
+    ];
+    lines.push(`  ${dotString(edge.source.id)} -- ${dotString(edge.target.id)} [${attributes.join(', ')}];`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+const mermaidString = (text: string) => `"${text.replace(/"/g, '#quot;').replace(/\n/g, '<br/>')}"`;
+
+function toMermaid(nodes: AgentState[], edges: GraphEdge[], options: GraphExportOptions): string {
+  // Agent ids are not valid Mermaid ids, so nodes are numbered
+  const ids = new Map(nodes.map((agent, index) => [agent.id as string, `a${index}`]));
+  // Principal ports are marked with a dot
+  const portLabel = (agent: AgentState, portName: string) => (isPrincipal(agent, portName) ? `●${portName}` : portName);
+
+  const lines = ['graph LR'];
+  for (const agent of nodes) {
+    lines.push(`  ${ids.get(agent.id)}[${mermaidString(nodeLabel(agent, options))}]`);
+  }
+  edges.forEach(edge => {
+    const text = mermaidString(`${portLabel(edge.source, edge.sourcePort)} – ${portLabel(edge.target, edge.targetPort)}`);
+    lines.push(`  ${ids.get(edge.source.id)} ${edge.active ? '===' : '---'}|${text}| ${ids.get(edge.target.id)}`);
+  });
+  edges.forEach((edge, index) => {
+    if (edge.active) lines.push(`  linkStyle ${index} stroke:red`);
+  });
+  return lines.join('\n');
+}
+
+// Values as JSON data, or as seroval source when JSON cannot hold them
+const jsonValue = (value: unknown) => {
+  try {
+    const text = JSON.stringify(value);
+    return text === undefined ? undefined : JSON.parse(text);
+  } catch {
+    return serializeValue(value);
+  }
+};
+
+function toJsonGraph(label: string, nodes: AgentState[], edges: GraphEdge[], options: GraphExportOptions): string {
+  const graph = {
+    graph: {
+      label,
+      directed: false,
+      nodes: Object.fromEntries(nodes.map(agent => [agent.id, {
+        label: agent.name,
+        metadata: {
+          type: agent.type,
+          ...(options.values ? { value: jsonValue(agent.value) } : {}),
+          ports: agent.ports
+        }
+      }])),
+      edges: edges.map(edge => ({
+        source: edge.source.id,
+        target: edge.target.id,
+        relation: `${edge.sourcePort}-${edge.targetPort}`,
+        metadata: {
+          sourcePort: edge.sourcePort,
+          targetPort: edge.targetPort,
+          principal: [isPrincipal(edge.source, edge.sourcePort), isPrincipal(edge.target, edge.targetPort)],
+          active: edge.active
+        }
+      }))
+    }
+  };
+  return JSON.stringify(graph, null, 2);
+}
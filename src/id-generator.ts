@@ -0,0 +1,115 @@
+/**
+ * ID Generators
+ *
+ * Agents, networks and time travel snapshots get their ids from an id
+ * generator. The default generator returns random UUIDs; a deterministic
+ * generator makes snapshots, tests and server-rendered output reproducible,
+ * and a namespaced one lets distributed peers create ids that cannot
+ * collide without resorting to UUIDs.
+ *
+ * A network created with the `ids` option runs its rules with its
+ * generator, so agents created by rewrites and actions take ids from it.
+ * Code outside a network selects a generator with `withIdGenerator` or
+ * `setDefaultIdGenerator`.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { seededRandom } from './utils';
+
+/**
+ * What an id is for
+ */
+export type IdKind = 'agent' | 'network' | 'snapshot';
+
+/**
+ * Returns a fresh id for each call. Ids must not contain `#`, which
+ * separates agent ids from port names in port keys.
+ */
+export type IdGenerator = (kind: IdKind) => string;
+
+/**
+ * Random version 4 UUIDs, the default
+ */
+export const uuidIds: IdGenerator = () => uuidv4();
+
+/**
+ * Create a generator of numbered ids, counted per kind: `agent-1`, `agent-2`, `network-1`
+ */
+export function sequentialIds(): IdGenerator {
+  const counts: Partial<Record<IdKind, number>> = {};
+  return kind => {
+    counts[kind] = (counts[kind] ?? 0) + 1;
+    return `${kind}-${counts[kind]}`;
+  };
+}
+
+/**
+ * Create a generator of UUID-shaped ids drawn from a seeded pseudo-random sequence,
+ * so that generators with the same seed return the same ids
+ */
+export function seededIds(seed: number | string): IdGenerator {
+  const random = seededRandom(typeof seed === 'number' ? seed : hashSeed(seed));
+  // Whole 32-bit words
+  const next = () => random() * 4294967296;
+
+  return () => {
+    const hex = [next(), next(), next(), next()].map(word => word.toString(16).padStart(8, '0')).join('');
+    const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+  };
+}
+
+/**
+ * Create a generator that prefixes ids with a namespace, such as a peer id
+ * @param generator Generator of the ids to prefix (default a new `sequentialIds()`)
+ */
+export function namespacedIds(namespace: string, generator: IdGenerator = sequentialIds()): IdGenerator {
+  if (namespace.includes('#')) {
+    throw new Error(`Id namespace ${namespace} may not contain '#'`);
+  }
+  return kind => `${namespace}:${generator(kind)}`;
+}
+
+// FNV-1a
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < seed.length; index++) {
+    hash ^= seed.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+let defaultGenerator: IdGenerator = uuidIds;
+const activeGenerators: IdGenerator[] = [];
+
+/**
+ * Set the generator used outside `withIdGenerator`; no generator restores random UUIDs
+ * @returns The previous default generator
+ */
+export function setDefaultIdGenerator(generator: IdGenerator = uuidIds): IdGenerator {
+  const previous = defaultGenerator;
+  defaultGenerator = generator;
+  return previous;
+}
+
+/**
+ * Run a function with a generator supplying every id it creates
+ *
+ * Only ids created before `fn` returns use the generator; work that an
+ * async function resumes after an `await` falls back to the default.
+ */
+export function withIdGenerator<T>(generator: IdGenerator, fn: () => T): T {
+  activeGenerators.push(generator);
+  try {
+    return fn();
+  } finally {
+    activeGenerators.pop();
+  }
+}
+
+/**
+ * Next id of a kind from the active generator
+ */
+export function nextId(kind: IdKind): string {
+  return (activeGenerators[activeGenerators.length - 1] ?? defaultGenerator)(kind);
+}
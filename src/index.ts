@@ -30,7 +30,8 @@ export { Agent, IAgent, AgentId, AgentName, isAgent, createAgentFactoryFrom } fr
 // Port system
 export {
   Port, IPort, IBoundPort, PortTypes, PortName, PortInstanceKey,
-  BoundPort, getPortInstanceKey, isPort, isBoundPort, PortFactory, createPortFactoryFrom
+  BoundPort, getPortInstanceKey, isPort, isBoundPort, PortFactory, createPortFactoryFrom,
+  PortConstraints, ConstrainedPort, TypedPortFactory, PortCompatibility, checkPortCompatibility
 
 } from './port';
 
@@ -44,20 +45,73 @@ export {
 export {
   ActionRule, RewriteRule, Rule, IRule, IActionRule, IRewriteRule,
   TrackedAction, RuleFactory, createRuleFactoryFrom,
-  AnyRule, Action, ActionReturn, Rewrite,
-  RuleCommand, RuleAddCommand, RuleRemoveCommand
+  AnyRule, Action, ActionReturn, AsyncActionReturn, Rewrite,
+  RuleCommand, RuleAddCommand, RuleRemoveCommand,
+  PatternRule, PatternRuleDefinition, RewriteRuleOptions
 
 } from './rule';
 
+// Rule patterns
+export {
+  AgentPattern, RulePattern, PatternOrientation,
+  matchRulePattern, matchesAgentPattern, patternSpecificity, isPatternRule
+} from './rule-pattern';
+
 // Network system
 export {
-  Network, INetwork, ChangeHistoryEntry
+  Network, INetwork, ChangeHistoryEntry,
+  StepMode, StepOptions, ReduceOptions, ReductionBudget, ReduceReason, ReduceResult, ReductionCycle,
+  NetworkOptions, GCMode, ReductionStepInfo, RoutedPortType, PortRouter,
+  RuleConflictPolicy, AddRuleOptions, RuleValidationReport, ReduceAsyncOptions, RuleLatency,
+  ScheduledReduceOptions, ScheduledReduction,
+  TraceEvent, TraceEventType, TraceListener
 } from './network';
 
+// Reduction strategies
+export {
+  ReductionStrategy, ReductionStrategyName, Redex,
+  ReductionStrategies, resolveReductionStrategy
+} from './reduction-strategy';
+
+// Reduction schedulers
+export {
+  ReductionScheduler, ReductionSchedulerName, TimeSliceOptions, TimeSlicedStatus, TimeSlicedTask,
+  ReductionSchedulers, resolveReductionScheduler, runTimeSliced
+} from './reduction-scheduler';
+
+// Agent queries
+export {
+  AgentQuery, NeighbourQuery, QueryGraph, QueryAgentInfo, AgentRecord, LinkRecord,
+  runQuery, matchesQuery, createRecordGraph
+} from './query';
+export {
+  Subnet, SubnetAgent, SubnetInterfacePort, SubnetBoundary, ExtractOptions, EmbeddedSubnet,
+  SubnetHost, SubnetTarget, extractSubnet, embedSubnet
+} from './subnet';
+export { exportGraph, GraphExportFormat, GraphExportOptions } from './graph-export';
+export {
+  IdGenerator, IdKind, uuidIds, sequentialIds, seededIds, namespacedIds,
+  setDefaultIdGenerator, withIdGenerator, nextId
+} from './id-generator';
+export {
+  ValueSchema, StandardSchemaV1, SchemaIssue, SchemaResult, SchemaValidationMode, Schemas,
+  setSchemaValidation, getSchemaValidation, onSchemaViolation, checkSchema,
+  attachSchema, getAgentSchema, validateAgentValue
+} from './schema';
+
+// Active pair queue
+export { RedexQueue, PairId } from './redex-queue';
+
+// Rewrite plan cache
+export {
+  RewritePlanCache, PlanCacheOptions, PlanCacheMetrics,
+  DEFAULT_PLAN_CACHE_SIZE, emptyPlanCacheMetrics, structuralHash
+} from './plan-cache';
+
 // Time Travel system
 export {
   TimeTravelNetwork, ITimeTravelNetwork, enableTimeTravel,
-  NetworkSnapshot, AgentState, ConnectionState, TimeTravelManager
+  NetworkSnapshot, AgentState, ConnectionState, TimeTravelManager, querySnapshot
 } from './timetravel';
 
 // Updater system
@@ -98,6 +152,14 @@ export {
   // ListOperation, TextOperation, CounterOperation
 } from './specialized-updaters';
 
+// Interaction Combinators
+export {
+  EraserAgent, DuplicatorAgent, ConstructorAgent,
+  ERASER, DUPLICATOR, CONSTRUCTOR, CombinatorName, DuplicatorValue,
+  registerCombinatorRules, Lambda, LambdaTerm,
+  encodeLambda, readbackLambda, reduceLambda, formatLambda
+} from './combinators';
+
 // Automated and Synced Networks
 export {
   AutoNet, SyncedNet, ConnectionGraph,
@@ -195,9 +257,21 @@ export {
   createOptimizedNetwork
 } from './optimization';
 
+export {
+  PortConnectionFailure, RuleConflictError, SubnetFailure, SubnetError,
+  SchemaValidationPhase, SchemaValidationError, RuleModuleFailure, RuleModuleError, StorylinePropertyError
+} from './errors';
+
 // =========== Developer Experience Enhancements ===========
 
 export * from './scoped-network';
+export {
+  RuleModule, RuleModuleDefinition, ModuleAgents, UseRuleModuleOptions, LoadedRuleModule, defineRuleModule
+} from './rule-module';
+export {
+  StorylineCheckSetup, StorylineInvariant, StorylineCall, StorylineCheckOptions, StorylineCheckFailure,
+  StorylineCheckResult, checkStorylines, assertStorylines
+} from './storyline-testing';
 
 
 export {
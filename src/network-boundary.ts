@@ -281,6 +281,47 @@ export class NetworkBoundary {
     this.sendMessage(message);
   }
   
+  /**
+   * Forward interactions on `remote` ports of the source network across the boundary
+   *
+   * A `remote` port belongs to a proxy of a target network node (see `registerNode`).
+   * When it interacts, the agent on the other side is registered with the boundary
+   * and an 'interaction' message connects its proxy to the proxied node in the
+   * target network. Remote ports of other agents interact locally.
+   * @returns A function that stops forwarding
+   */
+  forwardRemotePorts(): () => void {
+    const stop = this.sourceNetwork.routePorts?.('remote', (port, peer, interact) => {
+      const remoteId = port.agent.value?.__remoteId;
+      if (typeof remoteId !== 'string') {
+        interact();
+        return;
+      }
+      
+      const message = (type: NetworkMessageType, data: any): NetworkMessage => ({
+        id: `${type}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+        type,
+        sourceNetworkId: this.sourceNetwork.id,
+        targetNetworkId: this.targetNetwork.id,
+        sourceNodeId: peer.agent._agentId,
+        targetNodeId: remoteId,
+        timestamp: Date.now(),
+        data
+      });
+      
+      // Create the proxy on first contact, refresh its value afterwards
+      if (!this.remoteMappings.has(peer.agent._agentId)) {
+        this.registerNode(peer.agent, false);
+      } else {
+        this.sendMessage(message('agent-update', { value: JSON.parse(JSON.stringify(peer.agent.value)) }));
+      }
+      
+      this.sendMessage(message('interaction', {}));
+    });
+    
+    return stop ?? (() => {});
+  }
+  
   /**
    * Create a network boundary between two networks
    * @param network1 First network
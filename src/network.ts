@@ -5,14 +5,49 @@ import {
   isConnection,
 } from "./connection";
 import {
+  checkPortCompatibility,
   IBoundPort,
   isBoundPort,
+  PortCompatibility,
   PortInstanceKey,
   PortName,
   getPortInstanceKey,
 } from "./port";
-import { AnyRule, IActionRule, IRewriteRule, IRule, RuleCommand, RuleAddCommand, RuleRemoveCommand } from "./rule";
-import { v4 as uuidv4 } from 'uuid';
+import { PortConnectionError, RuleApplicationError, RuleConflictError } from "./errors";
+import type { AgentState } from "./timetravel";
+import { ActionReturn, AnyRule, IActionRule, IRewriteRule, IRule, RuleCommand, RuleAddCommand, RuleRemoveCommand } from "./rule";
+import { IdGenerator, nextId, withIdGenerator } from "./id-generator";
+import { getAgentSchema, getSchemaValidation, SchemaValidationMode, validateAgentValue, ValueSchema } from "./schema";
+import {
+  fifo,
+  lifo,
+  Redex,
+  ReductionStrategy,
+  ReductionStrategyName,
+  resolveReductionStrategy,
+} from "./reduction-strategy";
+import { PairId, RedexQueue } from "./redex-queue";
+import { runTimeSliced, TimeSlicedTask, TimeSliceOptions } from "./reduction-scheduler";
+import { isPromiseLike } from "./utils";
+import { AgentQuery, QueryGraph, runQuery } from "./query";
+import { EmbeddedSubnet, embedSubnet, ExtractOptions, extractSubnet, Subnet } from "./subnet";
+import {
+  isPatternRule,
+  matchRulePattern,
+  patternCovers,
+  patternSpecificity,
+  patternsMayOverlap,
+  rulePatternOf,
+  RulePattern,
+  sortBySpecificity,
+} from "./rule-pattern";
+import {
+  emptyPlanCacheMetrics,
+  PlanCacheMetrics,
+  PlanCacheOptions,
+  RewritePlanCache,
+  structuralHash,
+} from "./plan-cache";
 
 // Type registry to assign integer IDs to agent types for faster matching
 export class TypeRegistry {
@@ -37,10 +72,12 @@ export class TypeRegistry {
 
 // Efficient graph structure for networks with many agents and connections
 export class OptimizedGraph {
-  private agentsByTypeId = new Map<number, Array<IAgent>>();
-  private agentsByName = new Map<string, Array<IAgent>>();
+  // Keyed by agent id so removal does not scan agents of the same name or type
+  private agentsByTypeId = new Map<number, Map<AgentId, IAgent>>();
+  private agentsByName = new Map<string, Map<AgentId, IAgent>>();
   private agentsById = new Map<AgentId, IAgent>();
   private connectionsBySourceKey = new Map<PortInstanceKey, Set<PortInstanceKey>>();
+  private connectionsByDestKey = new Map<PortInstanceKey, Set<PortInstanceKey>>();
   private connectionObjects = new Map<string, IConnection>();
   
   constructor() {}
@@ -55,17 +92,16 @@ export class OptimizedGraph {
     
     // Store by name
     if (!this.agentsByName.has(agent.name)) {
-      this.agentsByName.set(agent.name, []);
+      this.agentsByName.set(agent.name, new Map());
     }
-    this.agentsByName.get(agent.name)!.push(agent);
+    this.agentsByName.get(agent.name)!.set(agent._agentId, agent);
     
-    // In a real implementation with integer IDs, we would use agent.typeId here
-    // For now, we'll use a string-based approach for compatibility
-    const typeId = this.getTypeIdForName(agent.name);
+    // Store by type
+    const typeId = this.getTypeIdForType(agent.type);
     if (!this.agentsByTypeId.has(typeId)) {
-      this.agentsByTypeId.set(typeId, []);
+      this.agentsByTypeId.set(typeId, new Map());
     }
-    this.agentsByTypeId.get(typeId)!.push(agent);
+    this.agentsByTypeId.get(typeId)!.set(agent._agentId, agent);
   }
   
   public removeAgent(agentId: AgentId): boolean {
@@ -78,24 +114,18 @@ export class OptimizedGraph {
     // Remove from name map
     const agentsOfName = this.agentsByName.get(agent.name);
     if (agentsOfName) {
-      const index = agentsOfName.findIndex(a => a._agentId === agentId);
-      if (index >= 0) {
-        agentsOfName.splice(index, 1);
-      }
-      if (agentsOfName.length === 0) {
+      agentsOfName.delete(agentId);
+      if (agentsOfName.size === 0) {
         this.agentsByName.delete(agent.name);
       }
     }
     
     // Remove from type map
-    const typeId = this.getTypeIdForName(agent.name);
+    const typeId = this.getTypeIdForType(agent.type);
     const agentsOfType = this.agentsByTypeId.get(typeId);
     if (agentsOfType) {
-      const index = agentsOfType.findIndex(a => a._agentId === agentId);
-      if (index >= 0) {
-        agentsOfType.splice(index, 1);
-      }
-      if (agentsOfType.length === 0) {
+      agentsOfType.delete(agentId);
+      if (agentsOfType.size === 0) {
         this.agentsByTypeId.delete(typeId);
       }
     }
@@ -113,46 +143,46 @@ export class OptimizedGraph {
     // Remove connections where this port is the source
     const destKeys = this.connectionsBySourceKey.get(portKey);
     if (destKeys) {
-      // Convert to array first to avoid iteration issues
-      const destKeysArray = Array.from(destKeys);
-      for (const destKey of destKeysArray) {
-        const connectionKey = this.getConnectionKey(portKey, destKey);
-        this.connectionObjects.delete(connectionKey);
-        
+      for (const destKey of destKeys) {
+        this.connectionObjects.delete(this.getConnectionKey(portKey, destKey));
         // Also delete the reverse connection
-        const reverseKey = this.getConnectionKey(destKey, portKey);
-        this.connectionObjects.delete(reverseKey);
+        this.connectionObjects.delete(this.getConnectionKey(destKey, portKey));
+        this.unindex(this.connectionsByDestKey, destKey, portKey);
       }
       this.connectionsBySourceKey.delete(portKey);
     }
     
     // Remove connections where this port is the destination
-    // Convert entries to array first to avoid iteration issues
-    const entries = Array.from(this.connectionsBySourceKey.entries());
-    for (const [sourceKey, destSet] of entries) {
-      if (destSet.has(portKey)) {
-        destSet.delete(portKey);
-        
-        // Remove the connection object
-        const connectionKey = this.getConnectionKey(sourceKey, portKey);
-        this.connectionObjects.delete(connectionKey);
-        
-        if (destSet.size === 0) {
-          this.connectionsBySourceKey.delete(sourceKey);
-        }
+    const sourceKeys = this.connectionsByDestKey.get(portKey);
+    if (sourceKeys) {
+      for (const sourceKey of sourceKeys) {
+        this.connectionObjects.delete(this.getConnectionKey(sourceKey, portKey));
+        this.unindex(this.connectionsBySourceKey, sourceKey, portKey);
       }
+      this.connectionsByDestKey.delete(portKey);
     }
   }
   
+  private unindex(index: Map<PortInstanceKey, Set<PortInstanceKey>>, key: PortInstanceKey, peerKey: PortInstanceKey): void {
+    const peers = index.get(key);
+    if (!peers) return;
+    peers.delete(peerKey);
+    if (peers.size === 0) index.delete(key);
+  }
+  
   public addConnection(connection: IConnection): void {
     const sourceKey = getPortInstanceKey(connection.sourcePort);
     const destKey = getPortInstanceKey(connection.destinationPort);
     
-    // Store by source port
+    // Store by source and destination port
     if (!this.connectionsBySourceKey.has(sourceKey)) {
       this.connectionsBySourceKey.set(sourceKey, new Set());
     }
     this.connectionsBySourceKey.get(sourceKey)!.add(destKey);
+    if (!this.connectionsByDestKey.has(destKey)) {
+      this.connectionsByDestKey.set(destKey, new Set());
+    }
+    this.connectionsByDestKey.get(destKey)!.add(sourceKey);
     
     // Store the connection object
     const key = this.getConnectionKey(sourceKey, destKey);
@@ -167,24 +197,15 @@ export class OptimizedGraph {
     const connections: IConnection[] = [];
     
     // Get connections where this port is the source
-    const destKeys = this.connectionsBySourceKey.get(portKey);
-    if (destKeys) {
-      // Convert to array first to avoid iteration issues
-      const destKeysArray = Array.from(destKeys);
-      for (const destKey of destKeysArray) {
-        const connection = this.getConnection(portKey, destKey);
-        if (connection) connections.push(connection);
-      }
+    for (const destKey of this.connectionsBySourceKey.get(portKey) ?? []) {
+      const connection = this.getConnection(portKey, destKey);
+      if (connection) connections.push(connection);
     }
     
     // Get connections where this port is the destination
-    // Convert entries to array first to avoid iteration issues
-    const entries = Array.from(this.connectionsBySourceKey.entries());
-    for (const [sourceKey, destSet] of entries) {
-      if (destSet.has(portKey)) {
-        const connection = this.getConnection(sourceKey, portKey);
-        if (connection) connections.push(connection);
-      }
+    for (const sourceKey of this.connectionsByDestKey.get(portKey) ?? []) {
+      const connection = this.getConnection(sourceKey, portKey);
+      if (connection) connections.push(connection);
     }
     
     return connections;
@@ -208,22 +229,24 @@ export class OptimizedGraph {
   }
   
   public getAgentsByName(name: string): IAgent[] {
-    return this.agentsByName.get(name) || [];
+    return Array.from(this.agentsByName.get(name)?.values() ?? []);
   }
   
-  public getAgentsByType(typeId: number): IAgent[] {
-    return this.agentsByTypeId.get(typeId) || [];
+  public getAgentsByType(type: string | number): IAgent[] {
+    const typeId = typeof type === 'number' ? type : this.typeIdMap.get(type);
+    const agents = typeId !== undefined ? this.agentsByTypeId.get(typeId) : undefined;
+    return Array.from(agents?.values() ?? []);
   }
   
-  // Simple method to get type ID from name - in a real implementation this would be replaced by TypeRegistry
+  // Simple method to get type ID from an agent type - in a real implementation this would be replaced by TypeRegistry
   private typeIdMap = new Map<string, number>();
   private nextTypeId = 1;
   
-  private getTypeIdForName(name: string): number {
-    if (!this.typeIdMap.has(name)) {
-      this.typeIdMap.set(name, this.nextTypeId++);
+  private getTypeIdForType(type: string): number {
+    if (!this.typeIdMap.has(type)) {
+      this.typeIdMap.set(type, this.nextTypeId++);
     }
-    return this.typeIdMap.get(name)!;
+    return this.typeIdMap.get(type)!;
   }
 }
 
@@ -231,13 +254,113 @@ export class OptimizedGraph {
 interface INetworkState {
   agents: Map<AgentId, IAgent>;
   portConnectivity: Map<PortInstanceKey, PortInstanceKey>;
-  activePairs: Set<string>; // Format: `${port1Key}<->${port2Key}`
+  activePairs: RedexQueue; // In activation order, keyed by integer port handles
   rules: Map<string, AnyRule>; // Format: `${agentName1}:${portName1}<->${agentName2}:${portName2}`
+  patternRules: Array<AnyRule & { pattern: RulePattern }>; // In registration order
   
   // Optional optimized graph structure
   optimizedGraph?: OptimizedGraph;
 }
 
+// A matched active pair, with the activation it was matched under
+interface ReadyPair {
+  id: PairId;
+  activation: number;
+  rule: AnyRule;
+  port1: IBoundPort;
+  port2: IBoundPort;
+}
+
+// A mutation recorded by an open transaction, undone in reverse on rollback
+type JournalEntry =
+  | { type: 'agent-added'; agent: IAgent }
+  | { type: 'agent-removed'; agent: IAgent; root: boolean; usedOnce: PortInstanceKey[]; held: PortInstanceKey[] }
+  | { type: 'connected'; port1: IBoundPort; port2: IBoundPort; usedOnce: PortInstanceKey[] }
+  | { type: 'disconnected'; port1: IBoundPort; port2: IBoundPort; name: string }
+  | { type: 'fired'; port1: IBoundPort; port2: IBoundPort }
+  | { type: 'value'; agent: IAgent; snapshot: ValueSnapshot }
+  | { type: 'rules'; rules: Map<string, AnyRule>; patternRules: Array<AnyRule & { pattern: RulePattern }> };
+
+/**
+ * Capture an agent in the time travel snapshot format, with a JSON copy of its value
+ */
+export function captureAgentState(agent: IAgent): AgentState {
+  const ports: AgentState['ports'] = {};
+  for (const [portName, port] of Object.entries(agent.ports)) {
+    ports[portName] = { name: port.name, type: port.type };
+  }
+  
+  return {
+    id: agent._agentId,
+    name: agent.name,
+    type: agent.type || "",
+    value: agent.value === undefined ? undefined : JSON.parse(JSON.stringify(agent.value)),
+    ports
+  };
+}
+
+// An agent value with the contents of every object reachable from it, so a
+// rollback can restore the value in place and keep outside references valid
+type ValueSnapshot = {
+  value: unknown;
+  contents: Map<object, unknown>;
+};
+
+function snapshotValue(value: unknown): ValueSnapshot {
+  const contents = new Map<object, unknown>();
+  const pending: unknown[] = [value];
+  
+  while (pending.length > 0) {
+    const current = pending.pop();
+    if (typeof current !== 'object' || current === null || contents.has(current) || Object.isFrozen(current)) continue;
+    
+    if (current instanceof Map) {
+      const entries = Array.from(current.entries());
+      contents.set(current, entries);
+      entries.forEach(([key, entry]) => pending.push(key, entry));
+    } else if (current instanceof Set) {
+      const entries = Array.from(current.values());
+      contents.set(current, entries);
+      pending.push(...entries);
+    } else if (current instanceof Date) {
+      contents.set(current, current.getTime());
+    } else if (ArrayBuffer.isView(current)) {
+      contents.set(current, new Uint8Array(current.buffer, current.byteOffset, current.byteLength).slice());
+    } else {
+      const copy = Object.assign(Array.isArray(current) ? [] : {}, current) as Record<string, unknown>;
+      contents.set(current, copy);
+      pending.push(...Object.values(copy));
+    }
+  }
+  
+  return { value, contents };
+}
+
+function restoreValue(agent: IAgent, snapshot: ValueSnapshot): void {
+  snapshot.contents.forEach((content, object) => {
+    if (object instanceof Map) {
+      object.clear();
+      (content as [unknown, unknown][]).forEach(([key, entry]) => object.set(key, entry));
+    } else if (object instanceof Set) {
+      object.clear();
+      (content as unknown[]).forEach(entry => object.add(entry));
+    } else if (object instanceof Date) {
+      object.setTime(content as number);
+    } else if (ArrayBuffer.isView(object)) {
+      new Uint8Array(object.buffer, object.byteOffset, object.byteLength).set(content as Uint8Array);
+    } else {
+      const target = object as Record<string, unknown>;
+      const copy = content as Record<string, unknown>;
+      for (const key of Object.keys(target)) {
+        if (!(key in copy)) delete target[key];
+      }
+      if (Array.isArray(target) && Array.isArray(copy)) target.length = copy.length;
+      Object.assign(target, copy);
+    }
+  });
+  agent.value = snapshot.value;
+}
+
 // Helper function to create rule lookup key
 export function getRuleLookupKey(agentName1: string, portName1: string, agentName2: string, portName2: string): string {
   // Create canonical order for rule keys
@@ -262,6 +385,234 @@ export interface ChangeHistoryEntry {
   description: string;
 }
 
+/**
+ * How many interactions a single `step()` fires:
+ * - `one`: exactly one interaction; other matched pairs stay active
+ * - `all-disjoint`: every matched pair that shares no agent with another pick (a maximal step)
+ */
+export type StepMode = 'one' | 'all-disjoint';
+
+export interface StepOptions {
+  mode?: StepMode;
+}
+
+/**
+ * Limits on a reduction; whichever runs out first stops it
+ */
+export interface ReductionBudget {
+  /** Maximum number of interactions to execute (default 10000) */
+  maxSteps?: number;
+  /** Maximum wall-clock time in milliseconds */
+  maxMs?: number;
+  /** Maximum interactions per rule, for every rule or by rule name */
+  maxRuleInteractions?: number | Record<string, number>;
+  /** Stop when the net returns to a state it was in earlier in the reduction */
+  detectCycles?: boolean;
+  /** Stops starting interactions */
+  signal?: AbortSignal;
+}
+
+export interface ReduceOptions extends ReductionBudget {
+  /** Step mode used for every tick of the reduction */
+  mode?: StepMode;
+  /** Run the reduction as a transaction, undoing every interaction if a rule throws */
+  atomic?: boolean;
+}
+
+export interface ReduceAsyncOptions extends ReductionBudget {
+  /** Step mode used for every tick of the reduction */
+  mode?: StepMode;
+}
+
+export interface ScheduledReduceOptions extends ReductionBudget, TimeSliceOptions {
+  /** Step mode used for every tick of the reduction */
+  mode?: StepMode;
+}
+
+/**
+ * Handle to a reduction running in time slices
+ */
+export type ScheduledReduction = TimeSlicedTask<ReduceResult>;
+
+/**
+ * Why a reduction stopped:
+ * - `normal-form`: no active pair can fire
+ * - `budget`: a step, time or per-rule budget ran out
+ * - `cycle`: the net returned to a state it was in earlier in the reduction
+ * - `aborted`: the reduction's signal was aborted
+ */
+export type ReduceReason = 'normal-form' | 'budget' | 'cycle' | 'aborted';
+
+export interface ReduceResult {
+  /** Interactions executed (started, for reduceAsync) */
+  steps: number;
+  reason: ReduceReason;
+  /** Wall-clock time the reduction took */
+  elapsedMs: number;
+  /** Budget that ran out when the reason is 'budget' */
+  budget?: 'steps' | 'time' | 'rule';
+  /** Rule whose interaction budget ran out */
+  rule?: string;
+  /** Rules fired between two visits of the same state when the reason is 'cycle' */
+  cycle?: ReductionCycle;
+}
+
+export interface ReductionCycle {
+  /** Names of the rules fired around the cycle, in order */
+  rules: string[];
+  /** Step count at which the repeated state was first reached */
+  fromStep: number;
+  /** Step count at which it was reached again */
+  toStep: number;
+}
+
+/**
+ * Time spent in a rule's action; async actions count until they settle
+ */
+export interface RuleLatency {
+  count: number;
+  totalMs: number;
+  meanMs: number;
+  maxMs: number;
+}
+
+export interface NetworkOptions {
+  /** Order in which active pairs fire (default 'fifo') */
+  strategy?: ReductionStrategy | ReductionStrategyName;
+  /** Bounds for the rewrite-plan cache of deferred rewrite rules, or false to disable it */
+  planCache?: PlanCacheOptions | false;
+  /** When agents unreachable from the declared roots are erased (default 'manual') */
+  gc?: GCMode;
+  /** Interactions between collections in 'periodic' mode (default 100) */
+  gcInterval?: number;
+  /** What `addRule` does with a rule matching the same pairs as a registered one (default 'replace') */
+  onRuleConflict?: RuleConflictPolicy;
+  /** Id generator for the network and the agents its rules create (default the active generator) */
+  ids?: IdGenerator;
+  /** What failed value schema checks do in this network (default the global mode) */
+  schemaValidation?: SchemaValidationMode;
+}
+
+/**
+ * How `addRule` handles a rule that matches exactly the same agent/port pairs as
+ * a registered rule, including symmetric duplicates and equivalent pattern rules
+ * - `replace`: remove the registered rule and add the new one
+ * - `keep`: keep the registered rule and ignore the new one
+ * - `error`: throw a `RuleConflictError`
+ */
+export type RuleConflictPolicy = 'error' | 'replace' | 'keep';
+
+export interface AddRuleOptions {
+  /** Overrides the network's `onRuleConflict` policy for this rule */
+  onConflict?: RuleConflictPolicy;
+}
+
+/**
+ * Report returned by `network.validateRules()`
+ */
+export interface RuleValidationReport {
+  /** True when there are no conflicts and no unreachable rules */
+  valid: boolean;
+  /** Pattern rules of equal specificity that may match a common pair, so registration order decides */
+  conflicts: Array<{ rules: [AnyRule, AnyRule] }>;
+  /** Rules that never fire because a rule that takes precedence matches all of their pairs */
+  unreachable: Array<{ rule: AnyRule; shadowedBy: AnyRule }>;
+}
+
+/**
+ * Garbage collection modes
+ * - `eager`: after every reduction tick, erase subnets that lost their path to a root
+ * - `periodic`: run a full collection every `gcInterval` interactions
+ * - `manual`: only collect when `collectGarbage()` is called
+ *
+ * Collection only runs once at least one root is declared with `addRoot`.
+ */
+export type GCMode = 'eager' | 'periodic' | 'manual';
+
+/**
+ * Port types whose interactions can be handed to a `PortRouter`
+ */
+export type RoutedPortType = 'sync' | 'remote';
+
+/**
+ * Handles an interaction on a `sync` or `remote` port in place of the local rules.
+ * `port` is the routed port and `peer` the port it is connected to.
+ * `interact` applies the matching local rule, if any, and returns whether one ran.
+ */
+export type PortRouter = (port: IBoundPort, peer: IBoundPort, interact: () => boolean) => void;
+
+/**
+ * Record of a single interaction, delivered to `onReductionStep` listeners
+ */
+export interface ReductionStepInfo {
+  /** Name of the strategy that picked this interaction */
+  strategy: string;
+  mode: StepMode;
+  rule: AnyRule;
+  agent1: IAgent;
+  agent2: IAgent;
+  /** Interaction number, counted from the creation of the network */
+  interaction: number;
+}
+
+/**
+ * Structured trace events emitted while the network reduces.
+ * Events are only built when at least one `onTrace` listener is attached.
+ */
+export type TraceEvent =
+  | {
+      type: 'rule-matched';
+      rule: AnyRule;
+      agent1: IAgent;
+      agent2: IAgent;
+      /** Name of the reduction strategy that picked the pair */
+      strategy: string;
+      mode: StepMode;
+    }
+  | {
+      type: 'plan-cache-hit';
+      rule: IRewriteRule;
+      agent1: IAgent;
+      agent2: IAgent;
+      /** `static` for plans fixed at definition time, `cached` for memoized function plans */
+      plan: 'static' | 'cached';
+    }
+  | {
+      type: 'plan-cache-miss';
+      rule: IRewriteRule;
+      agent1: IAgent;
+      agent2: IAgent;
+    }
+  | {
+      type: 'agent-created';
+      rule: AnyRule;
+      agent: IAgent;
+    }
+  | {
+      type: 'ports-rewired';
+      rule: IRewriteRule;
+      /** Port of the consumed agent that was connected */
+      from: IBoundPort;
+      /** Port of the new agent that takes over the connection */
+      to: IBoundPort;
+      /** Port on the other end of the connection */
+      peer: IBoundPort;
+    }
+  | {
+      type: 'rule-settled';
+      rule: IActionRule;
+      agent1: IAgent;
+      agent2: IAgent;
+      /** Time from starting the async action until it settled */
+      durationMs: number;
+      /** Rejection reason, if the action failed */
+      error?: unknown;
+    };
+
+export type TraceEventType = TraceEvent['type'];
+
+export type TraceListener = (event: TraceEvent) => void;
+
 export interface INetwork<Name extends string = string, A extends IAgent = IAgent> {
   readonly name: Name;
   readonly id: string;
@@ -272,30 +623,74 @@ export interface INetwork<Name extends string = string, A extends IAgent = IAgen
   getAgent: <T extends A | IAgent>(agentId: string) => T | undefined;
   findAgents: (query: { name?: string }) => IAgent[];
   getAllAgents: () => IAgent[]; // New method to get all agents
+  query?: (query?: AgentQuery<IAgent>) => IAgent[]; // Select agents by name, type, value and wiring
+  extract?: (roots: IAgent | string | Array<IAgent | string>, options?: ExtractOptions) => Subnet; // Lift agents and their wiring out as data
+  embed?: (subnet: Subnet, bindings?: Record<string, IBoundPort>) => EmbeddedSubnet; // Instantiate a subnet, wiring its interface ports
 
   // Connection Management  
   connectPorts: <
     P1 extends IBoundPort = IBoundPort,
     P2 extends IBoundPort = IBoundPort
-  >(port1: P1, port2: P2, connectionName?: string) => IConnection<string, P1["agent"], P2["agent"], any, any> | undefined;
+  >(port1: P1 & PortCompatibility<P2, P1>, port2: P2 & PortCompatibility<P1, P2>, connectionName?: string) => IConnection<string, P1["agent"], P2["agent"], any, any> | undefined;
   disconnectPorts: <
     P1 extends IBoundPort = IBoundPort,
     P2 extends IBoundPort = IBoundPort
   >(port1: P1, port2: P2) => boolean;
   isPortConnected: <P extends IBoundPort = IBoundPort>(port: P) => boolean; // New method to check if port is connected
+  getConnectedPort?: (port: IBoundPort) => IBoundPort | undefined; // The port a port is connected to
+  isActivePair?: (port1: IBoundPort, port2: IBoundPort) => boolean; // Whether two connected ports form a redex with a matching rule
   getAllConnections: () => IConnection[]; // New method to get all connections
   findConnections: (query?: { from?: IBoundPort, to?: IBoundPort }) => IConnection[]; // New method to find connections
 
   // Rule Management
-  addRule: (rule: AnyRule) => void;
+  addRule: (rule: AnyRule, options?: AddRuleOptions) => void;
   removeRule: (rule: AnyRule | string) => boolean; // Remove rule by object or name
   getAllRules: () => AnyRule[]; // Get all rules
   findRules: (query?: { name?: string; type?: string; agentName?: string; portName?: string }) => AnyRule[]; // Find rules by criteria
   clearRules: () => void; // Clear all rules
+  validateRules?: () => RuleValidationReport; // List ambiguous and unreachable rules
+  findRuleFor?: (port1: IBoundPort, port2: IBoundPort) => AnyRule | undefined; // The rule that fires when two ports meet
 
   // Execution
-  step: () => boolean;
-  reduce: (maxSteps?: number) => number;
+  step: (options?: StepOptions) => boolean;
+  stepOne: () => boolean; // Fire exactly one interaction without dropping other active pairs
+  reduce: (maxStepsOrOptions?: number | ReduceOptions) => ReduceResult;
+  getInteractionCount?: () => number; // Total interactions executed so far
+  transaction?: <T>(fn: () => T) => T; // Undo every mutation made by fn if it throws
+  reduceAsync?: (options?: ReduceAsyncOptions) => Promise<ReduceResult>; // Reduce, awaiting async action rules
+  onAsyncError?: (listener: (error: RuleApplicationError) => void) => () => void; // Failures of async actions no reduceAsync() awaits
+  reduceScheduled?: (options?: ScheduledReduceOptions) => ScheduledReduction; // Reduce in time slices, yielding between them
+  getRuleLatency?: () => Record<string, RuleLatency>; // Action latency by rule name
+
+  // Value Schemas
+  setSchemaValidation?: (mode: SchemaValidationMode | undefined) => SchemaValidationMode | undefined; // Undefined follows the global mode; returns the previous setting
+  getSchemaValidation?: () => SchemaValidationMode; // The mode in effect
+  registerSchema?: (agentName: string, schema: ValueSchema) => void; // Schema of agents of this name created by remote operations
+  getSchemaByName?: (agentName: string) => ValueSchema | undefined;
+
+  // Reduction Strategy
+  setReductionStrategy: (strategy: ReductionStrategy | ReductionStrategyName) => void;
+  getReductionStrategy: () => ReductionStrategy;
+  onReductionStep?: (listener: (step: ReductionStepInfo) => void) => () => void; // Returns an unsubscribe function
+
+  // Tracing
+  onTrace?: (listener: TraceListener) => () => void; // Returns an unsubscribe function
+
+  // Rewrite Plan Cache
+  getPlanCacheMetrics?: () => PlanCacheMetrics;
+  clearPlanCache?: () => void;
+  
+  // Garbage Collection
+  addRoot?: (agentOrId: A | string) => void;
+  removeRoot?: (agentOrId: A | string) => boolean;
+  getRoots?: () => IAgent[];
+  collectGarbage?: () => IAgent[]; // Erase agents unreachable from the roots and return them
+  onGarbageCollected?: (listener: (removed: IAgent[]) => void) => () => void; // Returns an unsubscribe function
+  
+  // Port Semantics
+  holdPort?: (port: IBoundPort) => void; // Buffer interactions on a hold port
+  releasePort?: (port: IBoundPort) => boolean; // Let buffered interactions fire; false if the port was not held
+  routePorts?: (type: RoutedPortType, router: PortRouter) => () => void; // Returns a function removing the router
   
   // Change History
   getChangeHistory?: () => ChangeHistoryEntry[];
@@ -304,8 +699,82 @@ export interface INetwork<Name extends string = string, A extends IAgent = IAgen
 export function Network<
   Name extends string,
   A extends IAgent = IAgent,
->(name: Name, agents?: A[], rules?: AnyRule[]): INetwork<Name, A> {
-  const networkId = uuidv4();
+>(name: Name, agents?: A[], rules?: AnyRule[], options: NetworkOptions = {}): INetwork<Name, A> {
+  const networkId = options.ids ? options.ids('network') : nextId('network');
+  
+  // Scheduling policy for active pairs, swappable at runtime
+  let strategy = resolveReductionStrategy(options.strategy);
+  const stepListeners = new Set<(step: ReductionStepInfo) => void>();
+  
+  // Trace subscribers; events are only built while this set is non-empty
+  const traceListeners = new Set<TraceListener>();
+  
+  function emitTrace(event: TraceEvent): void {
+    traceListeners.forEach(listener => listener(event));
+  }
+  
+  // Default handling of rules that duplicate a registered rule
+  const ruleConflictPolicy: RuleConflictPolicy = options.onRuleConflict ?? 'replace';
+  
+  // Plans of deferred rewrite rules, keyed by rule and the structural hash of both agent values
+  const planCache = options.planCache === false ? undefined : new RewritePlanCache(options.planCache);
+  const planKeyPrefixes = new WeakMap<IRewriteRule, string>();
+  let nextPlanKeyPrefix = 1;
+  
+  function getPlanKeyPrefix(rule: IRewriteRule): string {
+    let prefix = planKeyPrefixes.get(rule);
+    if (prefix === undefined) {
+      prefix = `${nextPlanKeyPrefix++}|`;
+      planKeyPrefixes.set(rule, prefix);
+    }
+    return prefix;
+  }
+  
+  // Drop cached plans of a rule that is no longer registered
+  function forgetRulePlans(rule: AnyRule | undefined): void {
+    if (!planCache || !rule || rule.type !== 'rewrite') return;
+    const prefix = planKeyPrefixes.get(rule);
+    if (prefix !== undefined) {
+      planCache.deleteByPrefix(prefix);
+    }
+  }
+  
+  // Garbage collection: agents reachable from a root are live, the rest is erased
+  const gcMode: GCMode = options.gc ?? 'manual';
+  const gcInterval = Math.max(1, options.gcInterval ?? 100);
+  const gcRoots = new Set<AgentId>();
+  const gcListeners = new Set<(removed: IAgent[]) => void>();
+  // Agents that lost a connection since the last eager collection
+  const gcCandidates = new Set<AgentId>();
+  let interactionsSinceGC = 0;
+  
+  // Ports declared `once` that have been connected at some point
+  const usedOncePorts = new Set<PortInstanceKey>();
+  
+  // Hold ports whose interactions are buffered until released
+  const heldPorts = new Set<PortInstanceKey>();
+  // Routers taking over interactions on sync and remote ports
+  const portRouters = new Map<RoutedPortType, PortRouter>();
+  
+  // Async actions in flight, the agents they hold and their failures
+  const pendingActions = new Set<Promise<void>>();
+  const busyAgents = new Set<AgentId>();
+  const asyncFailures: RuleApplicationError[] = [];
+  const asyncErrorListeners = new Set<(error: RuleApplicationError) => void>();
+  // Number of reduceAsync() calls in progress; they rethrow async failures
+  let asyncReductions = 0;
+  const ruleLatency = new Map<string, RuleLatency>();
+  // Number of the interaction being fired
+  let firingInteraction = 0;
+  
+  // Schema validation mode, if the network overrides the global one, and the
+  // schemas of agent names it has registered or seen
+  let schemaMode = options.schemaValidation;
+  const schemasByName = new Map<string, ValueSchema>();
+  
+  // Mutations of the open transaction, if any, and the agents whose values it captured
+  let journal: JournalEntry[] | undefined;
+  let journaledValues = new Set<AgentId>();
   
   // Create type registry for fast type-based matching
   const typeRegistry = new TypeRegistry();
@@ -314,16 +783,25 @@ export function Network<
   const state: INetworkState = {
     agents: new Map(),
     portConnectivity: new Map(),
-    activePairs: new Set(),
+    activePairs: new RedexQueue(),
     rules: new Map(),
+    patternRules: [],
     optimizedGraph: new OptimizedGraph(), // Initialize the optimized graph structure
   };
 
-  // Add initial agents if provided
+  // Optimization: Rule resolution caches (declared before initial rules are added)
+  const ruleResolutionCache = new Map<string, AnyRule | null>();
+  // Pattern rules whose names, types and ports match, most specific first; predicates are checked per pair
+  const patternResolutionCache = new Map<string, Array<AnyRule & { pattern: RulePattern }>>();
+  
+  function clearResolutionCaches(): void {
+    ruleResolutionCache.clear();
+    patternResolutionCache.clear();
+  }
+
+  // Add initial agents if provided, indexing them like any other
   if (Array.isArray(agents)) {
-    agents.forEach(agent => {
-      state.agents.set(agent._agentId, agent);
-    });
+    agents.forEach(agent => addAgent(agent));
   }
 
   // Add initial rules if provided
@@ -343,9 +821,62 @@ export function Network<
     return undefined;
   }
 
+  // Registered rules matching exactly the same pairs as a rule
+  function findDuplicateRules(rule: AnyRule): AnyRule[] {
+    const pattern = rulePatternOf(rule);
+    const { left, right } = pattern;
+    // Only a pattern naming literal agents can be equivalent to an exact rule
+    const exact = left.name !== undefined && right.name !== undefined
+      ? state.rules.get(getRuleLookupKey(left.name, left.port ?? 'main', right.name, right.port ?? 'main'))
+      : undefined;
+    
+    return [...(exact ? [exact] : []), ...state.patternRules].filter(other => {
+      if (other === rule) return false;
+      const otherPattern = rulePatternOf(other);
+      return patternCovers(pattern, otherPattern) && patternCovers(otherPattern, pattern);
+    });
+  }
+  
+  function discardRule(rule: AnyRule): void {
+    if (isPatternRule(rule)) {
+      const index = state.patternRules.indexOf(rule);
+      if (index !== -1) state.patternRules.splice(index, 1);
+    } else {
+      const { agentName1, portName1, agentName2, portName2 } = rule.matchInfo;
+      const ruleKey = getRuleLookupKey(agentName1, portName1, agentName2, portName2);
+      if (state.rules.get(ruleKey) === rule) state.rules.delete(ruleKey);
+    }
+    forgetRulePlans(rule);
+    clearResolutionCaches();
+  }
+
   // Add a rule to the network with optimization
-  function addRuleInternal(rule: AnyRule): void {
-    if (rule.type === 'action' || rule.type === 'rewrite') {
+  function addRuleInternal(rule: AnyRule, policy: RuleConflictPolicy = ruleConflictPolicy): void {
+    journalRules();
+    
+    // Legacy rules without match info are converted below and never conflict
+    if ('matchInfo' in rule) {
+      const duplicates = findDuplicateRules(rule);
+      if (duplicates.length > 0) {
+        if (policy === 'keep') return;
+        if (policy === 'error') {
+          throw new RuleConflictError(
+            `Rule ${rule.name} matches the same pairs as ${duplicates.map(other => other.name).join(', ')}`,
+            rule,
+            duplicates
+          );
+        }
+        duplicates.forEach(discardRule);
+      }
+    }
+    
+    if (isPatternRule(rule)) {
+      // Pattern rules are matched by scanning, not by the exact lookup key
+      if (!state.patternRules.includes(rule)) {
+        state.patternRules.push(rule);
+      }
+      clearResolutionCaches();
+    } else if (rule.type === 'action' || rule.type === 'rewrite') {
       const { agentName1, portName1, agentName2, portName2 } = rule.matchInfo;
 
       // Get type IDs for faster rule matching
@@ -358,10 +889,12 @@ export function Network<
 
       // Traditional string-based key for backward compatibility
       const ruleKey = getRuleLookupKey(agentName1, portName1, agentName2, portName2);
+      const replaced = state.rules.get(ruleKey);
+      if (replaced !== rule) forgetRulePlans(replaced);
       state.rules.set(ruleKey, rule);
 
       // Clear rule resolution cache when adding new rules
-      ruleResolutionCache.clear();
+      clearResolutionCaches();
     } else if (rule.type === 'deterministic_action') {
       // Handle deterministic action rules
       const { agentName1, portName1, agentName2, portName2 } = rule.matchInfo;
@@ -379,7 +912,7 @@ export function Network<
       state.rules.set(ruleKey, rule);
 
       // Clear rule resolution cache when adding new rules
-      ruleResolutionCache.clear();
+      clearResolutionCaches();
     } else {
       // Legacy rule format - check if it has connection property
       if ('connection' in rule) {
@@ -419,7 +952,7 @@ export function Network<
         state.rules.set(ruleKey, actionRule);
 
         // Clear rule resolution cache when adding new rules
-        ruleResolutionCache.clear();
+        clearResolutionCaches();
       } else {
         // Handle other rule types or throw error for unsupported types
         throw new Error(`Unsupported rule type: ${(rule as any).type || 'unknown'}`);
@@ -440,37 +973,39 @@ export function Network<
     if (ruleRewrite._staticRewrite && ruleRewrite._optimized) {
       // For static rules, we can use the pre-defined rewrite plan directly
       // These are already optimized at definition time
-      console.log("Using pre-optimized static rewrite plan");
+      if (traceListeners.size > 0) {
+        emitTrace({ type: 'plan-cache-hit', rule, agent1, agent2, plan: 'static' });
+      }
     }
     else if (ruleRewrite._isDeferredFn) {
-      // For function-based rules, check if we have a cached plan for these agents
-      // Create a cache key based on agent values (for value-based optimization)
-      // This allows rules to reuse plans for different agent instances with same values
-      const agent1Value = JSON.stringify(agent1.value);
-      const agent2Value = JSON.stringify(agent2.value);
-      const cacheKey = `${agent1.name}:${agent1Value}:${agent2.name}:${agent2Value}`;
-      
-      // Initialize the cached plans Map if it doesn't exist
-      if (!ruleRewrite._cachedPlans) {
-        ruleRewrite._cachedPlans = new Map();
-      }
-      
-      if (ruleRewrite._cachedPlans.has(cacheKey)) {
-        // Use cached plan for these specific values
-        console.log("Using cached rewrite plan");
-        rewrite = ruleRewrite._cachedPlans.get(cacheKey);
-      } else {
-        // Generate plan by executing the function
-        console.log("Generating rewrite plan");
-        rewrite = ruleRewrite._fn(agent1, agent2);
-        
-        // Cache the plan for future use with same agent values
-        ruleRewrite._cachedPlans.set(cacheKey, rewrite);
+      // For function-based rules, reuse the plan computed for structurally equal agent values.
+      // Rules that depend on more than the agent values opt out with { cache: false }.
+      if (planCache && ruleRewrite._cacheable !== false) {
+        const cacheKey = `${getPlanKeyPrefix(rule)}${agent1.name}#${structuralHash(agent1.value)}|${agent2.name}#${structuralHash(agent2.value)}`;
+        const cachedPlan = planCache.get(cacheKey);
         
-        // Mark this rule as now having some optimization
-        if (!ruleRewrite._optimized) {
-          ruleRewrite._optimized = true;
+        if (cachedPlan) {
+          rewrite = cachedPlan;
+          if (traceListeners.size > 0) {
+            emitTrace({ type: 'plan-cache-hit', rule, agent1, agent2, plan: 'cached' });
+          }
+        } else {
+          // Generate plan by executing the function
+          if (traceListeners.size > 0) {
+            emitTrace({ type: 'plan-cache-miss', rule, agent1, agent2 });
+          }
+          rewrite = ruleRewrite._fn(agent1, agent2);
+          
+          // Cache the plan for future use with same agent values
+          planCache.set(cacheKey, rewrite);
+          
+          // Mark this rule as now having some optimization
+          if (!ruleRewrite._optimized) {
+            ruleRewrite._optimized = true;
+          }
         }
+      } else {
+        rewrite = ruleRewrite._fn(agent1, agent2);
       }
     }
     
@@ -480,17 +1015,16 @@ export function Network<
     // Step 1: Create new agents based on template definitions
     for (const agentDef of rewrite.newAgents) {
       // Create a proper agent instead of a plain object
-      console.log("Creating new agent with initialValue:", agentDef.initialValue);
       const newAgent = Agent(
         agentDef.name,
         agentDef.initialValue !== undefined ? agentDef.initialValue : null
       );
       
-      // Log the new agent's value
-      console.log("New agent created with value:", newAgent.value);
-      
       // Add the new agent to the network
       addAgent(newAgent);
+      if (traceListeners.size > 0) {
+        emitTrace({ type: 'agent-created', rule, agent: newAgent });
+      }
       
       // Store it for use in connections
       newAgents.set(agentDef._templateId, newAgent);
@@ -532,6 +1066,9 @@ export function Network<
           if (newPort) {
             disconnectPorts(originalPort, connectedPort);
             connectPorts(newPort, connectedPort);
+            if (traceListeners.size > 0) {
+              emitTrace({ type: 'ports-rewired', rule, from: originalPort, to: newPort, peer: connectedPort });
+            }
           }
         }
       }
@@ -557,6 +1094,9 @@ export function Network<
           if (newPort) {
             disconnectPorts(originalPort, connectedPort);
             connectPorts(newPort, connectedPort);
+            if (traceListeners.size > 0) {
+              emitTrace({ type: 'ports-rewired', rule, from: originalPort, to: newPort, peer: connectedPort });
+            }
           }
         }
       }
@@ -569,12 +1109,66 @@ export function Network<
 
   // Execute an ActionRule
   function executeActionRule(rule: IActionRule, port1: IBoundPort, port2: IBoundPort): void {
+    // Execute the action function
+    const result = rule.action(port1.agent, port2.agent, network);
+    
+    if (isPromiseLike(result) && journal) {
+      // A rollback could not undo what the action applies once it settles
+      Promise.resolve(result).catch(() => {});
+      throw new Error(`Async rule ${rule.name} cannot run inside a transaction`);
+    } else if (isPromiseLike(result)) {
+      startAsyncAction(rule, port1, port2, result);
+    } else {
+      applyActionResult(rule, result);
+      validateActionValues(rule, port1, port2);
+    }
+  }
+
+  // Check the values an action left against the agents' schemas
+  function validateActionValues(rule: IActionRule, port1: IBoundPort, port2: IBoundPort): void {
+    validateAgentValue(port1.agent, 'rule', { rule: rule.name, mode: schemaMode });
+    validateAgentValue(port2.agent, 'rule', { rule: rule.name, mode: schemaMode });
+  }
+  
+  // Agents of an async action take no part in other interactions until it
+  // settles; its returned entities are applied then
+  function startAsyncAction(rule: IActionRule, port1: IBoundPort, port2: IBoundPort, result: PromiseLike<ActionReturn>): void {
     const agent1 = port1.agent;
     const agent2 = port2.agent;
+    const step = firingInteraction;
+    const startedAt = performance.now();
+    let failure: unknown;
+    busyAgents.add(agent1._agentId);
+    busyAgents.add(agent2._agentId);
     
-    // Execute the action function
-    const result = rule.action(agent1, agent2, network);
-    
+    const pending: Promise<void> = Promise.resolve(result)
+      .then(entities => {
+        applyActionResult(rule, entities);
+        validateActionValues(rule, port1, port2);
+      })
+      .catch(error => {
+        failure = error;
+        const reason = error instanceof Error ? error.message : String(error);
+        reportAsyncFailure(new RuleApplicationError(
+          `Async rule ${rule.name} failed on ${agent1.name} and ${agent2.name} at step ${step}: ${reason}`,
+          rule, agent1, port1, agent2, port2, step, error
+        ));
+      })
+      .finally(() => {
+        busyAgents.delete(agent1._agentId);
+        busyAgents.delete(agent2._agentId);
+        pendingActions.delete(pending);
+        const durationMs = performance.now() - startedAt;
+        recordLatency(rule, durationMs);
+        if (traceListeners.size > 0) {
+          emitTrace({ type: 'rule-settled', rule, agent1, agent2, durationMs, error: failure });
+        }
+      });
+    pendingActions.add(pending);
+  }
+  
+  // Apply the agents, connections and commands returned by an action
+  function applyActionResult(rule: IActionRule, result: ActionReturn): void {
     if (result) {
       // Process the returned entities
       for (const entity of result) {
@@ -582,6 +1176,9 @@ export function Network<
         if (isAgent(entity)) {
           // Legacy behavior: Add new agent to the network
           addAgent(entity);
+          if (traceListeners.size > 0) {
+            emitTrace({ type: 'agent-created', rule, agent: entity });
+          }
         } else if (isConnection(entity)) {
           // Legacy behavior: Establish new connection
           connectPorts(entity.sourcePort, entity.destinationPort, entity.name);
@@ -604,6 +1201,9 @@ export function Network<
               } else {
                 // Add the agent to the network
                 addAgent(addCmd.entity);
+                if (traceListeners.size > 0) {
+                  emitTrace({ type: 'agent-created', rule, agent: addCmd.entity });
+                }
               }
             } else if (isConnection(addCmd.entity)) {
               const conn = addCmd.entity;
@@ -640,10 +1240,23 @@ export function Network<
       throw new Error("Invalid agent provided");
     }
     
+    if (journal && !state.agents.has(agent._agentId)) {
+      journal.push({ type: 'agent-added', agent });
+    }
+    
+    const schema = getAgentSchema(agent);
+    if (schema) schemasByName.set(agent.name, schema);
+    
     // Add to both traditional and optimized structures
     state.agents.set(agent._agentId, agent);
     state.optimizedGraph?.addAgent(agent);
     
+    for (const port of Object.values(agent.ports)) {
+      if (port.type === 'hold' && port.constraints?.held) {
+        heldPorts.add(getPortInstanceKey(port));
+      }
+    }
+    
     return agent;
   }
 
@@ -654,6 +1267,8 @@ export function Network<
     if (!agent) return false;
     
     // Disconnect all ports
+    const usedOnce: PortInstanceKey[] = [];
+    const held: PortInstanceKey[] = [];
     for (const port of Object.values(agent.ports)) {
       const portKey = getPortInstanceKey(port);
       const connectedPortKey = state.portConnectivity.get(portKey);
@@ -664,11 +1279,17 @@ export function Network<
           disconnectPorts(port, connectedPort);
         }
       }
+      if (usedOncePorts.delete(portKey)) usedOnce.push(portKey);
+      if (heldPorts.delete(portKey)) held.push(portKey);
+      state.activePairs.forgetPort(portKey);
     }
+    journal?.push({ type: 'agent-removed', agent, root: gcRoots.has(agentId), usedOnce, held });
     
     // Remove from optimized graph
     state.optimizedGraph?.removeAgent(agentId);
     
+    gcRoots.delete(agentId);
+    
     // Remove the agent from traditional structure
     return state.agents.delete(agentId);
   }
@@ -702,6 +1323,42 @@ export function Network<
     return result;
   }
 
+  // Read-only view of the live net for queries, backed by the name and type indexes
+  const queryGraph: QueryGraph<IAgent> = {
+    agents: () => state.agents.values(),
+    agentsByName: name => state.optimizedGraph?.getAgentsByName(name)
+      ?? Array.from(state.agents.values()).filter(agent => agent.name === name),
+    agentsByType: type => state.optimizedGraph?.getAgentsByType(type)
+      ?? Array.from(state.agents.values()).filter(agent => agent.type === type),
+    info: agent => agent,
+    portNames: agent => Object.keys(agent.ports),
+    peer(agent, portName) {
+      const port = agent.ports[portName];
+      const peerKey = port && state.portConnectivity.get(getPortInstanceKey(port));
+      return peerKey ? state.agents.get(peerKey.split('#')[0] as AgentId) : undefined;
+    }
+  };
+
+  // Select agents by name, type, value, port connectivity and neighbourhood
+  function query(agentQuery?: AgentQuery<IAgent>): IAgent[] {
+    return runQuery(queryGraph, agentQuery);
+  }
+
+  // Lift agents and their wiring out of the network as a subnet
+  function extract(roots: IAgent | string | Array<IAgent | string>, options?: ExtractOptions): Subnet {
+    return extractSubnet({
+      getAgent,
+      removeAgent: agent => removeAgent(agent._agentId),
+      peer: getConnectedPort
+    }, roots, options);
+  }
+
+  // Instantiate a subnet with the network's ids; nothing is left behind if a binding cannot connect
+  function embed(subnet: Subnet, bindings?: Record<string, IBoundPort>): EmbeddedSubnet {
+    const run = () => embedSubnet({ addAgent, connectPorts }, subnet, bindings);
+    return transaction(() => options.ids ? withIdGenerator(options.ids, run) : run());
+  }
+
   // Connect two ports with optimized handling
   function connectPorts(port1: IBoundPort, port2: IBoundPort, connectionName?: string): IConnection | undefined {
     if (!isBoundPort(port1) || !isBoundPort(port2)) {
@@ -713,9 +1370,28 @@ export function Network<
     
     // Check if either port is already connected
     if (state.portConnectivity.has(port1Key) || state.portConnectivity.has(port2Key)) {
-      throw new Error("One or both ports are already connected");
+      throw new PortConnectionError("One or both ports are already connected", port1.agent, port1, port2.agent, port2, 'already-connected');
+    }
+    
+    // Check the declared compatibility of both ports
+    const incompatibility = checkPortCompatibility(port1, port2);
+    if (incompatibility) {
+      throw new PortConnectionError(incompatibility.message, port1.agent, port1, port2.agent, port2, incompatibility.reason);
     }
+    for (const [port, key] of [[port1, port1Key], [port2, port2Key]] as const) {
+      if (port.constraints?.once && usedOncePorts.has(key)) {
+        throw new PortConnectionError(`Port ${port.agent.name}.${port.name} may only be connected once`, port1.agent, port1, port2.agent, port2, 'already-used');
+      }
+    }
+    const usedOnce = [port1Key, port2Key].filter((_, index) => [port1, port2][index].constraints?.once);
+    usedOnce.forEach(key => usedOncePorts.add(key));
+    journal?.push({ type: 'connected', port1, port2, usedOnce });
     
+    return linkPorts(port1, port1Key, port2, port2Key, connectionName);
+  }
+  
+  // Connect two checked ports, activating the pair if a rule or router may apply
+  function linkPorts(port1: IBoundPort, port1Key: PortInstanceKey, port2: IBoundPort, port2Key: PortInstanceKey, connectionName?: string): IConnection {
     // Establish bidirectional connection in traditional structure
     state.portConnectivity.set(port1Key, port2Key);
     state.portConnectivity.set(port2Key, port1Key);
@@ -729,9 +1405,9 @@ export function Network<
     // Create a rule lookup key to check if this connection might trigger a rule
     const ruleKey = getRuleLookupKey(agent1Name, port1Name, agent2Name, port2Name);
     
-    if (state.rules.has(ruleKey)) {
-      // Format: `${port1Key}<->${port2Key}`
-      state.activePairs.add(`${port1Key}<->${port2Key}`);
+    const routed = portRouters.has(port1.type as RoutedPortType) || portRouters.has(port2.type as RoutedPortType);
+    if (routed || state.rules.has(ruleKey) || (state.patternRules.length > 0 && getPatternCandidates(port1, port2).length > 0)) {
+      state.activePairs.add(port1, port1Key, port2, port2Key);
     }
     
     // Create a connection object
@@ -753,9 +1429,18 @@ export function Network<
     const port1Key = getPortInstanceKey(port1);
     const port2Key = getPortInstanceKey(port2);
     
+    if (journal && state.portConnectivity.get(port1Key) === port2Key) {
+      const connection = state.optimizedGraph?.getConnection(port1Key, port2Key) ?? state.optimizedGraph?.getConnection(port2Key, port1Key);
+      journal.push({ type: 'disconnected', port1, port2, name: connection?.name ?? `${port1.agent.name}.${port1.name}-${port2.agent.name}.${port2.name}` });
+    }
+    
     // Remove from active pairs
-    state.activePairs.delete(`${port1Key}<->${port2Key}`);
-    state.activePairs.delete(`${port2Key}<->${port1Key}`);
+    state.activePairs.remove(port1Key);
+    
+    if (gcMode === 'eager') {
+      gcCandidates.add(port1.agent._agentId);
+      gcCandidates.add(port2.agent._agentId);
+    }
     
     // For optimized graph, we would remove the connection directly
     // This is handled indirectly by the optimizedGraph when removing agents
@@ -764,105 +1449,778 @@ export function Network<
     return state.portConnectivity.delete(port1Key) && state.portConnectivity.delete(port2Key);
   }
 
-  // Optimization: Rule resolution cache
-  const ruleResolutionCache = new Map<string, AnyRule | null>();
-  
   // Initialize change history storage
   let changeHistory: ChangeHistoryEntry[] = [];
 
-  // Execute a single step of reduction with batch processing
-  function step(): boolean {
-    if (state.activePairs.size === 0) return false;
-    
-    // Find all applicable reductions
-    const reductions: Array<{
-      port1: IBoundPort,
-      port2: IBoundPort,
-      rule: AnyRule
-    }> = [];
-    
-    // Create a copy of active pairs to iterate over
-    const currentActivePairs = Array.from(state.activePairs);
-    
-    // First phase: Find all applicable reductions
-    for (const pairKey of currentActivePairs) {
-      const [key1, key2] = pairKey.split('<->') as [PortInstanceKey, PortInstanceKey];
-      const port1 = getPortInstance(key1);
-      const port2 = getPortInstance(key2);
+  // Total interactions executed by this network, used for throughput metrics
+  let interactionCount = 0;
+
+  // Find the rule for a pair of connected ports. Exact rules win; otherwise the
+  // most specific matching pattern rule applies, with the ports oriented so
+  // that port1 matches the pattern's left side.
+  function resolveRule(port1: IBoundPort, port2: IBoundPort): { rule: AnyRule; port1: IBoundPort; port2: IBoundPort } | undefined {
+    // Get type IDs for faster rule matching
+    const typeId1 = typeRegistry.getTypeId(port1.agent.name);
+    const typeId2 = typeRegistry.getTypeId(port2.agent.name);
+    
+    // Check if we've previously resolved a rule for these types and ports
+    const ruleResolutionKey = `${typeId1}:${port1.name}:${typeId2}:${port2.name}`;
+    
+    let rule: AnyRule | undefined | null;
+    if (ruleResolutionCache.has(ruleResolutionKey)) {
+      // Use cached rule resolution result (faster lookup)
+      rule = ruleResolutionCache.get(ruleResolutionKey) || undefined;
+    } else {
+      // Perform traditional rule lookup
+      const ruleKey = getRuleLookupKey(
+        port1.agent.name, port1.name,
+        port2.agent.name, port2.name
+      );
+      
+      rule = state.rules.get(ruleKey);
       
-      if (!port1 || !port2) {
-        state.activePairs.delete(pairKey);
+      // Cache the resolution result using type IDs (even if null)
+      ruleResolutionCache.set(ruleResolutionKey, rule || null);
+    }
+    
+    if (rule) return { rule, port1, port2 };
+    if (state.patternRules.length === 0) return undefined;
+    
+    for (const candidate of getPatternCandidates(port1, port2)) {
+      const orientation = matchRulePattern(candidate.pattern, port1, port2);
+      if (orientation === 'forward') return { rule: candidate, port1, port2 };
+      if (orientation === 'reverse') return { rule: candidate, port1: port2, port2: port1 };
+    }
+    return undefined;
+  }
+  
+  // Apply the port type semantics before the rules: pairs on a waiting or held
+  // port are left active for a later tick, and pairs on a routed port are
+  // handed to their router through a rule wrapping the local match
+  function resolvePair(port1: IBoundPort, port2: IBoundPort): { rule: AnyRule; port1: IBoundPort; port2: IBoundPort } | undefined {
+    if (isWaiting(port1) || isWaiting(port2)) return undefined;
+    if (heldPorts.size > 0 && (heldPorts.has(getPortInstanceKey(port1)) || heldPorts.has(getPortInstanceKey(port2)))) {
+      return undefined;
+    }
+    
+    const match = resolveRule(port1, port2);
+    if (portRouters.size === 0) return match;
+    
+    const [port, peer] = portRouters.has(port1.type as RoutedPortType) ? [port1, port2]
+      : portRouters.has(port2.type as RoutedPortType) ? [port2, port1]
+      : [];
+    if (!port || !peer) return match;
+    
+    const router = portRouters.get(port.type as RoutedPortType)!;
+    const interact = () => {
+      if (!match) return false;
+      executeRule(match.rule, match.port1, match.port2);
+      return true;
+    };
+    const route: IActionRule = {
+      type: 'action',
+      name: match ? `${port.type}-route:${match.rule.name}` : `${port.type}-route`,
+      matchInfo: { agentName1: port.agent.name, portName1: port.name, agentName2: peer.agent.name, portName2: peer.name },
+      action: () => {
+        router(port, peer, interact);
+      }
+    };
+    return { rule: route, port1: port, port2: peer };
+  }
+  
+  // A wait port is waiting while none of its condition agents is in the network
+  function isWaiting(port: IBoundPort): boolean {
+    const until = port.type === 'wait' ? port.constraints?.until : undefined;
+    if (until === undefined) return false;
+    const names: readonly string[] = typeof until === 'string' ? [until] : until;
+    return !names.some(name => findAgents({ name }).length > 0);
+  }
+  
+  // Rules run with the network's id generator, so the agents they create take ids from it
+  function executeRule(rule: AnyRule, port1: IBoundPort, port2: IBoundPort): void {
+    if (options.ids) {
+      withIdGenerator(options.ids, () => applyRule(rule, port1, port2));
+    } else {
+      applyRule(rule, port1, port2);
+    }
+  }
+
+  function applyRule(rule: AnyRule, port1: IBoundPort, port2: IBoundPort): void {
+    if (rule.type === 'rewrite') {
+      executeRewriteRule(rule as IRewriteRule, port1, port2);
+    } else if (rule.type === 'action') {
+      executeActionRule(rule as IActionRule, port1, port2);
+    }
+  }
+  
+  // Pattern rules that can match these ports, ignoring predicates
+  function getPatternCandidates(port1: IBoundPort, port2: IBoundPort): Array<AnyRule & { pattern: RulePattern }> {
+    const key = `${port1.agent.name}\u0000${port1.agent.type}\u0000${port1.name}|${port2.agent.name}\u0000${port2.agent.type}\u0000${port2.name}`;
+    let candidates = patternResolutionCache.get(key);
+    if (!candidates) {
+      candidates = sortBySpecificity(
+        state.patternRules.filter(rule => matchRulePattern(rule.pattern, port1, port2, false) !== undefined)
+      );
+      patternResolutionCache.set(key, candidates);
+    }
+    return candidates;
+  }
+
+  // Whether an active pair still joins agents of this network
+  function isLivePair(id: PairId): boolean {
+    const agent1 = state.activePairs.firstPort(id).agent;
+    const agent2 = state.activePairs.secondPort(id).agent;
+    return state.agents.get(agent1._agentId) === agent1 && state.agents.get(agent2._agentId) === agent2;
+  }
+  
+  // Whether an async action still holds an agent of a pair
+  function isBusyPair(id: PairId): boolean {
+    return busyAgents.has(state.activePairs.firstPort(id).agent._agentId)
+      || busyAgents.has(state.activePairs.secondPort(id).agent._agentId);
+  }
+  
+  function matchPair(id: PairId): ReadyPair | undefined {
+    const match = resolvePair(state.activePairs.firstPort(id), state.activePairs.secondPort(id));
+    if (!match) return undefined;
+    return { id, activation: state.activePairs.activationOf(id), ...match };
+  }
+  
+  // fifo and lifo fire the oldest or newest matched pair, so a single
+  // interaction only needs to look at the ends of the queue
+  function pickEndPair(fromBack: boolean): ReadyPair[] {
+    let picked: ReadyPair | undefined;
+    const stale: PairId[] = [];
+    state.activePairs.find(fromBack, id => {
+      if (!isLivePair(id)) {
+        stale.push(id);
+        return false;
+      }
+      if (busyAgents.size > 0 && isBusyPair(id)) return false;
+      picked = matchPair(id);
+      return picked !== undefined;
+    });
+    stale.forEach(id => state.activePairs.delete(id));
+    return picked ? [picked] : [];
+  }
+  
+  // Any other strategy orders every matched pair
+  function pickOrderedPairs(mode: StepMode, limit: number): ReadyPair[] {
+    // First phase: Resolve the rule for every active pair
+    const ready: Redex[] = [];
+    const readyPairs = new Map<string, ReadyPair>();
+    for (const id of state.activePairs) {
+      if (!isLivePair(id)) {
+        state.activePairs.delete(id);
         continue;
       }
+      if (busyAgents.size > 0 && isBusyPair(id)) continue;
       
-      // Optimization: Cache rule resolution
-      let rule: AnyRule | undefined | null;
+      const pair = matchPair(id);
+      if (!pair) continue;
       
-      // Get type IDs for faster rule matching
-      const typeId1 = typeRegistry.getTypeId(port1.agent.name);
-      const typeId2 = typeRegistry.getTypeId(port2.agent.name);
+      const key = state.activePairs.keyOf(id);
+      ready.push({ key, rule: pair.rule, agent1: pair.port1.agent, agent2: pair.port2.agent, order: pair.activation });
+      readyPairs.set(key, pair);
+    }
+    
+    if (ready.length === 0) return [];
+    
+    // Second phase: Pick non-overlapping redexes in strategy order
+    const reductions: ReadyPair[] = [];
+    const claimedAgents = new Set<AgentId>();
+    for (const redex of strategy.order(ready)) {
+      // Pairs sharing an agent with an earlier pick wait for the next tick
+      const agentId1 = redex.agent1._agentId;
+      const agentId2 = redex.agent2._agentId;
+      if (claimedAgents.has(agentId1) || claimedAgents.has(agentId2)) continue;
       
-      // Check if we've previously resolved a rule for these types and ports
-      const ruleResolutionKey = `${typeId1}:${port1.name}:${typeId2}:${port2.name}`;
+      claimedAgents.add(agentId1);
+      claimedAgents.add(agentId2);
+      reductions.push(readyPairs.get(redex.key)!);
       
-      if (ruleResolutionCache.has(ruleResolutionKey)) {
-        // Use cached rule resolution result (faster lookup)
-        rule = ruleResolutionCache.get(ruleResolutionKey) || undefined;
-      } else {
-        // Perform traditional rule lookup
-        const ruleKey = getRuleLookupKey(
-          port1.agent.name, port1.name,
-          port2.agent.name, port2.name
+      if (mode === 'one' || reductions.length >= limit) break;
+    }
+    return reductions;
+  }
+
+  // Execute one reduction tick and return the number of interactions fired.
+  // Ready redexes are ordered by the current strategy. In 'one' mode only the
+  // first of them fires and every other matched pair stays active for the next
+  // tick. In 'all-disjoint' mode every redex that shares no agent with an
+  // earlier pick fires in the same tick.
+  function runStep(mode: StepMode, limit: number = Infinity, firedRules?: AnyRule[]): number {
+    if (state.activePairs.size === 0 || limit <= 0) return 0;
+    
+    const reductions = mode === 'one' && (strategy === fifo || strategy === lifo)
+      ? pickEndPair(strategy === lifo)
+      : pickOrderedPairs(mode, limit);
+    
+    // Process reductions
+    let fired = 0;
+    for (const { id, activation, rule, port1, port2 } of reductions) {
+      // An earlier interaction in this tick may have consumed this pair
+      if (!state.activePairs.isActive(id, activation)) continue;
+      state.activePairs.delete(id);
+      
+      journal?.push({ type: 'fired', port1, port2 });
+      
+      if (traceListeners.size > 0) {
+        emitTrace({ type: 'rule-matched', rule, agent1: port1.agent, agent2: port2.agent, strategy: strategy.name, mode });
+      }
+      
+      firingInteraction = interactionCount + fired + 1;
+      const startedAt = performance.now();
+      try {
+        executeRule(rule, port1, port2);
+      } catch (error) {
+        // Inside a transaction, name the failed interaction for the rollback
+        if (!journal || error instanceof RuleApplicationError) throw error;
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new RuleApplicationError(
+          `Rule ${rule.name} failed on ${port1.agent.name} and ${port2.agent.name} at step ${firingInteraction}: ${reason}`,
+          rule, port1.agent, port1, port2.agent, port2, firingInteraction, error
         );
-        
-        rule = state.rules.get(ruleKey);
-        
-        // Cache the resolution result using type IDs (even if null)
-        ruleResolutionCache.set(ruleResolutionKey, rule || null);
       }
+      // Async actions record their latency when they settle
+      if (!busyAgents.has(port1.agent._agentId)) {
+        recordLatency(rule, performance.now() - startedAt);
+      }
+      
+      fired++;
+      firedRules?.push(rule);
       
-      if (rule) {
-        reductions.push({ port1, port2, rule });
-        state.activePairs.delete(pairKey);
+      if (stepListeners.size > 0) {
+        const info: ReductionStepInfo = {
+          strategy: strategy.name,
+          mode,
+          rule,
+          agent1: port1.agent,
+          agent2: port2.agent,
+          interaction: interactionCount + fired
+        };
+        stepListeners.forEach(listener => listener(info));
       }
     }
     
-    if (reductions.length === 0) return false;
+    interactionCount += fired;
     
-    // Second phase: Process reductions
-    // Note: We're still processing one interaction per step for consistency
-    // But this structure allows for future batch processing if needed
-    const { port1, port2, rule } = reductions[0];
+    if (fired > 0 && gcRoots.size > 0) {
+      if (gcMode === 'eager') {
+        collectCandidates();
+      } else if (gcMode === 'periodic') {
+        interactionsSinceGC += fired;
+        if (interactionsSinceGC >= gcInterval) {
+          collectGarbage();
+        }
+      }
+    }
     
-    if (rule.type === 'rewrite') {
-      executeRewriteRule(rule as IRewriteRule, port1, port2);
-    } else if (rule.type === 'action') {
-      executeActionRule(rule as IActionRule, port1, port2);
+    return fired;
+  }
+
+  // Ids of the agents connected to any port of an agent
+  function getNeighbourIds(agent: IAgent): AgentId[] {
+    const ids: AgentId[] = [];
+    for (const port of Object.values(agent.ports)) {
+      const peerKey = state.portConnectivity.get(getPortInstanceKey(port));
+      if (peerKey) {
+        ids.push(peerKey.split('#')[0] as AgentId);
+      }
+    }
+    return ids;
+  }
+  
+  function eraseAgents(ids: Iterable<AgentId>): IAgent[] {
+    const removed: IAgent[] = [];
+    for (const id of ids) {
+      const agent = state.agents.get(id);
+      if (agent && removeAgent(id)) {
+        removed.push(agent);
+      }
+    }
+    if (removed.length > 0) {
+      gcListeners.forEach(listener => listener(removed));
     }
+    return removed;
+  }
+  
+  // Full mark and sweep from the declared roots
+  function collectGarbage(): IAgent[] {
+    gcCandidates.clear();
+    interactionsSinceGC = 0;
+    if (gcRoots.size === 0) return [];
     
-    return true;
+    const live = new Set<AgentId>(gcRoots);
+    const pending = Array.from(gcRoots);
+    while (pending.length > 0) {
+      const agent = state.agents.get(pending.pop()!);
+      if (!agent) continue;
+      for (const id of getNeighbourIds(agent)) {
+        if (!live.has(id)) {
+          live.add(id);
+          pending.push(id);
+        }
+      }
+    }
+    
+    return eraseAgents(Array.from(state.agents.keys()).filter(id => !live.has(id)));
+  }
+  
+  // Erase the subnets of agents that lost a connection, unless they still reach a root.
+  // Each search stops at the first root, so live subnets are usually left quickly.
+  function collectCandidates(): IAgent[] {
+    const live = new Set<AgentId>();
+    const garbage = new Set<AgentId>();
+    
+    for (const candidate of gcCandidates) {
+      if (!state.agents.has(candidate) || live.has(candidate) || garbage.has(candidate)) continue;
+      
+      const component = new Set<AgentId>([candidate]);
+      const pending = [candidate];
+      let reachesRoot = false;
+      while (pending.length > 0) {
+        const id = pending.pop()!;
+        if (gcRoots.has(id) || live.has(id)) {
+          reachesRoot = true;
+          break;
+        }
+        for (const neighbour of getNeighbourIds(state.agents.get(id)!)) {
+          if (!component.has(neighbour)) {
+            component.add(neighbour);
+            pending.push(neighbour);
+          }
+        }
+      }
+      
+      component.forEach(id => (reachesRoot ? live : garbage).add(id));
+    }
+    
+    gcCandidates.clear();
+    return eraseAgents(garbage);
+  }
+  
+  // Declare an agent as a garbage collection root
+  function addRoot(agentOrId: A | string): void {
+    const agentId = typeof agentOrId === 'string' ? agentOrId : agentOrId._agentId;
+    if (!state.agents.has(agentId)) {
+      throw new Error(`Cannot add root: agent ${agentId} is not in the network`);
+    }
+    gcRoots.add(agentId);
+  }
+  
+  function removeRoot(agentOrId: A | string): boolean {
+    return gcRoots.delete(typeof agentOrId === 'string' ? agentOrId : agentOrId._agentId);
+  }
+  
+  function getRoots(): IAgent[] {
+    return Array.from(gcRoots, id => state.agents.get(id)!);
+  }
+  
+  // Subscribe to agents erased by garbage collection
+  function onGarbageCollected(listener: (removed: IAgent[]) => void): () => void {
+    gcListeners.add(listener);
+    return () => {
+      gcListeners.delete(listener);
+    };
+  }
+
+  function holdPort(port: IBoundPort): void {
+    if (port.type !== 'hold') {
+      throw new Error(`Cannot hold port ${port.agent.name}.${port.name}: only hold ports can be held`);
+    }
+    heldPorts.add(getPortInstanceKey(port));
+  }
+  
+  // Buffered interactions fire on the next step
+  function releasePort(port: IBoundPort): boolean {
+    return heldPorts.delete(getPortInstanceKey(port));
+  }
+  
+  function routePorts(type: RoutedPortType, router: PortRouter): () => void {
+    portRouters.set(type, router);
+    return () => {
+      if (portRouters.get(type) === router) portRouters.delete(type);
+    };
+  }
+
+  // Execute a single step of reduction
+  function step(options?: StepOptions): boolean {
+    return runStep(options?.mode ?? 'one') > 0;
+  }
+
+  // Execute exactly one interaction, leaving every other active pair in place
+  function stepOne(): boolean {
+    return runStep('one') > 0;
   }
 
-  // Optimized reduce function with batch processing and safety limits
-  function reduce(maxSteps?: number): number {
-    // Default to a high but safe limit if no maxSteps provided
-    const MAX_ITERATIONS = maxSteps ?? 10000;
+  // Reduce until no active pair can fire or a budget stops the reduction
+  function reduce(maxStepsOrOptions?: number | ReduceOptions): ReduceResult {
+    const options: ReduceOptions = typeof maxStepsOrOptions === 'number'
+      ? { maxSteps: maxStepsOrOptions }
+      : maxStepsOrOptions ?? {};
+    
+    if (options.atomic) {
+      return transaction(() => reduce({ ...options, atomic: false }));
+    }
+    
+    const mode = options.mode ?? 'one';
+    const reduction = beginReduction(options);
+    
+    // Steps count interactions, so an 'all-disjoint' tick can add several at once
+    while (true) {
+      const stopped = reduction.stopped();
+      if (stopped) return stopped;
+      
+      const firedRules: AnyRule[] = [];
+      if (runStep(mode, reduction.remainingSteps(), firedRules) === 0) {
+        return reduction.finish('normal-form');
+      }
+      reduction.record(firedRules);
+    }
+  }
+
+  // Get the total number of interactions executed so far
+  function getInteractionCount(): number {
+    return interactionCount;
+  }
+
+  // Reduce like reduce(), awaiting async actions. Pairs whose agents are not
+  // held by an async action keep firing while it runs.
+  async function reduceAsync(options: ReduceAsyncOptions = {}): Promise<ReduceResult> {
+    const mode = options.mode ?? 'one';
+    const reduction = beginReduction(options);
+    asyncReductions++;
+    
+    try {
+      while (true) {
+        throwAsyncFailure();
+        const stopped = reduction.stopped();
+        if (stopped) return stopped;
+        
+        const firedRules: AnyRule[] = [];
+        if (runStep(mode, reduction.remainingSteps(), firedRules) > 0) {
+          reduction.record(firedRules);
+          continue;
+        }
+        if (pendingActions.size === 0) return reduction.finish('normal-form');
+        
+        // Nothing can fire until an async action releases its agents
+        await nextSettledAction(options.signal, reduction.remainingMs());
+      }
+    } finally {
+      asyncReductions--;
+    }
+  }
+  
+  // Reduce like reduce(), yielding to the scheduler between slices of
+  // budgetMs. Budgets span the whole reduction, not a slice.
+  function reduceScheduled(options: ScheduledReduceOptions = {}): ScheduledReduction {
+    const mode = options.mode ?? 'one';
+    const reduction = beginReduction(options);
+    
+    const task = runTimeSliced(() => {
+      const stopped = reduction.stopped();
+      if (stopped) return stopped;
+      
+      const firedRules: AnyRule[] = [];
+      if (runStep(mode, reduction.remainingSteps(), firedRules) === 0) {
+        return reduction.finish('normal-form');
+      }
+      reduction.record(firedRules);
+      return undefined;
+    }, () => reduction.finish('aborted'), options);
+    
+    // Settle a paused reduction as soon as its signal aborts
+    const { signal } = options;
+    const cancel = () => task.cancel();
+    const stopListening = () => signal?.removeEventListener('abort', cancel);
+    signal?.addEventListener('abort', cancel, { once: true });
+    task.promise.then(stopListening, stopListening);
+    return task;
+  }
+  
+  // Track the budgets of one reduce() or reduceAsync() call
+  function beginReduction(budget: ReductionBudget) {
+    const startedAt = performance.now();
+    const maxSteps = budget.maxSteps ?? 10000;
+    const maxMs = budget.maxMs ?? Infinity;
+    const ruleCounts = new Map<string, number>();
+    const firedRules: string[] = [];
+    const seenStates = new Map<string, number>();
+    // Rules that used up their budget; reaching it only stops a reduction
+    // when another interaction of the rule is waiting
+    const exhausted = new Set<string>();
     let steps = 0;
+    let result: ReduceResult | undefined;
+    
+    const finish = (reason: ReduceReason, details: Partial<ReduceResult> = {}): ReduceResult =>
+      ({ steps, reason, elapsedMs: performance.now() - startedAt, ...details });
     
-    // Continue reducing until no more reductions are possible or we hit the limit
-    let madeProgress = true;
+    const ruleBudget = (name: string): number => {
+      const { maxRuleInteractions } = budget;
+      if (typeof maxRuleInteractions === 'number') return maxRuleInteractions;
+      return maxRuleInteractions?.[name] ?? Infinity;
+    };
     
-    while (madeProgress && steps < MAX_ITERATIONS) {
-      madeProgress = step();
-      if (madeProgress) steps++;
+    if (budget.detectCycles) seenStates.set(hashNetworkState(), 0);
+    
+    return {
+      finish,
+      remainingSteps: () => maxSteps - steps,
+      remainingMs: () => maxMs - (performance.now() - startedAt),
+      
+      // Count the interactions of a tick and look for a repeated state
+      record(rules: AnyRule[]): void {
+        steps += rules.length;
+        for (const rule of rules) {
+          const count = (ruleCounts.get(rule.name) ?? 0) + 1;
+          ruleCounts.set(rule.name, count);
+          if (count >= ruleBudget(rule.name)) exhausted.add(rule.name);
+        }
+        if (!budget.detectCycles || result) return;
+        
+        firedRules.push(...rules.map(rule => rule.name));
+        const hash = hashNetworkState();
+        const fromStep = seenStates.get(hash);
+        if (fromStep === undefined) {
+          seenStates.set(hash, steps);
+          return;
+        }
+        result = finish('cycle', { cycle: { rules: firedRules.slice(fromStep), fromStep, toStep: steps } });
+      },
+      
+      // Why the reduction has to stop before its next tick, if it does
+      stopped(): ReduceResult | undefined {
+        if (result) return result;
+        if (budget.signal?.aborted) return finish('aborted');
+        const rule = exhausted.size > 0 ? findPendingRule(exhausted) : undefined;
+        if (rule) return (result = finish('budget', { budget: 'rule', rule }));
+        if (steps >= maxSteps) return finish('budget', { budget: 'steps' });
+        if (performance.now() - startedAt >= maxMs) return finish('budget', { budget: 'time' });
+        return undefined;
+      }
+    };
+  }
+  
+  // Name of a rule in names that a live, idle active pair would fire
+  function findPendingRule(names: Set<string>): string | undefined {
+    for (const id of state.activePairs) {
+      if (!isLivePair(id) || (busyAgents.size > 0 && isBusyPair(id))) continue;
+      const name = matchPair(id)?.rule.name;
+      if (name !== undefined && names.has(name)) return name;
     }
+    return undefined;
+  }
+  
+  // Hash of the live net that ignores agent ids: two states hash equally
+  // when their agents have the same names and values and are wired alike
+  function hashNetworkState(): string {
+    const labels = new Map<AgentId, string>();
+    state.agents.forEach((agent, id) => {
+      labels.set(id, `${agent.name}:${structuralHash(agent.value)}`);
+    });
     
-    // Warn if we've hit the iteration limit
-    if (steps >= MAX_ITERATIONS) {
-      console.warn(`Reached maximum iterations (${MAX_ITERATIONS}) in reduce(). Possible infinite loop?`);
+    const signatures: string[] = [];
+    state.agents.forEach((agent, id) => {
+      const wires = Object.values(agent.ports).map(port => {
+        const peerKey = state.portConnectivity.get(getPortInstanceKey(port));
+        if (!peerKey) return port.name;
+        const [peerId, peerPort] = peerKey.split('#');
+        return `${port.name}>${labels.get(peerId as AgentId)}.${peerPort}`;
+      });
+      signatures.push(`${labels.get(id)}(${wires.sort().join(',')})`);
+    });
+    
+    return structuralHash(signatures.sort());
+  }
+  
+  // Resolve once an async action settles, the signal aborts or time runs out
+  function nextSettledAction(signal?: AbortSignal, timeoutMs: number = Infinity): Promise<void> {
+    return new Promise(resolve => {
+      const timer = Number.isFinite(timeoutMs) ? setTimeout(done, Math.max(0, timeoutMs)) : undefined;
+      signal?.addEventListener('abort', done, { once: true });
+      Promise.race(pendingActions).then(done);
+      
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+    });
+  }
+  
+  // Rethrow the oldest failure of an async action
+  function throwAsyncFailure(): void {
+    const failure = asyncFailures.shift();
+    if (failure) throw failure;
+  }
+  
+  // Hand a failed async action to a running reduceAsync(), else to the error
+  // listeners; with neither, it waits for the next of them
+  function reportAsyncFailure(error: RuleApplicationError): void {
+    if (asyncReductions > 0 || asyncErrorListeners.size === 0) {
+      asyncFailures.push(error);
+      return;
+    }
+    asyncErrorListeners.forEach(listener => listener(error));
+  }
+  
+  // Subscribe to failures of async actions started outside reduceAsync(),
+  // receiving the ones that already wait
+  function onAsyncError(listener: (error: RuleApplicationError) => void): () => void {
+    asyncErrorListeners.add(listener);
+    if (asyncReductions === 0) {
+      asyncFailures.splice(0).forEach(error => listener(error));
+    }
+    return () => {
+      asyncErrorListeners.delete(listener);
+    };
+  }
+  
+  function recordLatency(rule: AnyRule, durationMs: number): void {
+    const latency = ruleLatency.get(rule.name);
+    if (!latency) {
+      ruleLatency.set(rule.name, { count: 1, totalMs: durationMs, meanMs: durationMs, maxMs: durationMs });
+      return;
     }
+    latency.count++;
+    latency.totalMs += durationMs;
+    latency.meanMs = latency.totalMs / latency.count;
+    latency.maxMs = Math.max(latency.maxMs, durationMs);
+  }
+  
+  // Get a copy of the action latency of every rule that has fired
+  function getRuleLatency(): Record<string, RuleLatency> {
+    const report: Record<string, RuleLatency> = {};
+    ruleLatency.forEach((latency, name) => {
+      report[name] = { ...latency };
+    });
+    return report;
+  }
+
+  // Run fn, undoing every agent, connection, value and rule mutation it made
+  // if it throws. Transactions nest; a failed inner transaction only undoes
+  // its own mutations.
+  function transaction<T>(fn: () => T): T {
+    const outerJournal = journal;
+    const outerValues = journaledValues;
+    const mark = journal?.length ?? 0;
+    const count = interactionCount;
+    journal = journal ?? [];
+    journaledValues = new Set();
+    // fn and the rules it fires can reach any agent, so every value is recorded up front
+    state.agents.forEach(journalValue);
     
-    return steps;
+    try {
+      return fn();
+    } catch (error) {
+      rollback(mark);
+      interactionCount = count;
+      throw error;
+    } finally {
+      journal = outerJournal;
+      journaledValues = outerValues;
+    }
+  }
+  
+  function rollback(mark: number): void {
+    const entries = journal!.splice(mark);
+    const open = journal;
+    // Nothing is journaled while undoing
+    journal = undefined;
+    try {
+      for (let index = entries.length - 1; index >= 0; index--) {
+        undo(entries[index]);
+      }
+    } finally {
+      journal = open;
+    }
+  }
+  
+  function undo(entry: JournalEntry): void {
+    switch (entry.type) {
+      case 'agent-added':
+        removeAgent(entry.agent._agentId);
+        break;
+      case 'agent-removed':
+        addAgent(entry.agent);
+        for (const port of Object.values(entry.agent.ports)) {
+          heldPorts.delete(getPortInstanceKey(port));
+        }
+        entry.held.forEach(key => heldPorts.add(key));
+        entry.usedOnce.forEach(key => usedOncePorts.add(key));
+        if (entry.root) gcRoots.add(entry.agent._agentId);
+        break;
+      case 'connected':
+        disconnectPorts(entry.port1, entry.port2);
+        entry.usedOnce.forEach(key => usedOncePorts.delete(key));
+        break;
+      case 'disconnected':
+        linkPorts(entry.port1, getPortInstanceKey(entry.port1), entry.port2, getPortInstanceKey(entry.port2), entry.name);
+        break;
+      case 'fired': {
+        // Rewrites already restored their pair by reconnecting it
+        const port1Key = getPortInstanceKey(entry.port1);
+        const port2Key = getPortInstanceKey(entry.port2);
+        if (state.portConnectivity.get(port1Key) === port2Key && !state.activePairs.has(port1Key)) {
+          state.activePairs.add(entry.port1, port1Key, entry.port2, port2Key);
+        }
+        break;
+      }
+      case 'value':
+        restoreValue(entry.agent, entry.snapshot);
+        break;
+      case 'rules':
+        state.rules = entry.rules;
+        state.patternRules = entry.patternRules;
+        clearResolutionCaches();
+        break;
+    }
+  }
+  
+  // Capture an agent's value the first time a transaction can change it
+  function journalValue(agent: IAgent): void {
+    if (journaledValues.has(agent._agentId)) return;
+    journaledValues.add(agent._agentId);
+    journal!.push({ type: 'value', agent, snapshot: snapshotValue(agent.value) });
+  }
+  
+  function journalRules(): void {
+    journal?.push({ type: 'rules', rules: new Map(state.rules), patternRules: state.patternRules.slice() });
+  }
+
+  // Replace the reduction strategy; takes effect from the next tick
+  function setReductionStrategy(next: ReductionStrategy | ReductionStrategyName): void {
+    strategy = resolveReductionStrategy(next);
+  }
+
+  function getReductionStrategy(): ReductionStrategy {
+    return strategy;
+  }
+
+  // Subscribe to every interaction fired by step() and reduce()
+  function onReductionStep(listener: (step: ReductionStepInfo) => void): () => void {
+    stepListeners.add(listener);
+    return () => {
+      stepListeners.delete(listener);
+    };
+  }
+
+  // Subscribe to structured trace events
+  function onTrace(listener: TraceListener): () => void {
+    traceListeners.add(listener);
+    return () => {
+      traceListeners.delete(listener);
+    };
+  }
+
+  // Get rewrite-plan cache performance metrics
+  function getPlanCacheMetrics(): PlanCacheMetrics {
+    return planCache?.getMetrics() ?? emptyPlanCacheMetrics();
+  }
+
+  function clearPlanCache(): void {
+    planCache?.clear();
   }
 
   // Get change history
@@ -880,6 +2238,20 @@ export function Network<
     const portKey = getPortInstanceKey(port);
     return state.portConnectivity.has(portKey);
   }
+  
+  // Look up the peer of a port without scanning the connections
+  function getConnectedPort(port: IBoundPort): IBoundPort | undefined {
+    const peerKey = state.portConnectivity.get(getPortInstanceKey(port));
+    return peerKey ? getPortInstance(peerKey) : undefined;
+  }
+
+  // Whether two connected ports are in the redex set and a rule matches them
+  function isActivePair(port1: IBoundPort, port2: IBoundPort): boolean {
+    const port1Key = getPortInstanceKey(port1);
+    return state.portConnectivity.get(port1Key) === getPortInstanceKey(port2)
+      && state.activePairs.has(port1Key)
+      && resolveRule(port1, port2) !== undefined;
+  }
 
   // Get all connections in the network
   function getAllConnections(): IConnection[] {
@@ -958,6 +2330,19 @@ export function Network<
 
   // Remove a rule from the network
   function removeRuleInternal(ruleOrName: AnyRule | string): boolean {
+    journalRules();
+    
+    // Pattern rules live in their own list
+    const patternIndex = state.patternRules.findIndex(rule =>
+      typeof ruleOrName === 'string' ? rule.name === ruleOrName : rule === ruleOrName
+    );
+    if (patternIndex !== -1) {
+      const [rule] = state.patternRules.splice(patternIndex, 1);
+      forgetRulePlans(rule);
+      clearResolutionCaches();
+      return true;
+    }
+    
     if (typeof ruleOrName === 'string') {
       // Remove by name - search through all rules
       // Convert entries to array first to avoid iteration issues
@@ -965,7 +2350,8 @@ export function Network<
       for (const [key, rule] of entries) {
         if (rule.name === ruleOrName) {
           state.rules.delete(key);
-          ruleResolutionCache.clear();
+          forgetRulePlans(rule);
+          clearResolutionCaches();
           return true;
         }
       }
@@ -979,7 +2365,8 @@ export function Network<
         
         if (state.rules.has(ruleKey) && state.rules.get(ruleKey) === rule) {
           state.rules.delete(ruleKey);
-          ruleResolutionCache.clear();
+          forgetRulePlans(rule);
+          clearResolutionCaches();
           return true;
         }
       }
@@ -987,9 +2374,60 @@ export function Network<
     }
   }
 
+  function setSchemaValidation(mode: SchemaValidationMode | undefined): SchemaValidationMode | undefined {
+    const previous = schemaMode;
+    schemaMode = mode;
+    return previous;
+  }
+  
+  function getNetworkSchemaValidation(): SchemaValidationMode {
+    return schemaMode ?? getSchemaValidation();
+  }
+  
+  // Remote operations find schemas by agent name; the last one registered or seen wins
+  function registerSchema(agentName: string, schema: ValueSchema): void {
+    schemasByName.set(agentName, schema);
+  }
+  
+  function getSchemaByName(agentName: string): ValueSchema | undefined {
+    return schemasByName.get(agentName);
+  }
+
+  // The rule resolved for two ports, whether or not they are connected
+  function findRuleFor(port1: IBoundPort, port2: IBoundPort): AnyRule | undefined {
+    return resolveRule(port1, port2)?.rule;
+  }
+
+  // Walk the rules in resolution order: exact rules, then pattern rules by specificity
+  function validateRules(): RuleValidationReport {
+    const exact = Array.from(state.rules.values());
+    const patterns = sortBySpecificity(state.patternRules);
+    const conflicts: RuleValidationReport['conflicts'] = [];
+    const unreachable: RuleValidationReport['unreachable'] = [];
+    
+    patterns.forEach((rule, index) => {
+      const earlier = [...exact, ...patterns.slice(0, index)];
+      const shadowedBy = earlier.find(other => patternCovers(rulePatternOf(other), rule.pattern));
+      if (shadowedBy) {
+        unreachable.push({ rule, shadowedBy });
+        return;
+      }
+      
+      const specificity = patternSpecificity(rule.pattern);
+      for (const other of patterns.slice(index + 1)) {
+        if (patternSpecificity(other.pattern) !== specificity) break;
+        if (patternsMayOverlap(rule.pattern, other.pattern) && !patternCovers(rule.pattern, other.pattern)) {
+          conflicts.push({ rules: [rule, other] });
+        }
+      }
+    });
+    
+    return { valid: conflicts.length === 0 && unreachable.length === 0, conflicts, unreachable };
+  }
+
   // Get all rules
   function getAllRulesInternal(): AnyRule[] {
-    return Array.from(state.rules.values());
+    return [...Array.from(state.rules.values()), ...state.patternRules];
   }
 
   // Find rules by criteria
@@ -997,7 +2435,7 @@ export function Network<
     const results: AnyRule[] = [];
     
     // Convert values to array first to avoid iteration issues
-    const rules = Array.from(state.rules.values());
+    const rules = getAllRulesInternal();
     for (const rule of rules) {
       // Check name match
       if (query.name && rule.name !== query.name) {
@@ -1034,8 +2472,11 @@ export function Network<
 
   // Clear all rules
   function clearRulesInternal(): void {
+    journalRules();
     state.rules.clear();
-    ruleResolutionCache.clear();
+    state.patternRules = [];
+    clearResolutionCaches();
+    planCache?.clear();
   }
 
   // Create the network object
@@ -1047,18 +2488,50 @@ export function Network<
     getAgent,
     findAgents,
     getAllAgents,
+    query,
+    extract,
+    embed,
     connectPorts,
     disconnectPorts,
     isPortConnected,
+    getConnectedPort,
+    isActivePair,
     getAllConnections,
     findConnections,
-    addRule: addRuleInternal,
+    addRule: (rule: AnyRule, options?: AddRuleOptions) => addRuleInternal(rule, options?.onConflict),
     removeRule: removeRuleInternal,
     getAllRules: getAllRulesInternal,
     findRules: findRulesInternal,
     clearRules: clearRulesInternal,
+    validateRules,
+    findRuleFor,
+    setSchemaValidation,
+    getSchemaValidation: getNetworkSchemaValidation,
+    registerSchema,
+    getSchemaByName,
     step,
+    stepOne,
     reduce,
+    getInteractionCount,
+    transaction,
+    reduceAsync,
+    onAsyncError,
+    reduceScheduled,
+    getRuleLatency,
+    setReductionStrategy,
+    getReductionStrategy,
+    onReductionStep,
+    onTrace,
+    getPlanCacheMetrics,
+    clearPlanCache,
+    addRoot,
+    removeRoot,
+    getRoots,
+    collectGarbage,
+    onGarbageCollected,
+    holdPort,
+    releasePort,
+    routePorts,
     getChangeHistory
   } as INetwork<Name, A>;
 
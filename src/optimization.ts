@@ -6,6 +6,8 @@
  */
 import { INetwork, IAgent, IBoundPort, AgentName, AgentId } from './core';
 import { AnyRule } from './rule';
+import { isPatternRule, matchRulePattern, RulePattern, sortBySpecificity } from './rule-pattern';
+import { ReduceOptions, ReduceReason, ReduceResult } from './network';
 import { isAgent } from './agent';
 import { produce } from 'immer';
 
@@ -29,6 +31,7 @@ export class RuleIndex {
   private portNameIndex: Map<string, Set<AnyRule>> = new Map();
   private patternIndex: Map<string, Set<AnyRule>> = new Map();
   private ruleCache: Map<string, AnyRule | null> = new Map();
+  private patternRules: Array<AnyRule & { pattern: RulePattern }> = [];
   private cacheHits = 0;
   private cacheMisses = 0;
 
@@ -38,6 +41,15 @@ export class RuleIndex {
   addRule(rule: AnyRule): void {
     if (!('matchInfo' in rule)) return;
 
+    // Pattern rules match by glob, type or predicate, so they are scanned rather than indexed
+    if (isPatternRule(rule)) {
+      if (!this.patternRules.includes(rule)) {
+        this.patternRules.push(rule);
+      }
+      this.ruleCache.clear();
+      return;
+    }
+
     // Extract pattern information
     const { agentName1, portName1, agentName2, portName2 } = rule.matchInfo;
 
@@ -65,6 +77,12 @@ export class RuleIndex {
   removeRule(rule: AnyRule): void {
     if (!('matchInfo' in rule)) return;
 
+    if (isPatternRule(rule)) {
+      this.patternRules = this.patternRules.filter(candidate => candidate !== rule);
+      this.ruleCache.clear();
+      return;
+    }
+
     // Extract pattern information
     const { agentName1, portName1, agentName2, portName2 } = rule.matchInfo;
 
@@ -87,7 +105,8 @@ export class RuleIndex {
   }
 
   /**
-   * Find applicable rules for a given connection
+   * Find applicable rules for a given connection, most specific first
+   * (exact rules, then pattern rules by specificity)
    */
   findRules(agent1: IAgent, port1: IBoundPort, agent2: IAgent, port2: IBoundPort): AnyRule[] {
     // Check cache first
@@ -143,6 +162,17 @@ export class RuleIndex {
       }
     }
     
+    // Append matching pattern rules; predicates depend on agent state, so those results are not cached
+    let cacheable = true;
+    for (const rule of sortBySpecificity(this.patternRules)) {
+      if (matchRulePattern(rule.pattern, port1, port2, false) === undefined) continue;
+      if (rule.pattern.left.where || rule.pattern.right.where) cacheable = false;
+      if (matchRulePattern(rule.pattern, port1, port2) !== undefined) {
+        matchingRules.push(rule);
+      }
+    }
+    if (!cacheable) return matchingRules;
+    
     // Cache the result (only if there's exactly one matching rule)
     if (matchingRules.length === 1) {
       this.ruleCache.set(cacheKey, matchingRules[0]);
@@ -239,6 +269,7 @@ export class RuleIndex {
     this.portNameIndex.clear();
     this.patternIndex.clear();
     this.ruleCache.clear();
+    this.patternRules = [];
     this.cacheHits = 0;
     this.cacheMisses = 0;
   }
@@ -753,107 +784,8 @@ export class ParallelProcessing {
 
 // ========== Error Handling ==========
 
-/**
- * Base error class for Annette
- */
-export class AnnetteError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'AnnetteError';
-  }
-}
-
-/**
- * Error for port connection issues
- */
-export class PortConnectionError extends AnnetteError {
-  sourceAgent: IAgent;
-  sourcePort: IBoundPort;
-  targetAgent: IAgent;
-  targetPort: IBoundPort;
-
-  constructor(
-    message: string,
-    sourceAgent: IAgent,
-    sourcePort: IBoundPort,
-    targetAgent: IAgent,
-    targetPort: IBoundPort
-  ) {
-    super(message);
-    this.name = 'PortConnectionError';
-    this.sourceAgent = sourceAgent;
-    this.sourcePort = sourcePort;
-    this.targetAgent = targetAgent;
-    this.targetPort = targetPort;
-  }
-
-  /**
-   * Get detailed error information
-   */
-  getDetails(): string {
-    return `
-      Failed to connect ports: ${this.message}
-      Source agent: ${this.sourceAgent.name} (${this.sourceAgent._agentId})
-      Source port: ${this.sourcePort.name} (${this.sourcePort.type})
-      Target agent: ${this.targetAgent.name} (${this.targetAgent._agentId})
-      Target port: ${this.targetPort.name} (${this.targetPort.type})
-    `;
-  }
-}
-
-/**
- * Error for rule application issues
- */
-export class RuleApplicationError extends AnnetteError {
-  rule: AnyRule;
-  agent1?: IAgent;
-  port1?: IBoundPort;
-  agent2?: IAgent;
-  port2?: IBoundPort;
-
-  constructor(
-    message: string,
-    rule: AnyRule,
-    agent1?: IAgent,
-    port1?: IBoundPort,
-    agent2?: IAgent,
-    port2?: IBoundPort
-  ) {
-    super(message);
-    this.name = 'RuleApplicationError';
-    this.rule = rule;
-    this.agent1 = agent1;
-    this.port1 = port1;
-    this.agent2 = agent2;
-    this.port2 = port2;
-  }
-
-  /**
-   * Get detailed error information
-   */
-  getDetails(): string {
-    let details = `
-      Failed to apply rule: ${this.message}
-      Rule: ${this.rule.name}
-    `;
-    
-    if (this.agent1 && this.port1) {
-      details += `
-        Agent 1: ${this.agent1.name} (${this.agent1._agentId})
-        Port 1: ${this.port1.name} (${this.port1.type})
-      `;
-    }
-    
-    if (this.agent2 && this.port2) {
-      details += `
-        Agent 2: ${this.agent2.name} (${this.agent2._agentId})
-        Port 2: ${this.port2.name} (${this.port2.type})
-      `;
-    }
-    
-    return details;
-  }
-}
+// Error classes live in ./errors so the core network can throw them without an import cycle
+export { AnnetteError, PortConnectionError, RuleApplicationError } from './errors';
 
 // ========== Progressive Disclosure ==========
 
@@ -966,7 +898,7 @@ export function createOptimizedNetwork(
       }
       
       if (prop === 'reduce' && (ruleIndex || connectionTracker || memoryManager)) {
-        return function reduce(maxSteps?: number) {
+        return function reduce(maxStepsOrOptions?: number | ReduceOptions) {
           // Run memory management if enabled
           if (memoryManager) {
             memoryManager.garbageCollect();
@@ -974,24 +906,32 @@ export function createOptimizedNetwork(
           
           // If using lazy evaluation, only process dirty connections
           if (connectionTracker && ruleIndex) {
-            let changed = false;
+            const startedAt = performance.now();
             let steps = 0;
-            const maxIterations = maxSteps || 1000;
+            let reason: ReduceReason = 'normal-form';
+            const maxSteps = typeof maxStepsOrOptions === 'number' ? maxStepsOrOptions : maxStepsOrOptions?.maxSteps;
+            const stepBudget = maxSteps || 1000;
             
-            while (steps < maxIterations) {
+            while (true) {
               const dirtyConnections = connectionTracker.getDirtyConnections();
               if (dirtyConnections.size === 0) break;
+              if (steps >= stepBudget) {
+                reason = 'budget';
+                break;
+              }
               
               let iterationChanged = false;
               
               // Process each dirty connection
               for (const connectionKey of dirtyConnections) {
+                if (steps >= stepBudget) break;
+                
                 // Try to find the connection in available connections
                 const allConnections = target.getAllConnections ? target.getAllConnections() : (target as any)._connections || [];
-                const connection = allConnections.find((c: any) => {
-                  const key = `${c.source._agentId}-${c.source.name}:${c.destination._agentId}-${c.destination.name}`;
-                  return key === connectionKey;
-                });
+                const connection = allConnections.find((c: any) =>
+                  `${c.source._agentId}-${c.sourcePort.name}:${c.destination._agentId}-${c.destinationPort.name}` === connectionKey ||
+                  `${c.destination._agentId}-${c.destinationPort.name}:${c.source._agentId}-${c.sourcePort.name}` === connectionKey
+                );
                 
                 if (!connection) {
                   connectionTracker.removeConnection(connectionKey);
@@ -1001,9 +941,9 @@ export function createOptimizedNetwork(
                 // Find applicable rules
                 const rules = ruleIndex.findRules(
                   connection.source,
-                  connection.source,
+                  connection.sourcePort,
                   connection.destination,
-                  connection.destination
+                  connection.destinationPort
                 );
                 
                 // Apply the first matching rule
@@ -1020,6 +960,7 @@ export function createOptimizedNetwork(
                     
                     if (result) {
                       iterationChanged = true;
+                      steps++;
                       
                       // Mark affected agents as dirty
                       const affectedAgents = result.affectedAgents || [];
@@ -1038,17 +979,16 @@ export function createOptimizedNetwork(
                 connectionTracker.markConnectionClean(connectionKey);
               }
               
-              changed = changed || iterationChanged;
               if (!iterationChanged) break;
-              
-              steps++;
             }
             
-            return changed;
+            const result: ReduceResult = { steps, reason, elapsedMs: performance.now() - startedAt };
+            if (reason === 'budget') result.budget = 'steps';
+            return result;
           }
           
           // Fall back to original reduce method
-          return target.reduce(maxSteps);
+          return target.reduce(maxStepsOrOptions);
         };
       }
       
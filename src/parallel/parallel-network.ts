@@ -7,9 +7,16 @@
 
 import { Agent, IAgent } from '../agent';
 import { IConnection } from '../connection';
-import { INetwork, Network } from '../network';
+import { AddRuleOptions, INetwork, Network, PortRouter, ReduceAsyncOptions, ReduceOptions, ReduceResult, ReductionStepInfo, RoutedPortType, RuleLatency, RuleValidationReport, ScheduledReduceOptions, ScheduledReduction, StepOptions, TraceListener } from '../network';
+import { runTimeSliced } from '../reduction-scheduler';
+import { AgentQuery } from '../query';
+import { EmbeddedSubnet, embedSubnet, ExtractOptions, Subnet } from '../subnet';
+import { ReductionStrategy, ReductionStrategyName } from '../reduction-strategy';
+import { emptyPlanCacheMetrics, PlanCacheMetrics } from '../plan-cache';
 import { AnyRule } from '../rule';
-import { IBoundPort, Port } from '../port';
+import { IBoundPort, Port, PortCompatibility } from '../port';
+import { RuleApplicationError } from '../errors';
+import { getSchemaValidation, SchemaValidationMode, ValueSchema } from '../schema';
 
 import { 
   ExecutionResult, 
@@ -341,8 +348,8 @@ export class ParallelNetwork<Name extends string = string, A extends IAgent = IA
    * @returns The created connection
    */
   connectPorts<P1 extends IBoundPort = IBoundPort, P2 extends IBoundPort = IBoundPort>(
-    port1: P1,
-    port2: P2,
+    port1: P1 & PortCompatibility<P2, P1>,
+    port2: P2 & PortCompatibility<P1, P2>,
     connectionName?: string
   ): IConnection<string, P1["agent"], P2["agent"], any, any> | undefined {
     return this.baseNetwork.connectPorts(port1, port2, connectionName);
@@ -370,6 +377,25 @@ export class ParallelNetwork<Name extends string = string, A extends IAgent = IA
     return this.baseNetwork.isPortConnected(port);
   }
 
+  /**
+   * Get the port a port is connected to
+   * @param port The port to look up
+   * @returns The connected port, if any
+   */
+  getConnectedPort(port: IBoundPort): IBoundPort | undefined {
+    return this.baseNetwork.getConnectedPort?.(port);
+  }
+
+  /**
+   * Check whether two connected ports form an active pair of the base network
+   * @param port1 One end of the connection
+   * @param port2 The other end
+   * @returns Whether a rule matches the pair
+   */
+  isActivePair(port1: IBoundPort, port2: IBoundPort): boolean {
+    return this.baseNetwork.isActivePair?.(port1, port2) ?? false;
+  }
+
   /**
    * Get all connections in the network
    * @returns Array of all connections
@@ -390,9 +416,24 @@ export class ParallelNetwork<Name extends string = string, A extends IAgent = IA
   /**
    * Add a rule to the network
    * @param rule The rule to add
+   * @param options How to handle a rule matching the same pairs as a registered one
+   */
+  addRule(rule: AnyRule, options?: AddRuleOptions): void {
+    this.baseNetwork.addRule(rule, options);
+  }
+
+  /**
+   * List ambiguous and unreachable rules of the base network
+   */
+  validateRules(): RuleValidationReport {
+    return this.baseNetwork.validateRules?.() ?? { valid: true, conflicts: [], unreachable: [] };
+  }
+
+  /**
+   * Find the rule of the base network that fires when two ports meet
    */
-  addRule(rule: AnyRule): void {
-    this.baseNetwork.addRule(rule);
+  findRuleFor(port1: IBoundPort, port2: IBoundPort): AnyRule | undefined {
+    return this.baseNetwork.findRuleFor?.(port1, port2);
   }
   
   /**
@@ -406,12 +447,13 @@ export class ParallelNetwork<Name extends string = string, A extends IAgent = IA
   
   /**
    * Execute all applicable rules in the network
+   * @param options Step options for the sequential fallback
    * @returns True if any rules were executed
    */
-  step(): boolean {
+  step(options?: StepOptions): boolean {
     // If parallel execution is disabled or currently processing, fall back to sequential
     if (!this.parallelEnabled || this.processingBatch) {
-      return this.baseNetwork.step();
+      return this.baseNetwork.step(options);
     }
     
     // Get the applicable rules
@@ -717,6 +759,39 @@ export class ParallelNetwork<Name extends string = string, A extends IAgent = IA
     return this.baseNetwork.findAgents(criteria);
   }
 
+  /**
+   * Select agents by name, type, value, port connectivity and neighbourhood
+   * @param query The query to run against the base network
+   * @returns Array of matching agents
+   */
+  query(query?: AgentQuery<IAgent>): IAgent[] {
+    return this.baseNetwork.query?.(query) ?? [];
+  }
+
+  /**
+   * Lift agents of the base network and their wiring out as a subnet
+   * @param roots Agents, or agent ids, to extract from
+   * @param options Boundary, detach and interface naming options
+   * @returns The extracted subnet
+   */
+  extract(roots: IAgent | string | Array<IAgent | string>, options?: ExtractOptions): Subnet {
+    if (!this.baseNetwork.extract) {
+      throw new Error(`Network ${this.baseNetwork.name} does not support subnet extraction`);
+    }
+    return this.baseNetwork.extract(roots, options);
+  }
+
+  /**
+   * Instantiate a subnet in the base network
+   * @param subnet The subnet to embed
+   * @param bindings Base network port to connect each named interface port to
+   * @returns The new agents and their interface ports
+   */
+  embed(subnet: Subnet, bindings?: Record<string, IBoundPort>): EmbeddedSubnet {
+    return this.baseNetwork.embed?.(subnet, bindings)
+      ?? this.transaction(() => embedSubnet(this.baseNetwork, subnet, bindings));
+  }
+
   /**
    * Get all agents in the network
    * @returns Array of all agents
@@ -749,12 +824,203 @@ export class ParallelNetwork<Name extends string = string, A extends IAgent = IA
     return this.baseNetwork.clearRules();
   }
 
+  /**
+   * Execute exactly one interaction on the base network
+   * @returns True if an interaction was executed
+   */
+  stepOne(): boolean {
+    return this.baseNetwork.stepOne();
+  }
+
   /**
    * Execute rules until no more can be executed
-   * @param maxSteps Maximum number of steps to execute
-   * @returns Number of steps executed
+   * @param maxStepsOrOptions Maximum number of steps or reduce options
+   * @returns The number of interactions executed and why the reduction stopped
+   */
+  reduce(maxStepsOrOptions?: number | ReduceOptions): ReduceResult {
+    return this.baseNetwork.reduce(maxStepsOrOptions);
+  }
+
+  /**
+   * Reduce the base network, awaiting async action rules
+   * @param options Budgets, mode and abort signal
+   * @returns The number of interactions started and why the reduction stopped
+   */
+  reduceAsync(options?: ReduceAsyncOptions): Promise<ReduceResult> {
+    return this.baseNetwork.reduceAsync
+      ? this.baseNetwork.reduceAsync(options)
+      : Promise.resolve(this.baseNetwork.reduce(options));
+  }
+
+  /**
+   * Subscribe to failures of async actions no reduceAsync() call awaits
+   * @param listener Called with each failure
+   * @returns A function removing the listener
+   */
+  onAsyncError(listener: (error: RuleApplicationError) => void): () => void {
+    return this.baseNetwork.onAsyncError?.(listener) ?? (() => {});
+  }
+
+  /**
+   * Reduce the base network in time slices, yielding between them
+   * @param options Slice budget, scheduler, reduction budgets and mode
+   * @returns A handle to pause, resume or cancel the reduction
+   */
+  reduceScheduled(options?: ScheduledReduceOptions): ScheduledReduction {
+    return this.baseNetwork.reduceScheduled
+      ? this.baseNetwork.reduceScheduled(options)
+      : runTimeSliced<ReduceResult>(() => this.baseNetwork.reduce(options),
+        () => ({ steps: 0, reason: 'aborted', elapsedMs: 0 }), options);
+  }
+
+  /**
+   * Get the action latency of every rule the base network has fired
+   */
+  getRuleLatency(): Record<string, RuleLatency> {
+    return this.baseNetwork.getRuleLatency?.() ?? {};
+  }
+
+  /**
+   * Override the global schema validation mode for the base network
+   * @param mode The mode, or undefined to follow the global mode
+   * @returns The previous setting
+   */
+  setSchemaValidation(mode: SchemaValidationMode | undefined): SchemaValidationMode | undefined {
+    return this.baseNetwork.setSchemaValidation?.(mode);
+  }
+
+  /**
+   * Get the schema validation mode in effect for the base network
+   */
+  getSchemaValidation(): SchemaValidationMode {
+    return this.baseNetwork.getSchemaValidation?.() ?? getSchemaValidation();
+  }
+
+  /**
+   * Register the schema of agents of a name created by remote operations
+   */
+  registerSchema(agentName: string, schema: ValueSchema): void {
+    this.baseNetwork.registerSchema?.(agentName, schema);
+  }
+
+  /**
+   * Get the schema the base network knows for an agent name
+   */
+  getSchemaByName(agentName: string): ValueSchema | undefined {
+    return this.baseNetwork.getSchemaByName?.(agentName);
+  }
+
+  /**
+   * Get the total number of interactions executed by the base network
+   */
+  getInteractionCount(): number {
+    return this.baseNetwork.getInteractionCount?.() ?? 0;
+  }
+
+  /**
+   * Run a function as a transaction on the base network
+   * @param fn The function to run
+   * @returns The function's result
+   */
+  transaction<T>(fn: () => T): T {
+    return this.baseNetwork.transaction ? this.baseNetwork.transaction(fn) : fn();
+  }
+
+  /**
+   * Set the reduction strategy of the base network
+   */
+  setReductionStrategy(strategy: ReductionStrategy | ReductionStrategyName): void {
+    this.baseNetwork.setReductionStrategy(strategy);
+  }
+
+  /**
+   * Get the reduction strategy of the base network
+   */
+  getReductionStrategy(): ReductionStrategy {
+    return this.baseNetwork.getReductionStrategy();
+  }
+
+  /**
+   * Subscribe to interactions fired by the base network
+   */
+  onReductionStep(listener: (step: ReductionStepInfo) => void): () => void {
+    return this.baseNetwork.onReductionStep?.(listener) ?? (() => {});
+  }
+
+  /**
+   * Subscribe to trace events of the base network
+   */
+  onTrace(listener: TraceListener): () => void {
+    return this.baseNetwork.onTrace?.(listener) ?? (() => {});
+  }
+
+  /**
+   * Get rewrite-plan cache metrics of the base network
+   */
+  getPlanCacheMetrics(): PlanCacheMetrics {
+    return this.baseNetwork.getPlanCacheMetrics?.() ?? emptyPlanCacheMetrics();
+  }
+
+  /**
+   * Clear the rewrite-plan cache of the base network
+   */
+  clearPlanCache(): void {
+    this.baseNetwork.clearPlanCache?.();
+  }
+
+  /**
+   * Declare a garbage collection root on the base network
+   */
+  addRoot(agentOrId: A | string): void {
+    this.baseNetwork.addRoot?.(agentOrId as any);
+  }
+
+  /**
+   * Remove a garbage collection root from the base network
+   */
+  removeRoot(agentOrId: A | string): boolean {
+    return this.baseNetwork.removeRoot?.(agentOrId as any) ?? false;
+  }
+
+  /**
+   * Get the garbage collection roots of the base network
+   */
+  getRoots(): IAgent[] {
+    return this.baseNetwork.getRoots?.() ?? [];
+  }
+
+  /**
+   * Erase agents of the base network that are unreachable from its roots
+   */
+  collectGarbage(): IAgent[] {
+    return this.baseNetwork.collectGarbage?.() ?? [];
+  }
+
+  /**
+   * Subscribe to agents erased by garbage collection in the base network
+   */
+  onGarbageCollected(listener: (removed: IAgent[]) => void): () => void {
+    return this.baseNetwork.onGarbageCollected?.(listener) ?? (() => {});
+  }
+
+  /**
+   * Buffer interactions on a hold port of the base network
+   */
+  holdPort(port: IBoundPort): void {
+    this.baseNetwork.holdPort?.(port);
+  }
+
+  /**
+   * Release a held port of the base network
+   */
+  releasePort(port: IBoundPort): boolean {
+    return this.baseNetwork.releasePort?.(port) ?? false;
+  }
+
+  /**
+   * Route interactions on sync or remote ports of the base network
    */
-  reduce(maxSteps?: number): number {
-    return this.baseNetwork.reduce(maxSteps);
+  routePorts(type: RoutedPortType, router: PortRouter): () => void {
+    return this.baseNetwork.routePorts?.(type, router) ?? (() => {});
   }
 }
\ No newline at end of file
@@ -0,0 +1,275 @@
+/**
+ * Rewrite Plan Cache
+ *
+ * Deferred rewrite rules compute their rewrite plan from the values of the
+ * interacting agents. This module provides a bounded LRU cache for those
+ * plans, with optional expiry, keyed by a stable structural hash of the
+ * agent values.
+ */
+import { Rewrite } from './rule';
+
+/**
+ * Options for the rewrite plan cache
+ */
+export interface PlanCacheOptions {
+  /** Maximum number of plans kept before the least recently used is evicted (default 500) */
+  maxSize?: number;
+
+  /** Time in milliseconds after which a cached plan expires (default: never) */
+  ttl?: number;
+}
+
+/**
+ * Cache performance metrics
+ */
+export interface PlanCacheMetrics {
+  hits: number;
+  misses: number;
+  ratio: number;
+  evictions: number;
+  expirations: number;
+  size: number;
+  maxSize: number;
+}
+
+/**
+ * Metrics reported when no plan cache is in use
+ */
+export function emptyPlanCacheMetrics(): PlanCacheMetrics {
+  return { hits: 0, misses: 0, ratio: 0, evictions: 0, expirations: 0, size: 0, maxSize: 0 };
+}
+
+interface PlanCacheEntry {
+  plan: Rewrite;
+  storedAt: number;
+}
+
+export const DEFAULT_PLAN_CACHE_SIZE = 500;
+
+/**
+ * Bounded LRU cache for rewrite plans
+ */
+export class RewritePlanCache {
+  private entries = new Map<string, PlanCacheEntry>();
+  private readonly maxSize: number;
+  private readonly ttl: number;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expirations = 0;
+
+  constructor(options: PlanCacheOptions = {}) {
+    this.maxSize = Math.max(1, options.maxSize ?? DEFAULT_PLAN_CACHE_SIZE);
+    this.ttl = options.ttl ?? Infinity;
+  }
+
+  /**
+   * Get a plan, refreshing its position in the LRU order
+   */
+  get(key: string): Rewrite | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    if (Date.now() - entry.storedAt > this.ttl) {
+      this.entries.delete(key);
+      this.expirations++;
+      this.misses++;
+      return undefined;
+    }
+
+    // Map iteration order is insertion order, so re-inserting marks it most recent
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.plan;
+  }
+
+  /**
+   * Store a plan, evicting the least recently used plan when full
+   */
+  set(key: string, plan: Rewrite): void {
+    this.entries.delete(key);
+    this.entries.set(key, { plan, storedAt: Date.now() });
+
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Remove every plan whose key starts with the given prefix
+   */
+  deleteByPrefix(prefix: string): void {
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Remove all plans and reset the metrics
+   */
+  clear(): void {
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+    this.expirations = 0;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Get cache performance metrics
+   */
+  getMetrics(): PlanCacheMetrics {
+    const total = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      ratio: total > 0 ? this.hits / total : 0,
+      evictions: this.evictions,
+      expirations: this.expirations,
+      size: this.entries.size,
+      maxSize: this.maxSize
+    };
+  }
+}
+
+// ========== Structural Hashing ==========
+
+// Two independent 32-bit lanes (cyrb53-style) give a 64-bit digest
+class Hasher {
+  private h1 = 0xdeadbeef;
+  private h2 = 0x41c6ce57;
+
+  update(text: string): void {
+    for (let i = 0; i < text.length; i++) {
+      const ch = text.charCodeAt(i);
+      this.h1 = Math.imul(this.h1 ^ ch, 2654435761);
+      this.h2 = Math.imul(this.h2 ^ ch, 1597334677);
+    }
+  }
+
+  digest(): string {
+    let h1 = this.h1;
+    let h2 = this.h2;
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+    h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+    h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
+  }
+}
+
+// Functions have no structure worth comparing, so they hash by identity
+const functionIds = new WeakMap<Function, number>();
+let nextFunctionId = 1;
+
+function hashSubtree(value: unknown, ancestors: object[]): string {
+  const hasher = new Hasher();
+  feed(hasher, value, ancestors);
+  return hasher.digest();
+}
+
+function feed(hasher: Hasher, value: unknown, ancestors: object[]): void {
+  switch (typeof value) {
+    case 'string':
+      hasher.update(`s${value.length}:${value}`);
+      return;
+    case 'number':
+      hasher.update(`n${Object.is(value, -0) ? '-0' : String(value)};`);
+      return;
+    case 'bigint':
+      hasher.update(`b${value.toString()};`);
+      return;
+    case 'boolean':
+      hasher.update(value ? 't' : 'f');
+      return;
+    case 'undefined':
+      hasher.update('u');
+      return;
+    case 'symbol':
+      hasher.update(`y${value.description ?? ''};`);
+      return;
+    case 'function': {
+      let id = functionIds.get(value);
+      if (id === undefined) {
+        id = nextFunctionId++;
+        functionIds.set(value, id);
+      }
+      hasher.update(`F${id};`);
+      return;
+    }
+  }
+
+  if (value === null) {
+    hasher.update('N');
+    return;
+  }
+
+  const object = value as object;
+
+  // Cycles hash as a back-reference to the ancestor they point at
+  const ancestorIndex = ancestors.indexOf(object);
+  if (ancestorIndex !== -1) {
+    hasher.update(`^${ancestors.length - ancestorIndex};`);
+    return;
+  }
+
+  ancestors.push(object);
+
+  if (Array.isArray(object)) {
+    hasher.update(`[${object.length}`);
+    for (const item of object) {
+      feed(hasher, item, ancestors);
+    }
+    hasher.update(']');
+  } else if (object instanceof Date) {
+    hasher.update(`D${object.getTime()};`);
+  } else if (object instanceof RegExp) {
+    hasher.update(`R${String(object)};`);
+  } else if (object instanceof Map) {
+    // Entry order does not affect equality, so hash entries independently and sort
+    const entries = Array.from(object.entries())
+      .map(([key, entryValue]) => hashSubtree(key, ancestors) + hashSubtree(entryValue, ancestors))
+      .sort();
+    hasher.update(`M${entries.length}:${entries.join(',')};`);
+  } else if (object instanceof Set) {
+    const items = Array.from(object.values())
+      .map(item => hashSubtree(item, ancestors))
+      .sort();
+    hasher.update(`S${items.length}:${items.join(',')};`);
+  } else if (ArrayBuffer.isView(object)) {
+    hasher.update(`V${object.constructor.name}:${Array.from(new Uint8Array(object.buffer, object.byteOffset, object.byteLength)).join(',')};`);
+  } else {
+    const keys = Object.keys(object).sort();
+    hasher.update(`O${object.constructor?.name ?? ''}${keys.length}{`);
+    for (const key of keys) {
+      hasher.update(`k${key.length}:${key}`);
+      feed(hasher, (object as Record<string, unknown>)[key], ancestors);
+    }
+    hasher.update('}');
+  }
+
+  ancestors.pop();
+}
+
+/**
+ * Compute a stable structural hash of a value
+ *
+ * Equal structures hash equally regardless of object key order or Map/Set
+ * insertion order. Maps, Sets, Dates, typed arrays and cyclic references are
+ * supported; functions hash by identity.
+ */
+export function structuralHash(value: unknown): string {
+  return hashSubtree(value, []);
+}
@@ -4,11 +4,18 @@
  * A plugin-based architecture for extending Annette's functionality.
  * Allows for modular features like time travel, synchronization, and reactivity.
  */
-import { INetwork, Network } from './network';
+import { AddRuleOptions, INetwork, Network, NetworkOptions, PortRouter, ReduceAsyncOptions, ReduceOptions, ReduceResult, ReductionStepInfo, RoutedPortType, RuleLatency, RuleValidationReport, ScheduledReduceOptions, ScheduledReduction, StepOptions, TraceListener } from './network';
+import { runTimeSliced } from './reduction-scheduler';
+import { AgentQuery } from './query';
+import { EmbeddedSubnet, embedSubnet, ExtractOptions, Subnet } from './subnet';
+import { ReductionStrategy, ReductionStrategyName } from './reduction-strategy';
+import { emptyPlanCacheMetrics, PlanCacheMetrics } from './plan-cache';
 import { ActionRule, AnyRule } from './rule';
 import { Agent, IAgent } from './agent';
-import { getPortInstanceKey, IBoundPort, Port } from './port';
+import { getPortInstanceKey, IBoundPort, Port, PortCompatibility } from './port';
 import { IConnection } from './connection';
+import { RuleApplicationError } from './errors';
+import { getSchemaValidation, SchemaValidationMode, ValueSchema } from './schema';
 
 // ========== Plugin Interfaces ==========
 
@@ -91,6 +98,7 @@ export enum EventType {
   PLUGIN_INITIALIZED = 'plugin-initialized',
   PLUGIN_SHUTDOWN = 'plugin-shutdown',
   NETWORK_REDUCED = 'network-reduced',
+  TRACE = 'trace',
   CONFIG_CHANGED = 'config-changed',
   CUSTOM = 'custom'
 }
@@ -351,6 +359,13 @@ export class PluginManager implements IPluginManager, IEventBus {
     }
   }
   
+  /**
+   * Get the number of listeners for an event type
+   */
+  listenerCount(type: EventType | string): number {
+    return this.eventListeners.get(type)?.size ?? 0;
+  }
+  
   /**
    * Dispatch an event
    */
@@ -410,14 +425,22 @@ export class PluginNetwork implements IPluginNetwork { // Implement the new IPlu
   private pluginManager: PluginManager;
   public readonly name: string; // Add name property
   public readonly id: string;   // Add id property
+  private stopTraceBridge?: () => void; // Unsubscribes the TRACE event bridge
 
-  constructor(initialPlugins: IPlugin[] = [], name: string) { // Accept name and plugins
-    this.underlyingNetwork = Network(name); // Create the core network here
+  constructor(initialPlugins: IPlugin[] = [], name: string, options: NetworkOptions = {}) { // Accept name and plugins
+    this.underlyingNetwork = Network(name, undefined, undefined, options); // Create the core network here
     this.name = this.underlyingNetwork.name;
     this.id = this.underlyingNetwork.id;
     this.pluginManager = new PluginManager();
     this.pluginManager.initialize(this); // Initialize manager with this PluginNetwork instance
 
+    // Agents erased by the collector bypass removeAgent, so announce them here
+    this.underlyingNetwork.onGarbageCollected?.(removed => {
+      for (const agent of removed) {
+        this.emit(EventType.AGENT_REMOVED, { agentId: agent._agentId, agentName: agent.name, reason: 'gc' }, this.id);
+      }
+    });
+
     for (const plugin of initialPlugins) {
         this.registerPlugin(plugin);
     }
@@ -447,10 +470,20 @@ export class PluginNetwork implements IPluginNetwork { // Implement the new IPlu
 
   public addEventListener(type: EventType | string, listener: EventListener): void {
     this.pluginManager.addEventListener(type, listener);
+    
+    // Only bridge trace events while someone is listening, so tracing stays free otherwise
+    if (type === EventType.TRACE && !this.stopTraceBridge) {
+      this.stopTraceBridge = this.onTrace(event => this.emit(EventType.TRACE, event, this.id));
+    }
   }
 
   public removeEventListener(type: EventType | string, listener: EventListener): void {
     this.pluginManager.removeEventListener(type, listener);
+    
+    if (type === EventType.TRACE && this.stopTraceBridge && this.pluginManager.listenerCount(EventType.TRACE) === 0) {
+      this.stopTraceBridge();
+      this.stopTraceBridge = undefined;
+    }
   }
 
   public emit(type: EventType | string, data?: any, source: string = 'PluginNetwork'): void {
@@ -481,13 +514,35 @@ export class PluginNetwork implements IPluginNetwork { // Implement the new IPlu
   public findAgents(query: { name?: string }): IAgent[] {
     return this.underlyingNetwork.findAgents(query);
   }
+
+  public query(query?: AgentQuery<IAgent>): IAgent[] {
+    return this.underlyingNetwork.query?.(query) ?? [];
+  }
+
+  public extract(roots: IAgent | string | Array<IAgent | string>, options?: ExtractOptions): Subnet {
+    if (!this.underlyingNetwork.extract) {
+      throw new Error(`Network ${this.underlyingNetwork.name} does not support subnet extraction`);
+    }
+    const subnet = this.underlyingNetwork.extract(roots, options);
+    if (options?.detach) {
+      for (const agent of subnet.agents) {
+        this.emit(EventType.AGENT_REMOVED, { agentId: agent.id, agentName: agent.name, reason: 'extract' }, this.id);
+      }
+    }
+    return subnet;
+  }
+
+  public embed(subnet: Subnet, bindings?: Record<string, IBoundPort>): EmbeddedSubnet {
+    // Embed through this network so that every new agent is announced
+    return this.transaction(() => embedSubnet(this, subnet, bindings));
+  }
   
   public getAllAgents(): IAgent[] {
       return this.underlyingNetwork.getAllAgents();
   }
 
   public connectPorts<P1 extends IBoundPort, P2 extends IBoundPort>(
-    port1: P1, port2: P2, connectionName?: string
+    port1: P1 & PortCompatibility<P2, P1>, port2: P2 & PortCompatibility<P1, P2>, connectionName?: string
   ): IConnection<string, P1["agent"], P2["agent"], any, any> | undefined {
     const connection = this.underlyingNetwork.connectPorts(port1, port2, connectionName);
     if (connection) {
@@ -513,6 +568,14 @@ export class PluginNetwork implements IPluginNetwork { // Implement the new IPlu
   public isPortConnected<P extends IBoundPort>(port: P): boolean {
     return this.underlyingNetwork.isPortConnected(port);
   }
+
+  public getConnectedPort(port: IBoundPort): IBoundPort | undefined {
+    return this.underlyingNetwork.getConnectedPort?.(port);
+  }
+
+  public isActivePair(port1: IBoundPort, port2: IBoundPort): boolean {
+    return this.underlyingNetwork.isActivePair?.(port1, port2) ?? false;
+  }
   
   public getAllConnections(): IConnection[] {
       return this.underlyingNetwork.getAllConnections();
@@ -522,11 +585,19 @@ export class PluginNetwork implements IPluginNetwork { // Implement the new IPlu
       return this.underlyingNetwork.findConnections(query);
   }
 
-  public addRule(rule: AnyRule): void {
-    this.underlyingNetwork.addRule(rule);
+  public addRule(rule: AnyRule, options?: AddRuleOptions): void {
+    this.underlyingNetwork.addRule(rule, options);
     this.emit(EventType.RULE_ADDED, { rule }, this.id);
   }
 
+  public validateRules(): RuleValidationReport {
+    return this.underlyingNetwork.validateRules?.() ?? { valid: true, conflicts: [], unreachable: [] };
+  }
+
+  public findRuleFor(port1: IBoundPort, port2: IBoundPort): AnyRule | undefined {
+    return this.underlyingNetwork.findRuleFor?.(port1, port2);
+  }
+
   public removeRule(ruleOrName: string | AnyRule): boolean {
     // Get rule details before removal for the event
     const ruleToRemove = typeof ruleOrName === 'string' ? this.findRules({name: ruleOrName})[0] : ruleOrName;
@@ -550,20 +621,143 @@ export class PluginNetwork implements IPluginNetwork { // Implement the new IPlu
       // Consider emitting an event for all rules removed
   }
 
-  public step(): boolean { // INetwork in network.ts has step returning boolean
-    const madeProgress = this.underlyingNetwork.step();
+  public step(options?: StepOptions): boolean { // INetwork in network.ts has step returning boolean
+    const before = this.underlyingNetwork.getInteractionCount?.() ?? 0;
+    const madeProgress = this.underlyingNetwork.step(options);
+    if (madeProgress) {
+      const after = this.underlyingNetwork.getInteractionCount?.();
+      const steps = after !== undefined ? after - before : 1;
+      this.emit(EventType.NETWORK_REDUCED, { steps, mode: options?.mode ?? 'one' }, this.id);
+    }
+    return madeProgress;
+  }
+
+  public stepOne(): boolean {
+    const madeProgress = this.underlyingNetwork.stepOne();
     if (madeProgress) {
-      this.emit(EventType.NETWORK_REDUCED, { steps: 1 }, this.id); // Assuming step means 1 reduction if successful
+      this.emit(EventType.NETWORK_REDUCED, { steps: 1, mode: 'one' }, this.id);
     }
     return madeProgress;
   }
 
-  public reduce(maxSteps?: number): number {
-    const steps = this.underlyingNetwork.reduce(maxSteps);
-    if (steps > 0) {
-      this.emit(EventType.NETWORK_REDUCED, { steps }, this.id);
+  public reduce(maxStepsOrOptions?: number | ReduceOptions): ReduceResult {
+    const result = this.underlyingNetwork.reduce(maxStepsOrOptions);
+    if (result.steps > 0) {
+      const mode = typeof maxStepsOrOptions === 'object' ? maxStepsOrOptions.mode ?? 'one' : 'one';
+      this.emit(EventType.NETWORK_REDUCED, { steps: result.steps, mode }, this.id);
     }
-    return steps;
+    return result;
+  }
+
+  public async reduceAsync(options?: ReduceAsyncOptions): Promise<ReduceResult> {
+    const result = this.underlyingNetwork.reduceAsync
+      ? await this.underlyingNetwork.reduceAsync(options)
+      : this.underlyingNetwork.reduce(options);
+    if (result.steps > 0) {
+      this.emit(EventType.NETWORK_REDUCED, { steps: result.steps, mode: options?.mode ?? 'one' }, this.id);
+    }
+    return result;
+  }
+
+  public onAsyncError(listener: (error: RuleApplicationError) => void): () => void {
+    return this.underlyingNetwork.onAsyncError?.(listener) ?? (() => {});
+  }
+
+  public reduceScheduled(options?: ScheduledReduceOptions): ScheduledReduction {
+    const reduction = this.underlyingNetwork.reduceScheduled
+      ? this.underlyingNetwork.reduceScheduled(options)
+      : runTimeSliced<ReduceResult>(() => this.underlyingNetwork.reduce(options),
+        () => ({ steps: 0, reason: 'aborted', elapsedMs: 0 }), options);
+    reduction.promise.then(result => {
+      if (result.steps > 0) {
+        this.emit(EventType.NETWORK_REDUCED, { steps: result.steps, mode: options?.mode ?? 'one' }, this.id);
+      }
+    }, () => undefined);
+    return reduction;
+  }
+
+  public getInteractionCount(): number {
+    return this.underlyingNetwork.getInteractionCount?.() ?? 0;
+  }
+
+  public getRuleLatency(): Record<string, RuleLatency> {
+    return this.underlyingNetwork.getRuleLatency?.() ?? {};
+  }
+
+  public setSchemaValidation(mode: SchemaValidationMode | undefined): SchemaValidationMode | undefined {
+    return this.underlyingNetwork.setSchemaValidation?.(mode);
+  }
+
+  public getSchemaValidation(): SchemaValidationMode {
+    return this.underlyingNetwork.getSchemaValidation?.() ?? getSchemaValidation();
+  }
+
+  public registerSchema(agentName: string, schema: ValueSchema): void {
+    this.underlyingNetwork.registerSchema?.(agentName, schema);
+  }
+
+  public getSchemaByName(agentName: string): ValueSchema | undefined {
+    return this.underlyingNetwork.getSchemaByName?.(agentName);
+  }
+
+  public transaction<T>(fn: () => T): T {
+    return this.underlyingNetwork.transaction ? this.underlyingNetwork.transaction(fn) : fn();
+  }
+
+  public setReductionStrategy(strategy: ReductionStrategy | ReductionStrategyName): void {
+    this.underlyingNetwork.setReductionStrategy(strategy);
+  }
+
+  public getReductionStrategy(): ReductionStrategy {
+    return this.underlyingNetwork.getReductionStrategy();
+  }
+
+  public onReductionStep(listener: (step: ReductionStepInfo) => void): () => void {
+    return this.underlyingNetwork.onReductionStep?.(listener) ?? (() => {});
+  }
+
+  public onTrace(listener: TraceListener): () => void {
+    return this.underlyingNetwork.onTrace?.(listener) ?? (() => {});
+  }
+
+  public getPlanCacheMetrics(): PlanCacheMetrics {
+    return this.underlyingNetwork.getPlanCacheMetrics?.() ?? emptyPlanCacheMetrics();
+  }
+
+  public clearPlanCache(): void {
+    this.underlyingNetwork.clearPlanCache?.();
+  }
+
+  public addRoot(agentOrId: string | IAgent): void {
+    this.underlyingNetwork.addRoot?.(agentOrId);
+  }
+
+  public removeRoot(agentOrId: string | IAgent): boolean {
+    return this.underlyingNetwork.removeRoot?.(agentOrId) ?? false;
+  }
+
+  public getRoots(): IAgent[] {
+    return this.underlyingNetwork.getRoots?.() ?? [];
+  }
+
+  public collectGarbage(): IAgent[] {
+    return this.underlyingNetwork.collectGarbage?.() ?? [];
+  }
+
+  public onGarbageCollected(listener: (removed: IAgent[]) => void): () => void {
+    return this.underlyingNetwork.onGarbageCollected?.(listener) ?? (() => {});
+  }
+
+  public holdPort(port: IBoundPort): void {
+    this.underlyingNetwork.holdPort?.(port);
+  }
+
+  public releasePort(port: IBoundPort): boolean {
+    return this.underlyingNetwork.releasePort?.(port) ?? false;
+  }
+
+  public routePorts(type: RoutedPortType, router: PortRouter): () => void {
+    return this.underlyingNetwork.routePorts?.(type, router) ?? (() => {});
   }
   
   public getChangeHistory?(): any[] { // Make optional if not all INetwork impl have it
@@ -647,7 +841,7 @@ interface IEnhancedNetwork {
   findAgents(query?: any): IAgent[];
   findConnections(query?: any): IConnection[];
   findRules(query?: any): AnyRule[];
-  reduce(maxSteps?: number): number;
+  reduce(maxStepsOrOptions?: number | ReduceOptions): ReduceResult;
   getAllAgents(): IAgent[];
   getAllConnections(): IConnection[];
   getAllRules(): AnyRule[];
@@ -953,9 +1147,9 @@ interface IEnhancedNetwork {
 /**
  * Create a new plugin network
  */
-export function createPluginNetwork(plugins: IPlugin[] = [], name: string): PluginNetwork {
+export function createPluginNetwork(plugins: IPlugin[] = [], name: string, options: NetworkOptions = {}): PluginNetwork {
   // const network = Network('PluginNetwork');
-  const pluginNetwork = new PluginNetwork(plugins, name);
+  const pluginNetwork = new PluginNetwork(plugins, name, options);
   
   // Register provided plugins
   for (const plugin of plugins) {
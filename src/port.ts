@@ -3,6 +3,7 @@ import { AgentId, IAgent } from "./agent";
 
 
 import { IConnection } from "./connection";
+import type { PortConnectionFailure } from "./errors";
 import { Action } from "./rule";
 
 export type PortTypes = "main" | "aux" | "wait" | "hold" | "sync" | "remote";
@@ -27,8 +28,44 @@ export interface IPort<
 > {
   name: Name;
   type: Type;
+  constraints?: PortConstraints;
 }
 
+/**
+ * Declarative rules for what a port may be connected to, checked by `connectPorts`,
+ * and for when its interactions may fire, applied by the reducer
+ */
+export interface PortConstraints<
+  Accepts extends string = string,
+  AcceptsTypes extends PortTypes = PortTypes,
+> {
+  /** Names of the agents this port may be connected to */
+  accepts?: readonly Accepts[];
+  /** Types of the ports this port may be connected to */
+  acceptsPortTypes?: readonly AcceptsTypes[];
+  /** Tags describing this port, matched against the peer's `requiresTags` */
+  tags?: readonly string[];
+  /** Tags the peer port must all carry */
+  requiresTags?: readonly string[];
+  /** Allow only one connection over the lifetime of the port */
+  once?: boolean;
+  /** `wait` ports: defer interactions until an agent with one of these names is in the network */
+  until?: string | readonly string[];
+  /** `hold` ports: buffer interactions from the start, until `network.releasePort(port)` */
+  held?: boolean;
+}
+
+export type ConstrainedPort<
+  Name extends string,
+  Type extends PortTypes,
+  Accepts extends string = string,
+  AcceptsTypes extends PortTypes = PortTypes,
+> = IPort<Name, Type> & {
+  constraints: PortConstraints<Accepts, AcceptsTypes>;
+  /** Type-only record of the constraints, kept literal for `PortCompatibility` */
+  readonly __compatibility?: { accepts: Accepts; portTypes: AcceptsTypes };
+};
+
 export type MainPort<P extends IPort<string, PortTypes>> = P & { type: "main" };
 
 export type AuxPort<P extends IPort<string, PortTypes>> = P & { type: "aux" };
@@ -96,6 +133,91 @@ export interface IBoundPort<
   name: N;
   type: T;
   agent: A;
+  constraints?: PortConstraints;
+}
+
+/**
+ * Compile-time check that `Peer` may be connected to `P`
+ *
+ * Resolves to `unknown` when the ports are compatible and to an object
+ * describing the problem otherwise, so `port & PortCompatibility<...>` only
+ * fails to type-check for incompatible ports. Only literal agent names and
+ * port types are checked; anything not known statically is left to the
+ * runtime check in `connectPorts`.
+ */
+export type PortCompatibility<P, Peer> =
+  [P] extends [never]
+    ? unknown
+    : [P] extends [{ readonly __compatibility?: infer Declared }]
+      ? [Declared] extends [{ accepts: infer Accepts extends string; portTypes: infer AcceptsTypes extends PortTypes }]
+        ? [Peer] extends [{ agent: { name: infer PeerName extends string }; type: infer PeerType extends PortTypes }]
+          ? string extends Accepts
+            ? PortTypeCompatibility<AcceptsTypes, PeerType>
+            : string extends PeerName
+              ? PortTypeCompatibility<AcceptsTypes, PeerType>
+              : [PeerName] extends [Accepts]
+                ? PortTypeCompatibility<AcceptsTypes, PeerType>
+                : { __incompatiblePort: `agent '${PeerName}' is not accepted` }
+          : unknown
+        : unknown
+      : unknown;
+
+type PortTypeCompatibility<AcceptsTypes extends PortTypes, PeerType extends PortTypes> =
+  PortTypes extends AcceptsTypes
+    ? unknown
+    : PortTypes extends PeerType
+      ? unknown
+      : [PeerType] extends [AcceptsTypes]
+        ? unknown
+        : { __incompatiblePort: `port type '${PeerType}' is not accepted` };
+
+type PortConstraintsOf<P> = P extends { constraints: infer C; readonly __compatibility?: infer Declared }
+  ? { constraints: C; readonly __compatibility?: Declared }
+  : {};
+
+/**
+ * Describe why two ports may not be connected, or return undefined if they may
+ */
+export function checkPortCompatibility(
+  port1: IBoundPort,
+  port2: IBoundPort
+): { reason: PortConnectionFailure; message: string } | undefined {
+  return checkPortConstraints(port1, port2) ?? checkPortConstraints(port2, port1);
+}
+
+function checkPortConstraints(
+  port: IBoundPort,
+  peer: IBoundPort
+): { reason: PortConnectionFailure; message: string } | undefined {
+  const constraints = port.constraints;
+  if (!constraints) return undefined;
+
+  const portLabel = `${port.agent.name}.${port.name}`;
+  const peerLabel = `${peer.agent.name}.${peer.name}`;
+
+  if (constraints.accepts && !constraints.accepts.includes(peer.agent.name)) {
+    return {
+      reason: 'agent-not-accepted',
+      message: `Port ${portLabel} accepts [${constraints.accepts.join(', ')}] but was connected to ${peerLabel}`
+    };
+  }
+
+  if (constraints.acceptsPortTypes && !constraints.acceptsPortTypes.includes(peer.type)) {
+    return {
+      reason: 'port-type-not-accepted',
+      message: `Port ${portLabel} accepts port types [${constraints.acceptsPortTypes.join(', ')}] but ${peerLabel} is a ${peer.type} port`
+    };
+  }
+
+  const missingTags = (constraints.requiresTags ?? []).filter(tag => !peer.constraints?.tags?.includes(tag));
+  if (missingTags.length > 0) {
+    return {
+      reason: 'missing-tags',
+      message: `Port ${portLabel} requires tags [${missingTags.join(', ')}] that ${peerLabel} does not carry`
+    };
+  }
+
+  return undefined;
 }
 
 // Helper type to ensure port is valid for an agent
@@ -117,6 +239,10 @@ export function BoundPort<P extends IPort, A extends IAgent>(
     agent = agent;
   })();
 
+  if (port.constraints) {
+    (boundPort as IBoundPort).constraints = port.constraints;
+  }
+
   Object.defineProperty(boundPort, Symbol.hasInstance, {
     value: function (instance: any) {
       return isBoundPort(instance);
@@ -166,7 +292,7 @@ export type BoundPortsMap<
   M = UnboundPortsMap<U>,
 > = {
   [K in Extract<keyof M, string>]: M[K] extends IPort
-    ? IBoundPort<A, K, M[K]["type"]>
+    ? IBoundPort<A, K, M[K]["type"]> & PortConstraintsOf<M[K]>
     : never;
 };
 
@@ -215,7 +341,7 @@ export const createBoundPortsMap = <
   if (isPortsMap(ports)) {
     let a = Object.fromEntries(
       Object.entries(ports).map(([key, port]) => {
-        return [key, BoundPort({ name: port.name, type: port.type }, agent)];
+        return [key, BoundPort({ name: port.name, type: port.type, constraints: port.constraints }, agent)];
       }),
     ) as BoundPortsMap<A, P>;
 
@@ -423,14 +549,16 @@ export type UnboundPortsMap<P extends PortsMap | PortsDefObj | PortArray> =
 function PortBase<
   Name extends string,
   Type extends PortTypes = "aux",
->(port: { name: Name; type: Type }): IPort<Name, Type>;
+>(port: { name: Name; type: Type; constraints?: PortConstraints }): IPort<Name, Type>;
 function PortBase<Name extends string, Type extends PortTypes = "aux">(
   name: Name,
   type: Type,
+  constraints?: PortConstraints,
 ): IPort<Name, Type>;
 function PortBase<Name extends string, Type extends PortTypes = "aux">(
-  name: Name | { name: Name; type: Type },
+  name: Name | { name: Name; type: Type; constraints?: PortConstraints },
   type?: Type,
+  constraints?: PortConstraints,
 ): IPort<Name, Type> {
   if (
     typeof name === "object" &&
@@ -446,6 +574,10 @@ function PortBase<Name extends string, Type extends PortTypes = "aux">(
       type = n.type;
     })() as IPort<Name, Type>;
 
+    if (n.constraints) {
+      port.constraints = n.constraints;
+    }
+
     Object.defineProperty(port, Symbol.hasInstance, {
       value: function (instance: any) {
         return isPort(instance);
@@ -462,6 +594,10 @@ function PortBase<Name extends string, Type extends PortTypes = "aux">(
     type: type as Type,
   } as IPort<Name, Type>;
 
+  if (constraints) {
+    port.constraints = constraints;
+  }
+
   Object.defineProperty(port, Symbol.hasInstance, {
     value: function (instance: any) {
       return isPort(instance);
@@ -472,30 +608,55 @@ function PortBase<Name extends string, Type extends PortTypes = "aux">(
   return port;
 }
 
+/**
+ * Factory for ports of one type, e.g. `Port.main()`, `Port.aux('left')` or
+ * `Port.hold({ acceptsPortTypes: ['hold'] })`
+ */
+export type TypedPortFactory<Type extends PortTypes> = {
+  <Name extends string = Type, const Accepts extends string = string, const AcceptsTypes extends PortTypes = PortTypes>(
+    options: PortConstraints<Accepts, AcceptsTypes> & { name?: Name }
+  ): ConstrainedPort<Name, Type, Accepts, AcceptsTypes>;
+  <Name extends string, const Accepts extends string = string, const AcceptsTypes extends PortTypes = PortTypes>(
+    name: Name,
+    constraints: PortConstraints<Accepts, AcceptsTypes>
+  ): ConstrainedPort<Name, Type, Accepts, AcceptsTypes>;
+  // Declared last so `ReturnType<typeof Port.main>` stays a plain port
+  <Name extends string = Type>(name?: Name): IPort<Name, Type>;
+};
+
+const typedPortFactory = <Type extends PortTypes>(type: Type): TypedPortFactory<Type> =>
+  ((nameOrOptions?: string | (PortConstraints & { name?: string }), constraints?: PortConstraints) => {
+    if (typeof nameOrOptions === "object") {
+      const { name, ...options } = nameOrOptions;
+      return PortBase(name ?? type, type, options);
+    }
+    return PortBase(nameOrOptions ?? type, type, constraints);
+  }) as TypedPortFactory<Type>;
+
 export type PortFactory = typeof PortBase & {
   factory: typeof PortBase;
   factoryFrom: <Name extends string, Type extends PortTypes>(port: IPort<Name, Type>) => () => IPort<Name, Type>;
-  main: <Name extends string = "main">(name?: Name) => IPort<Name, "main">;
-  aux: <Name extends string = "aux">(name?: Name) => IPort<Name, "aux">;
-  wait: <Name extends string = "wait">(name?: Name) => IPort<Name, "wait">;
-  hold: <Name extends string = "hold">(name?: Name) => IPort<Name, "hold">;
-  sync: <Name extends string = "sync">(name?: Name) => IPort<Name, "sync">;
-  remote: <Name extends string = "remote">(name?: Name) => IPort<Name, "remote">;
+  main: TypedPortFactory<"main">;
+  aux: TypedPortFactory<"aux">;
+  wait: TypedPortFactory<"wait">;
+  hold: TypedPortFactory<"hold">;
+  sync: TypedPortFactory<"sync">;
+  remote: TypedPortFactory<"remote">;
 };
 
 export const createPortFactoryFrom = <Name extends string, Type extends PortTypes>(
   port: IPort<Name, Type>
-) => () => PortBase(port.name, port.type);
+) => () => PortBase(port.name, port.type, port.constraints);
 
 export const Port = Object.assign(PortBase, {
   factory: PortBase,
   factoryFrom: createPortFactoryFrom,
-  main: <Name extends string = "main">(name?: Name) => PortBase((name ?? "main") as Name, "main"),
-  aux: <Name extends string = "aux">(name?: Name) => PortBase((name ?? "aux") as Name, "aux"),
-  wait: <Name extends string = "wait">(name?: Name) => PortBase((name ?? "wait") as Name, "wait"),
-  hold: <Name extends string = "hold">(name?: Name) => PortBase((name ?? "hold") as Name, "hold"),
-  sync: <Name extends string = "sync">(name?: Name) => PortBase((name ?? "sync") as Name, "sync"),
-  remote: <Name extends string = "remote">(name?: Name) => PortBase((name ?? "remote") as Name, "remote"),
+  main: typedPortFactory("main"),
+  aux: typedPortFactory("aux"),
+  wait: typedPortFactory("wait"),
+  hold: typedPortFactory("hold"),
+  sync: typedPortFactory("sync"),
+  remote: typedPortFactory("remote"),
 }) as PortFactory;
 
 
@@ -509,7 +670,7 @@ export type MainPortOfAgent<P extends IAgent["ports"]> = {
 
 export type PortsHasMainPort<P extends PortArray | PortsMap | PortsDefObj> =
   P & {
-    [I in keyof P]: P[I] extends { type: PortTypes }
+    [I in keyof P]: P[I] extends { type: "main" }
       ? P[I] & { type: "main" }
       : P[I];
   };
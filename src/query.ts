@@ -0,0 +1,208 @@
+/**
+ * Agent Queries
+ *
+ * A query selects agents by name, type, value, port connectivity and graph
+ * neighbourhood. Queries are plain objects, so the same query runs against
+ * a live network, a time travel snapshot or a DebugTools snapshot: each of
+ * them provides a `QueryGraph` view of its agents and connections.
+ *
+ * ```typescript
+ * // Counters connected through `main` to an Incrementer at most 2 hops away
+ * network.query({
+ *   name: 'Counter',
+ *   near: { via: 'main', match: { name: 'Incrementer' }, within: 2 }
+ * });
+ * ```
+ */
+
+/**
+ * Agent selection criteria; every given criterion must hold
+ */
+export interface AgentQuery<A = any> {
+  /** Agent name, or any of several names */
+  name?: string | string[];
+  /** Agent type, or any of several types */
+  type?: string | string[];
+  /** Predicate on the agent's value */
+  where?: (value: any, agent: A) => boolean;
+  /** Whether each listed port must be connected or free */
+  ports?: Record<string, 'connected' | 'free'>;
+  /** Agents that must be reachable from the agent; all must match */
+  near?: NeighbourQuery<A> | Array<NeighbourQuery<A>>;
+}
+
+/**
+ * An agent that must be reachable from a queried agent
+ */
+export interface NeighbourQuery<A = any> {
+  /** Query the reachable agent must match */
+  match: AgentQuery<A>;
+  /** Port of the queried agent the path has to leave through */
+  via?: string;
+  /** Maximum number of connections on the path (default 1) */
+  within?: number;
+}
+
+/**
+ * Descriptive fields of an agent that queries filter on
+ */
+export interface QueryAgentInfo {
+  name: string;
+  type: string;
+  value: unknown;
+}
+
+/**
+ * Read-only view of a graph that queries run against
+ */
+export interface QueryGraph<A> {
+  agents(): Iterable<A>;
+  /** Agents with a name; graphs with a name index answer without a scan */
+  agentsByName(name: string): Iterable<A>;
+  /** Agents with a type; graphs with a type index answer without a scan */
+  agentsByType(type: string): Iterable<A>;
+  info(agent: A): QueryAgentInfo;
+  portNames(agent: A): string[];
+  /** Agent on the other end of a port, if the port is connected */
+  peer(agent: A, portName: string): A | undefined;
+}
+
+const asList = (value: string | string[]): string[] => (Array.isArray(value) ? value : [value]);
+
+const append = <T>(index: Map<string, T[]>, key: string, item: T) => {
+  const list = index.get(key);
+  if (list) list.push(item);
+  else index.set(key, [item]);
+};
+
+/**
+ * Run a query against a graph
+ * @returns The matching agents, in the graph's (or its index's) order
+ */
+export function runQuery<A>(graph: QueryGraph<A>, query: AgentQuery<A> = {}): A[] {
+  return candidates(graph, query).filter(agent => matchesQuery(graph, agent, query));
+}
+
+/**
+ * Whether an agent matches a query
+ */
+export function matchesQuery<A>(graph: QueryGraph<A>, agent: A, query: AgentQuery<A>): boolean {
+  const info = graph.info(agent);
+  if (query.name !== undefined && !asList(query.name).includes(info.name)) return false;
+  if (query.type !== undefined && !asList(query.type).includes(info.type)) return false;
+
+  if (query.ports) {
+    for (const [portName, state] of Object.entries(query.ports)) {
+      if (!graph.portNames(agent).includes(portName)) return false;
+      const connected = graph.peer(agent, portName) !== undefined;
+      if (connected !== (state === 'connected')) return false;
+    }
+  }
+
+  if (query.where && !query.where(info.value, agent)) return false;
+
+  if (query.near) {
+    for (const neighbour of Array.isArray(query.near) ? query.near : [query.near]) {
+      if (!hasNeighbour(graph, agent, neighbour)) return false;
+    }
+  }
+
+  return true;
+}
+
+// Use the name or type index when the query names one
+function candidates<A>(graph: QueryGraph<A>, query: AgentQuery<A>): A[] {
+  if (query.name !== undefined) {
+    return asList(query.name).flatMap(name => Array.from(graph.agentsByName(name)));
+  }
+  if (query.type !== undefined) {
+    return asList(query.type).flatMap(type => Array.from(graph.agentsByType(type)));
+  }
+  return Array.from(graph.agents());
+}
+
+// Breadth-first search out to `within` connections from the agent
+function hasNeighbour<A>(graph: QueryGraph<A>, start: A, neighbour: NeighbourQuery<A>): boolean {
+  const within = neighbour.within ?? 1;
+  const visited = new Set<A>([start]);
+  let frontier = [start];
+
+  for (let hop = 0; hop < within && frontier.length > 0; hop++) {
+    const next: A[] = [];
+    for (const agent of frontier) {
+      const portNames = hop === 0 && neighbour.via !== undefined ? [neighbour.via] : graph.portNames(agent);
+      for (const portName of portNames) {
+        const peer = graph.peer(agent, portName);
+        if (peer === undefined || visited.has(peer)) continue;
+        if (matchesQuery(graph, peer, neighbour.match)) return true;
+        visited.add(peer);
+        next.push(peer);
+      }
+    }
+    frontier = next;
+  }
+
+  return false;
+}
+
+/**
+ * Serialized agent, as stored in snapshots
+ */
+export interface AgentRecord {
+  id: string;
+  name: string;
+  type: string;
+  value: unknown;
+}
+
+/**
+ * Connection between two serialized agents' ports
+ */
+export interface LinkRecord {
+  sourceAgentId: string;
+  sourcePortName: string;
+  destinationAgentId: string;
+  destinationPortName: string;
+}
+
+/**
+ * Build a query graph over serialized agents and connections
+ * @param portNames Port names of an agent; defaults to its connected ports
+ */
+export function createRecordGraph<A extends AgentRecord>(
+  agents: Iterable<A>,
+  links: Iterable<LinkRecord>,
+  portNames?: (agent: A) => string[]
+): QueryGraph<A> {
+  const byId = new Map<string, A>();
+  const byName = new Map<string, A[]>();
+  const byType = new Map<string, A[]>();
+  for (const agent of agents) {
+    byId.set(agent.id, agent);
+    append(byName, agent.name, agent);
+    append(byType, agent.type, agent);
+  }
+
+  // `${agentId}#${portName}` to the agent on the other end
+  const peers = new Map<string, A>();
+  const connectedPorts = new Map<string, string[]>();
+  const link = (agentId: string, portName: string, peerId: string) => {
+    const peer = byId.get(peerId);
+    if (!byId.has(agentId) || !peer) return;
+    peers.set(`${agentId}#${portName}`, peer);
+    append(connectedPorts, agentId, portName);
+  };
+  for (const record of links) {
+    link(record.sourceAgentId, record.sourcePortName, record.destinationAgentId);
+    link(record.destinationAgentId, record.destinationPortName, record.sourceAgentId);
+  }
+
+  return {
+    agents: () => byId.values(),
+    agentsByName: name => byName.get(name) ?? [],
+    agentsByType: type => byType.get(type) ?? [],
+    info: agent => agent,
+    portNames: agent => portNames?.(agent) ?? connectedPorts.get(agent.id) ?? [],
+    peer: (agent, portName) => peers.get(`${agent.id}#${portName}`)
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * Redex Queue
+ *
+ * The network keeps its active pairs in this queue. `connectPorts` adds a
+ * pair, `disconnectPorts` and rewrites remove it, and `runStep` takes pairs
+ * from the front or the back without rescanning the rest, so a step costs
+ * the same with ten live connections as with a hundred thousand.
+ *
+ * Ports are interned to integer handles when they first join a pair, and
+ * pairs are stored in flat arrays indexed by integer ids. Removal marks the
+ * pair's slot in the activation order as empty; empty slots are skipped and
+ * compacted away once they outnumber the live pairs.
+ */
+import { IBoundPort, PortInstanceKey } from './port';
+
+/**
+ * Integer handle identifying an active pair in a queue
+ */
+export type PairId = number;
+
+const NONE = -1;
+
+// Compaction only pays off once there are enough empty slots
+const MIN_COMPACTION_HOLES = 64;
+
+/**
+ * Activation-ordered queue of active pairs
+ */
+export class RedexQueue {
+  // Port handles
+  private handleOfKey = new Map<PortInstanceKey, number>();
+  private keyOfHandle: Array<PortInstanceKey | undefined> = [];
+  private portOfHandle: Array<IBoundPort | undefined> = [];
+  private pairOfHandle: PairId[] = [];
+  private freeHandles: number[] = [];
+
+  // Pairs, stored as parallel arrays indexed by pair id
+  private firstHandle: number[] = [];
+  private secondHandle: number[] = [];
+  private activationOfPair: number[] = [];
+  private slotOfPair: number[] = [];
+  private freePairs: PairId[] = [];
+
+  // Pair ids in activation order; removed pairs leave NONE behind
+  private slots: PairId[] = [];
+  private head = 0;
+  private nextActivation = 0;
+  private live = 0;
+
+  /**
+   * Number of active pairs
+   */
+  get size(): number {
+    return this.live;
+  }
+
+  /**
+   * Add an active pair at the back of the queue
+   */
+  add(port1: IBoundPort, port1Key: PortInstanceKey, port2: IBoundPort, port2Key: PortInstanceKey): PairId {
+    this.compact();
+    const handle1 = this.intern(port1, port1Key);
+    const handle2 = this.intern(port2, port2Key);
+    const id = this.freePairs.length > 0 ? this.freePairs.pop()! : this.firstHandle.length;
+
+    this.firstHandle[id] = handle1;
+    this.secondHandle[id] = handle2;
+    this.activationOfPair[id] = this.nextActivation++;
+    this.slotOfPair[id] = this.slots.length;
+    this.slots.push(id);
+    this.pairOfHandle[handle1] = id;
+    this.pairOfHandle[handle2] = id;
+    this.live++;
+    return id;
+  }
+
+  /**
+   * Whether a port belongs to an active pair
+   */
+  has(portKey: PortInstanceKey): boolean {
+    const handle = this.handleOfKey.get(portKey);
+    return handle !== undefined && this.pairOfHandle[handle] !== NONE;
+  }
+
+  /**
+   * Remove the active pair a port belongs to
+   * @returns Whether the port was part of an active pair
+   */
+  remove(portKey: PortInstanceKey): boolean {
+    const handle = this.handleOfKey.get(portKey);
+    if (handle === undefined) return false;
+    const id = this.pairOfHandle[handle];
+    if (id === NONE) return false;
+    this.delete(id);
+    return true;
+  }
+
+  /**
+   * Remove an active pair
+   */
+  delete(id: PairId): void {
+    const slot = this.slotOfPair[id];
+    if (slot === undefined || slot === NONE) return;
+
+    this.slots[slot] = NONE;
+    this.slotOfPair[id] = NONE;
+    this.pairOfHandle[this.firstHandle[id]] = NONE;
+    this.pairOfHandle[this.secondHandle[id]] = NONE;
+    this.freePairs.push(id);
+    this.live--;
+
+    while (this.head < this.slots.length && this.slots[this.head] === NONE) this.head++;
+    while (this.slots.length > this.head && this.slots[this.slots.length - 1] === NONE) this.slots.pop();
+    if (this.head === this.slots.length) {
+      this.slots.length = 0;
+      this.head = 0;
+    }
+  }
+
+  /**
+   * Release a port's handle, removing its active pair if it has one
+   */
+  forgetPort(portKey: PortInstanceKey): void {
+    const handle = this.handleOfKey.get(portKey);
+    if (handle === undefined) return;
+    const id = this.pairOfHandle[handle];
+    if (id !== NONE) this.delete(id);
+
+    this.handleOfKey.delete(portKey);
+    this.keyOfHandle[handle] = undefined;
+    this.portOfHandle[handle] = undefined;
+    this.freeHandles.push(handle);
+  }
+
+  /**
+   * Whether a pair is still the one activated at `activation`
+   *
+   * Pair ids are reused after removal, so the activation number tells a
+   * pair apart from a later pair that took over its id.
+   */
+  isActive(id: PairId, activation: number): boolean {
+    return this.slotOfPair[id] !== NONE && this.activationOfPair[id] === activation;
+  }
+
+  /**
+   * Activation number of a pair; lower values became active earlier
+   */
+  activationOf(id: PairId): number {
+    return this.activationOfPair[id];
+  }
+
+  /**
+   * Port on the first side of the connection that activated a pair
+   */
+  firstPort(id: PairId): IBoundPort {
+    return this.portOfHandle[this.firstHandle[id]]!;
+  }
+
+  /**
+   * Port on the second side of the connection that activated a pair
+   */
+  secondPort(id: PairId): IBoundPort {
+    return this.portOfHandle[this.secondHandle[id]]!;
+  }
+
+  /**
+   * Pair key in the `${port1Key}<->${port2Key}` format
+   */
+  keyOf(id: PairId): string {
+    return `${this.keyOfHandle[this.firstHandle[id]]}<->${this.keyOfHandle[this.secondHandle[id]]}`;
+  }
+
+  /**
+   * Find the oldest (or newest) pair accepted by a predicate
+   *
+   * Pairs the predicate rejects keep their place in the queue. The predicate
+   * must not add or remove pairs.
+   * @returns The accepted pair, or -1 if there is none
+   */
+  find(fromBack: boolean, accept: (id: PairId) => boolean): PairId {
+    const slots = this.slots;
+    if (fromBack) {
+      for (let slot = slots.length - 1; slot >= this.head; slot--) {
+        const id = slots[slot];
+        if (id !== NONE && accept(id)) return id;
+      }
+    } else {
+      for (let slot = this.head; slot < slots.length; slot++) {
+        const id = slots[slot];
+        if (id !== NONE && accept(id)) return id;
+      }
+    }
+    return NONE;
+  }
+
+  /**
+   * Active pairs in activation order
+   *
+   * Pairs may be removed while iterating, but not added.
+   */
+  *[Symbol.iterator](): IterableIterator<PairId> {
+    const slots = this.slots;
+    for (let slot = this.head; slot < slots.length; slot++) {
+      const id = slots[slot];
+      if (id !== NONE) yield id;
+    }
+  }
+
+  private intern(port: IBoundPort, portKey: PortInstanceKey): number {
+    let handle = this.handleOfKey.get(portKey);
+    if (handle === undefined) {
+      handle = this.freeHandles.length > 0 ? this.freeHandles.pop()! : this.keyOfHandle.length;
+      this.handleOfKey.set(portKey, handle);
+      this.keyOfHandle[handle] = portKey;
+      this.pairOfHandle[handle] = NONE;
+    }
+    this.portOfHandle[handle] = port;
+    return handle;
+  }
+
+  // Drop empty slots once they outnumber the live pairs, keeping the order
+  private compact(): void {
+    const holes = this.slots.length - this.live;
+    if (holes < MIN_COMPACTION_HOLES || holes <= this.live) return;
+
+    const slots: PairId[] = [];
+    for (let slot = this.head; slot < this.slots.length; slot++) {
+      const id = this.slots[slot];
+      if (id === NONE) continue;
+      this.slotOfPair[id] = slots.length;
+      slots.push(id);
+    }
+    this.slots = slots;
+    this.head = 0;
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Reduction Schedulers
+ *
+ * Long reductions block the thread they run on. A time-sliced reduction
+ * runs for a budget of milliseconds, then hands the rest of the work to a
+ * scheduler and yields, so a UI thread can paint and handle input between
+ * slices. Schedulers are plain functions that run a task later; the
+ * built-in ones wrap `queueMicrotask`, `setTimeout` and `MessageChannel`,
+ * and tests can pass one that queues tasks to run by hand.
+ */
+
+/**
+ * Runs a task later
+ */
+export type ReductionScheduler = (task: () => void) => void;
+
+/**
+ * Built-in schedulers that can be selected by name
+ * - `microtask`: runs after the current task; lets promise callbacks in but not rendering
+ * - `timeout`: `setTimeout(task, 0)`; browsers clamp nested timeouts to about 4ms
+ * - `message-channel`: a `MessageChannel` message; yields to rendering without the clamp
+ */
+export type ReductionSchedulerName = 'microtask' | 'timeout' | 'message-channel';
+
+export interface TimeSliceOptions {
+  /** Milliseconds to work before yielding (default 5) */
+  budgetMs?: number;
+  /** Scheduler that runs the next slice (default 'message-channel' where available, else 'timeout') */
+  scheduler?: ReductionScheduler | ReductionSchedulerName;
+}
+
+/**
+ * Status of a time-sliced task
+ */
+export type TimeSlicedStatus = 'running' | 'paused' | 'done';
+
+/**
+ * Handle to work running in time slices
+ */
+export interface TimeSlicedTask<T> {
+  /** Settles with the task's result, or rejects if the work throws */
+  readonly promise: Promise<T>;
+  readonly status: TimeSlicedStatus;
+  /** Stop after the current slice until resumed */
+  pause(): void;
+  resume(): void;
+  /** Stop for good, settling the promise with the result so far */
+  cancel(): void;
+}
+
+const DEFAULT_BUDGET_MS = 5;
+
+export const microtask: ReductionScheduler = task => queueMicrotask(task);
+
+export const timeout: ReductionScheduler = task => {
+  setTimeout(task, 0);
+};
+
+/**
+ * Create a scheduler that posts a message per task
+ */
+export function messageChannel(): ReductionScheduler {
+  const tasks: Array<() => void> = [];
+  let channel: MessageChannel | undefined;
+
+  return task => {
+    if (!channel) {
+      channel = new MessageChannel();
+      channel.port1.onmessage = () => {
+        tasks.shift()?.();
+        // Node keeps the process alive while a port is referenced
+        if (tasks.length === 0) (channel!.port1 as { unref?: () => void }).unref?.();
+      };
+    }
+    tasks.push(task);
+    (channel.port1 as { ref?: () => void }).ref?.();
+    channel.port2.postMessage(null);
+  };
+}
+
+let sharedMessageChannel: ReductionScheduler | undefined;
+
+/**
+ * Resolve a scheduler from a scheduler or its name
+ */
+export function resolveReductionScheduler(
+  scheduler?: ReductionScheduler | ReductionSchedulerName
+): ReductionScheduler {
+  if (typeof scheduler === 'function') return scheduler;
+
+  const name = scheduler ?? (typeof MessageChannel === 'function' ? 'message-channel' : 'timeout');
+  switch (name) {
+    case 'microtask':
+      return microtask;
+    case 'timeout':
+      return timeout;
+    case 'message-channel':
+      sharedMessageChannel ??= messageChannel();
+      return sharedMessageChannel;
+    default:
+      throw new Error(`Unknown reduction scheduler: ${name}`);
+  }
+}
+
+/**
+ * Run work in time slices
+ *
+ * `tick` is called repeatedly until it returns a result; each slice keeps
+ * calling it until the budget is spent, and always makes at least one call.
+ * The first slice is scheduled, not run synchronously.
+ * @param tick Does a unit of work and returns the result once the work is done
+ * @param cancelled Result to settle with when the task is cancelled
+ */
+export function runTimeSliced<T>(
+  tick: () => T | undefined,
+  cancelled: () => T,
+  options: TimeSliceOptions = {}
+): TimeSlicedTask<T> {
+  const budgetMs = options.budgetMs ?? DEFAULT_BUDGET_MS;
+  const schedule = resolveReductionScheduler(options.scheduler);
+  let status: TimeSlicedStatus = 'running';
+  let queued = false;
+  let resolve!: (result: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+
+  const finish = (result: T) => {
+    status = 'done';
+    resolve(result);
+  };
+
+  const runSlice = () => {
+    queued = false;
+    if (status !== 'running') return;
+
+    const deadline = performance.now() + budgetMs;
+    try {
+      do {
+        const result = tick();
+        if (result !== undefined) return finish(result);
+      } while (performance.now() < deadline);
+    } catch (error) {
+      status = 'done';
+      return reject(error);
+    }
+    queueSlice();
+  };
+
+  const queueSlice = () => {
+    if (queued) return;
+    queued = true;
+    schedule(runSlice);
+  };
+
+  queueSlice();
+
+  return {
+    promise,
+    get status() {
+      return status;
+    },
+    pause() {
+      if (status === 'running') status = 'paused';
+    },
+    resume() {
+      if (status !== 'paused') return;
+      status = 'running';
+      queueSlice();
+    },
+    cancel() {
+      if (status !== 'done') finish(cancelled());
+    }
+  };
+}
+
+// Export all standard schedulers
+export const ReductionSchedulers = {
+  microtask,
+  timeout,
+  messageChannel
+};
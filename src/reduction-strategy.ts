@@ -0,0 +1,140 @@
+/**
+ * Reduction Strategies
+ *
+ * A reduction strategy decides the order in which a network fires its
+ * active pairs. Interaction nets are confluent, so the normal form does not
+ * depend on the order, but side effects in action rules, intermediate
+ * states and performance do. Strategies make that order explicit and
+ * reproducible.
+ */
+import { IAgent } from './agent';
+import { AnyRule } from './rule';
+import { seededRandom } from './utils';
+
+/**
+ * An active pair that has a matching rule and is ready to fire
+ */
+export interface Redex {
+  /** Active pair key, `${port1Key}<->${port2Key}` */
+  key: string;
+
+  /** Rule that will be applied to the pair */
+  rule: AnyRule;
+
+  /** Agent on the first side of the connection */
+  agent1: IAgent;
+
+  /** Agent on the second side of the connection */
+  agent2: IAgent;
+
+  /** Activation order; lower values became active earlier */
+  order: number;
+}
+
+/**
+ * Interface for reduction strategies
+ */
+export interface ReductionStrategy {
+  /**
+   * Get the name of the strategy, recorded in traces
+   */
+  readonly name: string;
+
+  /**
+   * Order the ready redexes; the network fires them front to back
+   * @param redexes Redexes in activation order
+   * @returns The redexes in the order they should fire
+   */
+  order(redexes: readonly Redex[]): Redex[];
+}
+
+/**
+ * Built-in strategies that can be selected by name
+ */
+export type ReductionStrategyName = 'fifo' | 'lifo';
+
+/**
+ * Strategy that fires the oldest active pair first (breadth-first)
+ */
+export const fifo: ReductionStrategy = {
+  name: 'fifo',
+  order(redexes: readonly Redex[]): Redex[] {
+    return redexes.slice();
+  }
+};
+
+/**
+ * Strategy that fires the newest active pair first (depth-first)
+ */
+export const lifo: ReductionStrategy = {
+  name: 'lifo',
+  order(redexes: readonly Redex[]): Redex[] {
+    return redexes.slice().reverse();
+  }
+};
+
+/**
+ * Strategy that fires redexes of higher-priority rules first
+ *
+ * Priorities are looked up by rule name, or computed by a function.
+ * Rules without a priority get 0; ties keep activation order.
+ */
+export const priority = (
+  priorities: Record<string, number> | ((redex: Redex) => number)
+): ReductionStrategy => {
+  const priorityOf = typeof priorities === 'function'
+    ? priorities
+    : (redex: Redex) => priorities[redex.rule.name] ?? 0;
+
+  return {
+    name: 'priority',
+    order(redexes: readonly Redex[]): Redex[] {
+      return redexes
+        .map(redex => ({ redex, priority: priorityOf(redex) }))
+        .sort((a, b) => b.priority - a.priority || a.redex.order - b.redex.order)
+        .map(entry => entry.redex);
+    }
+  };
+};
+
+/**
+ * Strategy that fires redexes in a pseudo-random order
+ *
+ * The order is fully determined by the seed, so a run that exposes a
+ * confluence bug can be replayed by creating the strategy with the same seed.
+ */
+export const random = (seed: number): ReductionStrategy => {
+  const next = seededRandom(seed);
+
+  return {
+    name: `random(${seed})`,
+    order(redexes: readonly Redex[]): Redex[] {
+      const shuffled = redexes.slice();
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(next() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    }
+  };
+};
+
+/**
+ * Resolve a strategy option to a strategy object
+ */
+export function resolveReductionStrategy(
+  strategy: ReductionStrategy | ReductionStrategyName | undefined
+): ReductionStrategy {
+  if (strategy === undefined || strategy === 'fifo') return fifo;
+  if (strategy === 'lifo') return lifo;
+  if (typeof strategy === 'object' && typeof strategy.order === 'function') return strategy;
+  throw new Error(`Unknown reduction strategy: ${String(strategy)}`);
+}
+
+// Export all standard strategies
+export const ReductionStrategies = {
+  fifo,
+  lifo,
+  priority,
+  random
+};
@@ -0,0 +1,74 @@
+/**
+ * Rule Modules
+ *
+ * A rule module packages agent factories with the rules between them, so a
+ * rule library can be shared and loaded into any scoped network with `use()`.
+ * Agent names are prefixed with the module's namespace, its name by default,
+ * so modules declaring agents of the same name do not clash.
+ *
+ * ```typescript
+ * const counters = defineRuleModule({
+ *   name: 'counters',
+ *   version: '1.0.0',
+ *   agents: Agent => ({
+ *     Counter: Agent.factory<'Counter', number>('Counter'),
+ *     Increment: Agent.factory<'Increment', number>('Increment')
+ *   }),
+ *   rules: (rules, { Counter, Increment }) => {
+ *     rules.when(Counter, Increment).consume((counter, increment) => {
+ *       counter.value += increment.value;
+ *     });
+ *   }
+ * });
+ *
+ * const { use } = createNetwork('app');
+ * const { Counter, Increment } = use(counters).agents; // named counters/Counter and counters/Increment
+ * ```
+ */
+import type { createAgentFactory } from './agent';
+import { RuleModuleError } from './errors';
+import type { AgentFactory, RuleMetadata, RulesRegistry } from './scoped-network';
+
+export type ModuleAgents = Record<string, AgentFactory<any, any, any, any>>;
+
+export type RuleModuleDefinition<Agents extends ModuleAgents = ModuleAgents> = {
+  name: string;
+  version?: string;
+  /** Modules loaded before this one; their agents are passed to `rules` by module name */
+  dependsOn?: RuleModule<any>[];
+  /** Declare the module's agent factories with the `Agent` of the loading network */
+  agents?: (Agent: { factory: typeof createAgentFactory }) => Agents;
+  /** Register the module's rules */
+  rules?: (rules: RulesRegistry, agents: Agents, dependencies: Record<string, ModuleAgents>) => void;
+};
+
+export type RuleModule<Agents extends ModuleAgents = ModuleAgents> = Readonly<RuleModuleDefinition<Agents>> & {
+  readonly __ruleModule: true;
+};
+
+export type UseRuleModuleOptions = {
+  /** Prefix of the module's agent names (default the module name); false keeps the declared names */
+  namespace?: string | false;
+};
+
+export type LoadedRuleModule<Agents extends ModuleAgents = ModuleAgents> = {
+  name: string;
+  version?: string;
+  namespace?: string;
+  agents: Agents;
+  rules: RuleMetadata[];
+  /** Remove the module's rules; throws a RuleModuleError while it is in use */
+  unload: () => void;
+};
+
+/**
+ * Define a rule module to load into scoped networks with `use()`
+ */
+export function defineRuleModule<Agents extends ModuleAgents = ModuleAgents>(
+  definition: RuleModuleDefinition<Agents>
+): RuleModule<Agents> {
+  if (!definition.name || /[/#]/.test(definition.name)) {
+    throw new RuleModuleError(`Invalid rule module name "${definition.name}"`, 'invalid-name', definition.name);
+  }
+  return Object.freeze({ ...definition, __ruleModule: true as const });
+}
@@ -0,0 +1,204 @@
+/**
+ * Rule Patterns
+ *
+ * Pattern rules match agents by name glob, by `IAgent.type` or by a
+ * predicate instead of by exact agent and port names. They let one rule
+ * handle a whole family of agents, e.g. a generic eraser.
+ *
+ * When several rules apply to a pair, the most specific one wins:
+ * exact rules first, then pattern rules ordered by specificity, then by
+ * registration order.
+ */
+import { IAgent } from './agent';
+import { IBoundPort } from './port';
+import type { AnyRule } from './rule';
+
+/**
+ * Pattern for one side of a rule
+ */
+export interface AgentPattern {
+  /** Agent name, or a glob where `*` matches any run of characters and `?` one character */
+  name?: string;
+
+  /** Agent type (`IAgent.type`) */
+  type?: string;
+
+  /** Port name or glob (default 'main') */
+  port?: string;
+
+  /** Additional predicate checked on every match */
+  where?: (agent: IAgent, port: IBoundPort) => boolean;
+}
+
+/**
+ * Patterns for both sides of a rule
+ */
+export interface RulePattern {
+  left: AgentPattern;
+  right: AgentPattern;
+}
+
+/**
+ * Which side of a pair a pattern rule matched
+ * - `forward`: the first port matches `left`
+ * - `reverse`: the second port matches `left`
+ */
+export type PatternOrientation = 'forward' | 'reverse';
+
+const globCache = new Map<string, RegExp>();
+
+function isGlob(text: string): boolean {
+  return text.includes('*') || text.includes('?');
+}
+
+function matchesGlob(glob: string, text: string): boolean {
+  if (!isGlob(glob)) return glob === text;
+
+  let regex = globCache.get(glob);
+  if (!regex) {
+    const source = glob
+      .split('')
+      .map(ch => ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+      .join('');
+    regex = new RegExp(`^${source}$`);
+    globCache.set(glob, regex);
+  }
+  return regex.test(text);
+}
+
+/**
+ * Check whether a port satisfies one side of a pattern
+ * @param checkPredicate Set to false to only check names, types and ports
+ */
+export function matchesAgentPattern(pattern: AgentPattern, port: IBoundPort, checkPredicate = true): boolean {
+  const agent = port.agent;
+  if (pattern.name !== undefined && !matchesGlob(pattern.name, agent.name)) return false;
+  if (pattern.type !== undefined && agent.type !== pattern.type) return false;
+  if (!matchesGlob(pattern.port ?? 'main', port.name)) return false;
+  if (checkPredicate && pattern.where && !pattern.where(agent, port)) return false;
+  return true;
+}
+
+/**
+ * Match a rule pattern against a pair of connected ports
+ * @returns The orientation of the match, or undefined if the pattern does not apply
+ */
+export function matchRulePattern(
+  pattern: RulePattern,
+  port1: IBoundPort,
+  port2: IBoundPort,
+  checkPredicate = true
+): PatternOrientation | undefined {
+  if (matchesAgentPattern(pattern.left, port1, checkPredicate) && matchesAgentPattern(pattern.right, port2, checkPredicate)) {
+    return 'forward';
+  }
+  if (matchesAgentPattern(pattern.left, port2, checkPredicate) && matchesAgentPattern(pattern.right, port1, checkPredicate)) {
+    return 'reverse';
+  }
+  return undefined;
+}
+
+// exact name > type > wildcard; exact ports and predicates break ties
+function sideSpecificity(pattern: AgentPattern): number {
+  let score = 0;
+  if (pattern.name !== undefined && !isGlob(pattern.name)) score = 8;
+  else if (pattern.type !== undefined) score = 4;
+  if (!isGlob(pattern.port ?? 'main')) score += 2;
+  if (pattern.where) score += 1;
+  return score;
+}
+
+/**
+ * Get the specificity of a rule pattern; higher is more specific. The more
+ * specific side ranks first and the other side breaks ties, so an exact name
+ * and a wildcard beat two types.
+ */
+export function patternSpecificity(pattern: RulePattern): number {
+  const left = sideSpecificity(pattern.left);
+  const right = sideSpecificity(pattern.right);
+  // A side scores at most 11, so base 16 keeps the ranks apart
+  return Math.max(left, right) * 16 + Math.min(left, right);
+}
+
+/**
+ * Describe one side of a pattern, used as the agent name in `matchInfo`
+ */
+export function describeAgentPattern(pattern: AgentPattern): string {
+  if (pattern.name !== undefined) return pattern.name;
+  if (pattern.type !== undefined) return `type:${pattern.type}`;
+  return '*';
+}
+
+// A glob covers another when it matches every text the other matches
+function globCovers(outer: string, inner: string): boolean {
+  return outer === inner || outer === '*' || (!isGlob(inner) && matchesGlob(outer, inner));
+}
+
+// Conservative: two globs may overlap unless their literal prefixes or suffixes disagree
+function globsMayOverlap(a: string, b: string): boolean {
+  if (!isGlob(a)) return matchesGlob(b, a);
+  if (!isGlob(b)) return matchesGlob(a, b);
+  const prefix = (glob: string) => glob.slice(0, glob.search(/[*?]/));
+  const suffix = (glob: string) => glob.slice(Math.max(glob.lastIndexOf('*'), glob.lastIndexOf('?')) + 1);
+  const [prefixA, prefixB, suffixA, suffixB] = [prefix(a), prefix(b), suffix(a), suffix(b)];
+  return (prefixA.startsWith(prefixB) || prefixB.startsWith(prefixA))
+    && (suffixA.endsWith(suffixB) || suffixB.endsWith(suffixA));
+}
+
+function sideCovers(outer: AgentPattern, inner: AgentPattern): boolean {
+  if (outer.where && outer.where !== inner.where) return false;
+  if (outer.name !== undefined && outer.name !== '*' && (inner.name === undefined || !globCovers(outer.name, inner.name))) return false;
+  if (outer.type !== undefined && outer.type !== inner.type) return false;
+  return globCovers(outer.port ?? 'main', inner.port ?? 'main');
+}
+
+function sidesMayOverlap(a: AgentPattern, b: AgentPattern): boolean {
+  if (a.name !== undefined && b.name !== undefined && !globsMayOverlap(a.name, b.name)) return false;
+  if (a.type !== undefined && b.type !== undefined && a.type !== b.type) return false;
+  return globsMayOverlap(a.port ?? 'main', b.port ?? 'main');
+}
+
+/**
+ * Check whether every pair matched by `inner` is also matched by `outer`
+ */
+export function patternCovers(outer: RulePattern, inner: RulePattern): boolean {
+  return (sideCovers(outer.left, inner.left) && sideCovers(outer.right, inner.right))
+    || (sideCovers(outer.left, inner.right) && sideCovers(outer.right, inner.left));
+}
+
+/**
+ * Check whether two patterns may match a common pair; may report overlaps that cannot happen
+ */
+export function patternsMayOverlap(a: RulePattern, b: RulePattern): boolean {
+  return (sidesMayOverlap(a.left, b.left) && sidesMayOverlap(a.right, b.right))
+    || (sidesMayOverlap(a.left, b.right) && sidesMayOverlap(a.right, b.left));
+}
+
+/**
+ * Get the pattern a rule matches; exact rules match their agent and port names
+ */
+export function rulePatternOf(rule: AnyRule): RulePattern {
+  if (isPatternRule(rule)) return rule.pattern;
+  const { agentName1, portName1, agentName2, portName2 } = rule.matchInfo;
+  return {
+    left: { name: agentName1, port: portName1 },
+    right: { name: agentName2, port: portName2 }
+  };
+}
+
+/**
+ * Check whether a rule is a pattern rule
+ */
+export function isPatternRule(rule: AnyRule): rule is AnyRule & { pattern: RulePattern } {
+  return 'pattern' in rule && (rule as { pattern?: RulePattern }).pattern !== undefined;
+}
+
+/**
+ * Sort pattern rules from most to least specific, keeping registration order for ties
+ */
+export function sortBySpecificity<R extends AnyRule & { pattern: RulePattern }>(rules: R[]): R[] {
+  return rules
+    .map((rule, index) => ({ rule, index, specificity: patternSpecificity(rule.pattern) }))
+    .sort((a, b) => b.specificity - a.specificity || a.index - b.index)
+    .map(entry => entry.rule);
+}
@@ -3,6 +3,7 @@ import { IConnection, Connection, isConnection } from "./connection";
 import { IBoundPort, PortName, isBoundPort } from "./port";
 import { IAgentDefinition, IConnectionDefinition } from './distributed/types';
 import { INetwork } from "./network";
+import { AgentPattern, describeAgentPattern, RulePattern } from "./rule-pattern";
 
 // Command types for rule operations
 export type RuleAddCommand = {
@@ -20,13 +21,15 @@ export type RuleCommand = RuleAddCommand | RuleRemoveCommand;
 
 // Common types for both rule types
 export type ActionReturn = void | (IAgent | IConnection | RuleCommand)[];
+// Async actions keep their agents busy until the promise settles
+export type AsyncActionReturn = Promise<ActionReturn>;
 export type RuleType = 'action' | 'rewrite' | 'deterministic_action';
 
 // Action Rule System
 export type Action<
   Source extends IAgent = IAgent,
   Destination extends IAgent = IAgent,
-  TActionReturn extends ActionReturn = ActionReturn,
+  TActionReturn extends ActionReturn | AsyncActionReturn = ActionReturn | AsyncActionReturn,
   N extends INetwork<any,any> = INetwork<any, any>
 > = (agent1: Source, agent2: Destination, network: N) => TActionReturn;
 
@@ -46,6 +49,7 @@ export interface IActionRule<
     portName2: PortName2;
   };
   action: Action<IAgent<AgentName1>, IAgent<AgentName2>>;
+  pattern?: RulePattern; // Set for pattern rules; matchInfo then only describes the pattern
 }
 
 // Deterministic Action Rule System
@@ -101,7 +105,7 @@ export interface Rewrite {
   _staticRewrite?: boolean;
   _isDeferredFn?: boolean;
   _fn?: DefineRewriteFn;
-  _cachedPlans?: Map<any, any>;
+  _cacheable?: boolean; // false when plans from _fn must not be reused
 }
 
 export type DefineRewriteFn = (agent1: IAgent, agent2: IAgent) => Rewrite;
@@ -122,6 +126,7 @@ export interface IRewriteRule<
     portName2: PortName2;
   };
   rewrite: Rewrite;
+  pattern?: RulePattern; // Set for pattern rules; matchInfo then only describes the pattern
 }
 
 export type AnyRule = IActionRule | IRewriteRule | IDeterministicActionRule;
@@ -231,7 +236,45 @@ export function ActionRule(
   throw new Error("Invalid arguments provided to ActionRule. Must use port objects or a connection object.");
 }
 
-// RewriteRule factory function with ports - name at the end
+/**
+ * Options for rewrite rules
+ */
+export interface RewriteRuleOptions {
+  /** Rule name */
+  name?: string;
+
+  /**
+   * Whether plans produced by a rewrite function may be cached by agent values
+   * (default true). Set to false when the plan depends on anything besides the
+   * values of the two interacting agents.
+   */
+  cache?: boolean;
+}
+
+// Store a rewrite definition with optimization metadata
+function toRewriteObject(definition: DefineRewriteFn | Rewrite, cache: boolean): Rewrite {
+  return typeof definition === 'function'
+    ? {
+        _isDeferredFn: true,
+        _fn: definition,
+        // Default empty structure in case we need to access properties
+        newAgents: [],
+        internalConnections: [],
+        portMapAgent1: {},
+        portMapAgent2: {},
+        // Optimization flags
+        _optimized: false,
+        _cacheable: cache
+      }
+    : {
+        // For static rewrites, add optimization metadata
+        ...definition,
+        _optimized: true,
+        _staticRewrite: true
+      };
+}
+
+// RewriteRule factory function with ports - name or options at the end
 export function RewriteRule<
   A1 extends IAgent,
   P1 extends IBoundPort<A1>,
@@ -241,10 +284,10 @@ export function RewriteRule<
   port1: P1,
   port2: P2,
   definition: DefineRewriteFn | Rewrite,
-  ruleName?: string
+  ruleNameOrOptions?: string | RewriteRuleOptions
 ): IRewriteRule;
 
-// RewriteRule factory function with connection - name at the end
+// RewriteRule factory function with connection - name or options at the end
 export function RewriteRule<
   N extends string,
   S extends IAgent,
@@ -254,7 +297,7 @@ export function RewriteRule<
 >(
   connection: IConnection<N, S, D, SP, DP>,
   definition: DefineRewriteFn | Rewrite,
-  ruleName?: string
+  ruleNameOrOptions?: string | RewriteRuleOptions
 ): IRewriteRule;
 
 // Two-port overload
@@ -267,26 +310,26 @@ export function RewriteRule<
   port1: P1,
   port2: P2,
   definition: DefineRewriteFn | Rewrite,
-  ruleName?: string
+  ruleNameOrOptions?: string | RewriteRuleOptions
 ): IRewriteRule;
 
 // Implementation
 export function RewriteRule(
   portOrConnection: IBoundPort<IAgent> | IConnection,
   portOrDefinition: IBoundPort<IAgent> | DefineRewriteFn | Rewrite,
-  definitionOrName?: DefineRewriteFn | Rewrite | string,
-  ruleName?: string
+  definitionOrNameOrOptions?: DefineRewriteFn | Rewrite | string | RewriteRuleOptions,
+  ruleNameOrOptions?: string | RewriteRuleOptions
 ): IRewriteRule {
   // Case 1: Using two ports
   if (isBoundPort(portOrConnection) && isBoundPort(portOrDefinition) && 
-      (typeof definitionOrName === 'function' || typeof definitionOrName === 'object') && 
-      !(typeof definitionOrName === 'string')) {
+      (typeof definitionOrNameOrOptions === 'function' || typeof definitionOrNameOrOptions === 'object')) {
     const port1 = portOrConnection;
     const port2 = portOrDefinition;
-    const definition = definitionOrName as DefineRewriteFn | Rewrite;
+    const definition = definitionOrNameOrOptions as DefineRewriteFn | Rewrite;
+    const options = typeof ruleNameOrOptions === 'string' ? { name: ruleNameOrOptions } : ruleNameOrOptions ?? {};
     
     // Generate rule name if not provided
-    const name = ruleName || `rewrite-${port1.agent.name}.${port1.name}-to-${port2.agent.name}.${port2.name}`;
+    const name = options.name || `rewrite-${port1.agent.name}.${port1.name}-to-${port2.agent.name}.${port2.name}`;
     
     return {
       type: 'rewrite',
@@ -297,26 +340,7 @@ export function RewriteRule(
         agentName2: port2.agent.name,
         portName2: port2.name
       },
-      // Store the definition with optimization metadata
-      rewrite: typeof definition === 'function' 
-        ? { 
-            _isDeferredFn: true,
-            _fn: definition,
-            // Default empty structure in case we need to access properties
-            newAgents: [],
-            internalConnections: [],
-            portMapAgent1: {},
-            portMapAgent2: {},
-            // Optimization flags
-            _optimized: false,
-            _cachedPlans: new Map() // Cache for optimized rewrites based on agent values
-          } as any
-        : {
-            // For static rewrites, add optimization metadata
-            ...definition,
-            _optimized: true,
-            _staticRewrite: true
-          }
+      rewrite: toRewriteObject(definition, options.cache !== false)
     };
   }
   
@@ -324,9 +348,11 @@ export function RewriteRule(
   if (isConnection(portOrConnection) && (typeof portOrDefinition === 'function' || typeof portOrDefinition === 'object')) {
     const connection = portOrConnection;
     const definition = portOrDefinition as DefineRewriteFn | Rewrite;
+    const nameOrOptions = definitionOrNameOrOptions as string | RewriteRuleOptions | undefined;
+    const options = typeof nameOrOptions === 'string' ? { name: nameOrOptions } : nameOrOptions ?? {};
     
-    // If third parameter is string, it's the rule name, otherwise use default
-    const name = typeof definitionOrName === 'string' ? definitionOrName : `rewrite-for-${connection.name}`;
+    // If a name is provided use it, otherwise use default
+    const name = options.name || `rewrite-for-${connection.name}`;
     
     return {
       type: 'rewrite',
@@ -337,32 +363,53 @@ export function RewriteRule(
         agentName2: connection.destination.name,
         portName2: connection.destinationPort.name
       },
-      // Store the definition with optimization metadata
-      rewrite: typeof definition === 'function' 
-        ? { 
-            _isDeferredFn: true,
-            _fn: definition,
-            // Default empty structure in case we need to access properties
-            newAgents: [],
-            internalConnections: [],
-            portMapAgent1: {},
-            portMapAgent2: {},
-            // Optimization flags
-            _optimized: false,
-            _cachedPlans: new Map() // Cache for optimized rewrites based on agent values
-          } as any
-        : {
-            // For static rewrites, add optimization metadata
-            ...definition,
-            _optimized: true,
-            _staticRewrite: true
-          }
+      rewrite: toRewriteObject(definition, options.cache !== false)
     };
   }
   
   throw new Error("Invalid arguments provided to RewriteRule. Must use port objects or a connection object.");
 }
 
+/**
+ * Definition of what a pattern rule does: run an action or rewrite the pair
+ */
+export type PatternRuleDefinition =
+  | { action: Action }
+  | { rewrite: DefineRewriteFn | Rewrite; cache?: boolean };
+
+// PatternRule factory function - matches agents by name glob, type or predicate
+export function PatternRule(
+  left: AgentPattern,
+  right: AgentPattern,
+  definition: PatternRuleDefinition,
+  ruleName?: string
+): IActionRule | IRewriteRule {
+  const pattern: RulePattern = { left, right };
+  const matchInfo = {
+    agentName1: describeAgentPattern(left),
+    portName1: left.port ?? 'main',
+    agentName2: describeAgentPattern(right),
+    portName2: right.port ?? 'main'
+  };
+  const name = ruleName || `pattern-${matchInfo.agentName1}.${matchInfo.portName1}-to-${matchInfo.agentName2}.${matchInfo.portName2}`;
+  
+  if ('action' in definition) {
+    return { type: 'action', name, matchInfo, action: definition.action, pattern };
+  }
+  
+  if ('rewrite' in definition) {
+    return {
+      type: 'rewrite',
+      name,
+      matchInfo,
+      rewrite: toRewriteObject(definition.rewrite, definition.cache !== false),
+      pattern
+    };
+  }
+  
+  throw new Error("Invalid definition provided to PatternRule. Must contain an action or a rewrite.");
+}
+
 // Updated Rule function using objects only - simplified API
 export function Rule<
   S extends IBoundPort,
@@ -700,6 +747,7 @@ export type RuleFactory = typeof Rule & {
   action: typeof ActionRule;
   rewrite: typeof RewriteRule;
   tracked: typeof TrackedAction;
+  pattern: typeof PatternRule;
   factoryFrom: typeof createRuleFactoryFrom;
 };
 
@@ -707,12 +755,14 @@ export namespace Rule {
   export let action: typeof ActionRule;
   export let rewrite: typeof RewriteRule;
   export let tracked: typeof TrackedAction;
+  export let pattern: typeof PatternRule;
   export let factoryFrom: typeof createRuleFactoryFrom;
 }
 
 Rule.action = ActionRule;
 Rule.rewrite = RewriteRule;
 Rule.tracked = TrackedAction;
+Rule.pattern = PatternRule;
 Rule.factoryFrom = createRuleFactoryFrom;
 
 export function createDeferredRule<
@@ -803,7 +853,7 @@ export function createDeferredRule(
             portMapAgent2: {},
             // Optimization flags (optional, but good to be consistent)
             _optimized: false,
-            _cachedPlans: new Map()
+            _cacheable: true
           } as any; // Cast to 'any' or a more specific internal type if you have one for this structure
     } else if (typeof implementation === 'object' && implementation !== null) {
         // This is a static Rewrite object.
@@ -0,0 +1,241 @@
+/**
+ * Agent Value Schemas
+ *
+ * Agent values are untyped at runtime, so a rule that writes a bad value
+ * corrupts state silently. An agent factory can declare a schema for the
+ * values of its agents; values are then checked when an agent is created,
+ * after every action rule it takes part in, and when remote operations
+ * create or update it.
+ *
+ * Schemas follow the Standard Schema interface, so schemas from libraries
+ * that implement it (Zod, Valibot, ArkType, ...) work as they are. The
+ * built-in `Schemas` cover simple values without a dependency.
+ *
+ * The validation mode set here is the default; a network can override it
+ * and keeps its own schemas by agent name for remote operations.
+ *
+ * ```typescript
+ * const Counter = Agent.factory<'Counter', { count: number }>('Counter', {
+ *   schema: Schemas.object({ count: Schemas.refine(Schemas.number(), n => n >= 0, 'must not be negative') })
+ * });
+ * ```
+ */
+import type { IAgent } from "./agent";
+import { SchemaValidationError, SchemaValidationPhase } from "./errors";
+import { ErrorReporter } from "./experience";
+
+/**
+ * A problem found by a schema
+ */
+export interface SchemaIssue {
+  message: string;
+  /** Location of the problem within the value */
+  path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+}
+
+export type SchemaResult<Output> =
+  | { value: Output; issues?: undefined }
+  | { issues: ReadonlyArray<SchemaIssue> };
+
+/**
+ * The Standard Schema interface (version 1)
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => SchemaResult<Output> | Promise<SchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+/**
+ * Schema for the values of an agent
+ */
+export type ValueSchema<T = any> = StandardSchemaV1<unknown, T>;
+
+/**
+ * What a failed check does
+ * - `throw`: report the error, then throw it
+ * - `report`: report the error and carry on with the invalid value
+ * - `off`: skip validation
+ */
+export type SchemaValidationMode = 'throw' | 'report' | 'off';
+
+// Validation costs a walk over every checked value, so production skips it by default
+let validationMode: SchemaValidationMode =
+  typeof process !== 'undefined' && process.env?.NODE_ENV === 'production' ? 'off' : 'throw';
+const violationListeners = new Set<(error: SchemaValidationError) => void>();
+const agentSchemas = new WeakMap<IAgent, ValueSchema>();
+
+/**
+ * Set what failed checks do in networks without a mode of their own
+ * (default 'throw', or 'off' when NODE_ENV is 'production')
+ * @returns The previous mode
+ */
+export function setSchemaValidation(mode: SchemaValidationMode): SchemaValidationMode {
+  const previous = validationMode;
+  validationMode = mode;
+  return previous;
+}
+
+export function getSchemaValidation(): SchemaValidationMode {
+  return validationMode;
+}
+
+/**
+ * Subscribe to failed checks, in both the 'throw' and 'report' modes
+ * @returns A function removing the listener
+ */
+export function onSchemaViolation(listener: (error: SchemaValidationError) => void): () => void {
+  violationListeners.add(listener);
+  return () => violationListeners.delete(listener);
+}
+
+/**
+ * Check a value against a schema
+ * @returns The issues found; empty if the value is valid
+ */
+export function checkSchema(schema: ValueSchema, value: unknown): ReadonlyArray<SchemaIssue> {
+  const result = schema['~standard'].validate(value);
+  if (result instanceof Promise) {
+    throw new Error('Agent value schemas must validate synchronously');
+  }
+  return result.issues ?? [];
+}
+
+/**
+ * Declare the schema of an agent's values and check its current value
+ * @param mode Mode of the network creating the agent (default the global mode)
+ */
+export function attachSchema(
+  agent: IAgent,
+  schema: ValueSchema,
+  phase: SchemaValidationPhase = 'create',
+  mode?: SchemaValidationMode
+): void {
+  agentSchemas.set(agent, schema);
+  validateAgentValue(agent, phase, { mode });
+}
+
+export function getAgentSchema(agent: IAgent): ValueSchema | undefined {
+  return agentSchemas.get(agent);
+}
+
+/**
+ * Check an agent's value against its schema, if it has one
+ * @param value Value to check instead of the agent's current value
+ * @param mode Mode of the network checking the value (default the global mode)
+ * @returns Whether the value is valid; always true when validation is off
+ */
+export function validateAgentValue(
+  agent: IAgent,
+  phase: SchemaValidationPhase,
+  options: { rule?: string; value?: unknown; mode?: SchemaValidationMode } = {}
+): boolean {
+  const mode = options.mode ?? validationMode;
+  const schema = agentSchemas.get(agent);
+  if (!schema || mode === 'off') return true;
+
+  const value = 'value' in options ? options.value : agent.value;
+  const issues = checkSchema(schema, value);
+  if (issues.length === 0) return true;
+
+  const where = options.rule ? ` after rule ${options.rule}` : '';
+  const error = new SchemaValidationError(
+    `Invalid value for ${agent.name}${where}: ${issues.map(formatIssue).join('; ')}`,
+    agent.name, agent._agentId, value, issues, phase, options.rule
+  );
+  ErrorReporter.getInstance().reportError(error);
+  violationListeners.forEach(listener => listener(error));
+  if (mode === 'throw') throw error;
+  return false;
+}
+
+function formatIssue(issue: SchemaIssue): string {
+  const path = issue.path?.map(segment => String(typeof segment === 'object' ? segment.key : segment)).join('.');
+  return path ? `${path}: ${issue.message}` : issue.message;
+}
+
+// ========== Built-in Schemas ==========
+
+type Check = (value: unknown, path: PropertyKey[]) => SchemaIssue[];
+
+const define = <T>(check: Check): ValueSchema<T> & { check: Check } => ({
+  check,
+  '~standard': {
+    version: 1,
+    vendor: 'annette',
+    validate: value => {
+      const issues = check(value, []);
+      return issues.length > 0 ? { issues } : { value: value as T };
+    }
+  }
+});
+
+// Built-in schemas check nested values directly; other schemas go through validate
+const checkNested = (schema: ValueSchema, value: unknown, path: PropertyKey[]): SchemaIssue[] => {
+  if ('check' in schema) return (schema.check as Check)(value, path);
+  return checkSchema(schema, value).map(issue => ({ ...issue, path: [...path, ...(issue.path ?? [])] }));
+};
+
+const issue = (message: string, path: PropertyKey[]): SchemaIssue[] => [{ message, path }];
+
+const primitive = <T>(expected: 'string' | 'number' | 'boolean') =>
+  define<T>((value, path) =>
+    typeof value === expected && !Number.isNaN(value)
+      ? []
+      : issue(`expected ${expected}, got ${Number.isNaN(value) ? 'NaN' : value === null ? 'null' : typeof value}`, path));
+
+type Infer<S> = S extends ValueSchema<infer T> ? T : never;
+
+export const Schemas = {
+  string: () => primitive<string>('string'),
+  /** Any number except NaN */
+  number: () => primitive<number>('number'),
+  boolean: () => primitive<boolean>('boolean'),
+
+  literal: <T extends string | number | boolean | null>(...values: T[]) =>
+    define<T>((value, path) =>
+      values.includes(value as T) ? [] : issue(`expected one of ${values.map(item => JSON.stringify(item)).join(', ')}`, path)),
+
+  array: <T>(item: ValueSchema<T>) =>
+    define<T[]>((value, path) =>
+      Array.isArray(value)
+        ? value.flatMap((element, index) => checkNested(item, element, [...path, index]))
+        : issue('expected array', path)),
+
+  /** Plain object with the given properties; other properties are allowed */
+  object: <Shape extends Record<string, ValueSchema>>(shape: Shape) =>
+    define<{ [K in keyof Shape]: Infer<Shape[K]> }>((value, path) =>
+      typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? Object.entries(shape).flatMap(([key, schema]) =>
+            checkNested(schema, (value as Record<string, unknown>)[key], [...path, key]))
+        : issue('expected object', path)),
+
+  record: <T>(values: ValueSchema<T>) =>
+    define<Record<string, T>>((value, path) =>
+      typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? Object.entries(value).flatMap(([key, element]) => checkNested(values, element, [...path, key]))
+        : issue('expected object', path)),
+
+  optional: <T>(schema: ValueSchema<T>) =>
+    define<T | undefined>((value, path) => (value === undefined ? [] : checkNested(schema, value, path))),
+
+  nullable: <T>(schema: ValueSchema<T>) =>
+    define<T | null>((value, path) => (value === null ? [] : checkNested(schema, value, path))),
+
+  union: <S extends ValueSchema[]>(...schemas: S) =>
+    define<Infer<S[number]>>((value, path) =>
+      schemas.some(schema => checkNested(schema, value, path).length === 0) ? [] : issue('matched no alternative', path)),
+
+  /** Add a check to a schema, failing with the message when it returns false */
+  refine: <T>(schema: ValueSchema<T>, predicate: (value: T) => boolean, message: string) =>
+    define<T>((value, path) => {
+      const issues = checkNested(schema, value, path);
+      if (issues.length > 0) return issues;
+      return predicate(value as T) ? [] : issue(message, path);
+    }),
+
+  any: <T = unknown>() => define<T>(() => [])
+};
@@ -1,10 +1,15 @@
 import { Agent as BaseAgent, IAgent, AgentName, createAgentFactory, createAgentFactoryFrom, isAgent } from './agent';
-import { Network, INetwork } from './network';
+import { Network, INetwork, NetworkOptions, getRuleLookupKey } from './network';
+import { withIdGenerator } from './id-generator';
+import { attachSchema, ValueSchema } from './schema';
 import { ActionRule, ActionReturn, AnyRule, RuleCommand, Rule, RuleFactory } from './rule';
 import { Connection, IConnection } from './connection';
 import { IBoundPort, isBoundPort, Port, PortArray, PortsDefObj, PortsMap, PortFactory } from './port';
 import { registerSyncRules, collectSyncOperations, applyRemoteOperations, SyncAgent } from './sync';
 import { SerializationOptions, deserializeValue, serializeValue } from './serialization';
+import { PortConnectionError, RuleModuleError } from './errors';
+import { isPromiseLike } from './utils';
+import type { LoadedRuleModule, ModuleAgents, RuleModule, UseRuleModuleOptions } from './rule-module';
 
 export type PortsDefinition = PortArray | PortsDefObj | PortsMap;
 
@@ -13,7 +18,7 @@ export type RunMode = 'step' | 'reduce' | 'manual';
 export type ConnectionMethod<TAgent extends IAgent = IAgent, Args extends any[] = any[]> = (
   subject: TAgent,
   ...args: Args
-) => ActionReturn | void;
+) => ActionReturn | void | PromiseLike<ActionReturn | void>;
 
 export type MethodSpec<TAgent extends IAgent = IAgent, Args extends any[] = any[]> = {
   run?: RunMode;
@@ -94,6 +99,7 @@ export type AgentFactory<Name extends string = string, Value = any, Type extends
     __agentName: Name;
     __ports?: P;
     __type?: Type;
+    __schema?: ValueSchema<Value>;
   };
 
 export type AgentFactoryWithMethods<
@@ -113,6 +119,10 @@ export type RuleMetadata = {
   rightPort: string;
   outcome: string;
   symmetric: boolean;
+  /** Names of the neighbours a pattern rule matches besides the pair */
+  neighbours?: string[];
+  /** Name of the rule module that registered the rule */
+  module?: string;
 };
 
 export type RulesRegistry = {
@@ -139,6 +149,30 @@ export type RulesRegistry = {
     right: AgentFactory | IAgent
   ) => RuleMetadata | undefined;
   toMermaid: () => string;
+  /** Pairings of principal ports that agents can form but no rule handles */
+  coverage: () => RuleCoverage;
+};
+
+/**
+ * Two agents meeting on a pair of principal ports
+ */
+export type RulePairing = {
+  left: string;
+  leftPort: string;
+  right: string;
+  rightPort: string;
+};
+
+export type RuleCoverage = {
+  /** Agent names analysed: registered factories and agents created by rewrite rules */
+  agents: string[];
+  covered: RulePairing[];
+  missing: RulePairing[];
+};
+
+export type ScopedNetworkOptions = NetworkOptions & {
+  /** Make `connect()` throw when it would join principal ports that no rule handles */
+  strict?: boolean;
 };
 
 export type RuleBuilder<TLeft extends IAgent, TRight extends IAgent> = {
@@ -150,6 +184,41 @@ export type RuleBuilder<TLeft extends IAgent, TRight extends IAgent> = {
   spawn: (handler: RuleHandler<TLeft, TRight>) => RuleMetadata;
   transform: (handler: RuleHandler<TLeft, TRight>) => RuleMetadata;
   replace: (handler: RuleHandler<TLeft, TRight>) => RuleMetadata;
+  and: <NName extends string, NValue, NType extends string, NPorts extends PortsDefinition>(
+    neighbour: AgentFactory<NName, NValue, NType, NPorts> | IAgent<NName, NValue, NType, NPorts>,
+    spec: NeighbourSpec
+  ) => PatternRuleBuilder<[TLeft, TRight, IAgent<NName, NValue, NType, NPorts>]>;
+};
+
+/**
+ * Where a pattern expects an extra agent: connected to an auxiliary port of one side of the active pair
+ */
+export type NeighbourSpec = {
+  /** Agent of the active pair the neighbour hangs off (default 'left') */
+  side?: 'left' | 'right';
+  /** Port of that agent connected to the neighbour */
+  port: string;
+  /** Port of the neighbour on that connection (default its main port) */
+  via?: string;
+};
+
+/**
+ * Result of a pattern `replace` handler. `portMap` is keyed by role: `left`,
+ * `right`, or `side.port` for a neighbour (e.g. `left.arg`).
+ */
+export type PatternOutcome = {
+  agents: IAgent[];
+  portMap?: Record<string, ReplaceMapping>;
+};
+
+export type PatternRuleBuilder<TAgents extends IAgent[]> = {
+  and: <NName extends string, NValue, NType extends string, NPorts extends PortsDefinition>(
+    neighbour: AgentFactory<NName, NValue, NType, NPorts> | IAgent<NName, NValue, NType, NPorts>,
+    spec: NeighbourSpec
+  ) => PatternRuleBuilder<[...TAgents, IAgent<NName, NValue, NType, NPorts>]>;
+  where: (guard: (...agents: TAgents) => boolean) => PatternRuleBuilder<TAgents>;
+  mutate: (handler: (...agents: TAgents) => void | RuleCommand[]) => RuleMetadata;
+  replace: (handler: (...agents: TAgents) => PatternOutcome | IAgent | IAgent[]) => RuleMetadata;
 };
 
 export type StorylineStep =
@@ -158,6 +227,8 @@ export type StorylineStep =
       targetId: string;
       method: string;
       args: StorylineArg[];
+      /** Wait for the network's async actions to settle before the next step */
+      await?: boolean;
     }
   | {
       type: 'spawn';
@@ -165,8 +236,38 @@ export type StorylineStep =
       factoryName: string;
       value: any;
       ports?: PortsDefinition;
+    }
+  | {
+      type: 'branch';
+      name: string;
+      /** Steps of each alternative, by alternative name */
+      alternatives: Record<string, StorylineStep[]>;
+      /** Alternative taken when replay does not choose one (default the first) */
+      default?: string;
+    }
+  | {
+      type: 'when';
+      condition: StorylineCondition;
+      steps: StorylineStep[];
+      otherwise?: StorylineStep[];
     };
 
+/**
+ * Test of an agent's value when a storyline replays: the value, or the
+ * property at a dot-separated path of it, compared with `value`
+ */
+export type StorylineCondition = {
+  targetId: string;
+  path?: string;
+  op: 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'truthy' | 'falsy';
+  value?: any;
+};
+
+export type StorylineReplayOptions = {
+  /** Alternative to take for each branch, by branch name */
+  branches?: Record<string, string>;
+};
+
 export type StorylineArg =
   | { type: 'value'; value: any }
   | { type: 'ref'; id: string };
@@ -182,6 +283,20 @@ export type StorylineContext = {
     value: any,
     ports?: PortsDefinition
   ) => Generator<StorylineStep, StoryAgent, void>;
+  /** Record named alternatives, one of which is chosen when the storyline replays */
+  branch: (
+    name: string,
+    alternatives: Record<string, () => Generator<StorylineStep, any, any>>,
+    options?: { default?: string }
+  ) => Generator<StorylineStep, void, void>;
+  /** Record steps that replay only when the condition holds */
+  when: (
+    condition: Omit<StorylineCondition, 'targetId'> & { agent: StoryAgent },
+    steps: () => Generator<StorylineStep, any, any>,
+    otherwise?: () => Generator<StorylineStep, any, any>
+  ) => Generator<StorylineStep, void, void>;
+  /** Record method calls whose async actions settle before the next step */
+  await: <T>(steps: Generator<StorylineStep, T, void>) => Generator<StorylineStep, T, void>;
 };
 
 export type StoryAgent<Name extends string = string> = {
@@ -191,9 +306,11 @@ export type StoryAgent<Name extends string = string> = {
 
 export type StorylineDefinition<Name extends string = string> = {
   steps: StorylineStep[];
-  apply: (subject: IAgent) => IAgent;
-  replay: (subject: IAgent) => IAgent;
-  stepper: (subject: IAgent) => StorylineStepper;
+  apply: (subject: IAgent, options?: StorylineReplayOptions) => IAgent;
+  replay: (subject: IAgent, options?: StorylineReplayOptions) => IAgent;
+  /** Replay, awaiting the async steps; `apply` throws on them */
+  applyAsync: (subject: IAgent, options?: StorylineReplayOptions) => Promise<IAgent>;
+  stepper: (subject: IAgent, options?: StorylineReplayOptions) => StorylineStepper;
   serialize: (options?: StorylineSerializeOptions) => string;
   subjectName: Name;
   subjectId: string;
@@ -210,9 +327,21 @@ export type StorylineDeserialize = (
   options?: StorylineSerializeOptions
 ) => StorylineDefinition & { deserialize: StorylineDeserialize };
 
+/**
+ * Steps through a storyline. An index counts top-level steps: a branch or
+ * `when` step is one step, together with every step it chooses. The sync
+ * methods throw on awaited steps; the async ones await them.
+ */
 export type StorylineStepper = {
   next: () => IAgent;
   back: () => IAgent;
+  /** Replay the first `index` steps on the subject's starting value */
+  seek: (index: number) => IAgent;
+  nextAsync: () => Promise<IAgent>;
+  seekAsync: (index: number) => Promise<IAgent>;
+  /** Step a copy of the subject to the same index, choosing branches anew */
+  fork: (options?: StorylineReplayOptions) => StorylineStepper;
+  forkAsync: (options?: StorylineReplayOptions) => Promise<StorylineStepper>;
   current: IAgent;
   index: number;
 };
@@ -228,6 +357,29 @@ type RegisteredMethod = {
   rule?: AnyRule;
 };
 
+type PairAction = (left: IAgent, right: IAgent, net: INetwork) => ActionReturn;
+
+type RulePattern = {
+  name: string;
+  module?: string;
+  /** Agent name on the left of the rule, which may be registered the other way round from its pair */
+  left: string;
+  neighbours: Array<{ name: string; side: 'left' | 'right'; port: string; via: string }>;
+  guard?: (...agents: IAgent[]) => boolean;
+  run: (agents: IAgent[], net: INetwork) => ActionReturn;
+};
+
+// Rules registered on one pair of ports: patterns are tried first, the latest plain pair rule is the
+// fallback. Earlier plain rules are kept so unloading a rule module restores the one it replaced.
+type PairRules = {
+  leftPort: IBoundPort;
+  rightPort: IBoundPort;
+  patterns: RulePattern[];
+  fallbacks: Array<{ name: string; module?: string; action: PairAction }>;
+  /** Name of the network rule standing for the pair */
+  installed: string;
+};
+
 type ScopeMode = 'defer' | 'step' | 'reduce' | 'manual';
 
 type ScopeContext = {
@@ -267,6 +419,8 @@ export type ScopedNetwork = {
     methods: Methods,
     options?: WithConnectionsOptions
   ) => AgentFactoryWithMethods<Name, Value, Type, P, Methods>;
+  /** Methods registered for a factory's agents; pair methods take the other agent as their first argument */
+  methodsOf: (factory: AgentFactory) => Array<{ name: string; mode: 'self' | 'pair' }>;
   fnAgent: <
     SubjectName extends string,
     SubjectValue,
@@ -299,6 +453,9 @@ export type ScopedNetwork = {
     },
     options?: SyncOptions
   ) => { stop: () => void };
+  /** Load a rule module and the modules it depends on; loading a module again returns it as loaded */
+  use: <Agents extends ModuleAgents>(module: RuleModule<Agents>, options?: UseRuleModuleOptions) => LoadedRuleModule<Agents>;
+  modules: () => LoadedRuleModule[];
   step: () => boolean;
   reduce: (maxSteps?: number) => number;
 };
@@ -383,10 +540,10 @@ export const pair = <TLeft extends IAgent, TRight extends IAgent, Args extends a
 });
 
 function normalizeFactoryOptions<P extends PortsDefinition, T extends string>(
-  portsOrOptions?: P | { ports?: P; type?: T }
-): { ports?: P; type?: T } {
-  if (portsOrOptions && typeof portsOrOptions === 'object' && ('ports' in portsOrOptions || 'type' in portsOrOptions)) {
-    return portsOrOptions as { ports?: P; type?: T };
+  portsOrOptions?: P | { ports?: P; type?: T; schema?: ValueSchema }
+): { ports?: P; type?: T; schema?: ValueSchema } {
+  if (portsOrOptions && typeof portsOrOptions === 'object' && ('ports' in portsOrOptions || 'type' in portsOrOptions || 'schema' in portsOrOptions)) {
+    return portsOrOptions as { ports?: P; type?: T; schema?: ValueSchema };
   }
   return { ports: portsOrOptions as P | undefined };
 }
@@ -419,13 +576,21 @@ export const asNestedNetwork = (network: ScopedNetwork): NestedNetworkHelper =>
   reduce: (maxSteps?: number) => network.reduce(maxSteps)
 });
 
-export function createNetwork(name: string): ScopedNetwork {
-  const network = Network(name);
+export function createNetwork(name: string, options?: ScopedNetworkOptions): ScopedNetwork {
+  const network = Network(name, undefined, undefined, options);
   const methodRegistry = new Map<string, Map<string, RegisteredMethod>>();
   const factoryRegistry = new Map<string, AgentFactory>();
   const derivedRegistry = new Set<{ agent: IAgent; source: IAgent; compute: (agent: IAgent) => any }>();
   const scopeStack: ScopeContext[] = [];
   const ruleMetadata: RuleMetadata[] = [];
+  const pairRules = new Map<string, PairRules>();
+  const loadedModules = new Map<string, { module: RuleModule<any>; loaded: LoadedRuleModule }>();
+  // Module whose rules are being registered, recorded on their metadata
+  let loadingModule: string | undefined;
+
+  // Agents of the network take their ids from its generator, when it has one
+  const createAgent = ((...args: Parameters<typeof BaseAgent>) =>
+    options?.ids ? withIdGenerator(options.ids, () => BaseAgent(...args)) : BaseAgent(...args)) as typeof BaseAgent;
 
   const updateDerived = () => {
     for (const entry of derivedRegistry) {
@@ -640,7 +805,7 @@ export function createNetwork(name: string): ScopedNetwork {
               network.connectPorts(leftPort, rightPort);
             }
           } else {
-            const opAgent = BaseAgent(definition.opName as AgentName, { args });
+            const opAgent = createAgent(definition.opName as AgentName, { args });
             if (isTrackingEnabled()) {
               network.addAgent(opAgent);
             }
@@ -683,9 +848,199 @@ export function createNetwork(name: string): ScopedNetwork {
   };
 
   const registerRuleMetadata = (metadata: RuleMetadata) => {
+    if (loadingModule) {
+      metadata.module = loadingModule;
+    }
     ruleMetadata.push(metadata);
   };
 
+  // Canonical like the network's rule keys, so when(A, B) and when(B, A) share an entry
+  const pairKey = (leftPort: IBoundPort, rightPort: IBoundPort) =>
+    getRuleLookupKey(leftPort.agent.name, leftPort.name, rightPort.agent.name, rightPort.name);
+
+  const peerOf = (net: INetwork, port: IBoundPort) => net.getConnectedPort?.(port);
+
+  const matchNeighbours = (net: INetwork, left: IAgent, right: IAgent, pattern: RulePattern) => {
+    const matched = [left, right];
+    for (const neighbour of pattern.neighbours) {
+      const port = (neighbour.side === 'left' ? left : right).ports[neighbour.port];
+      const peer = port && peerOf(net, port);
+      if (!peer || peer.agent.name !== neighbour.name || peer.name !== neighbour.via || matched.includes(peer.agent)) {
+        return undefined;
+      }
+      matched.push(peer.agent);
+    }
+    return matched;
+  };
+
+  const dispatchPair = (entry: PairRules, first: IAgent, second: IAgent, net: INetwork): ActionReturn => {
+    for (const pattern of entry.patterns) {
+      // Actions receive the pair in connection order, patterns in rule order
+      const [left, right] = first.name === pattern.left ? [first, second] : [second, first];
+      const agents = matchNeighbours(net, left, right, pattern);
+      if (agents && (!pattern.guard || pattern.guard(...agents))) {
+        return pattern.run(agents, net);
+      }
+    }
+    return entry.fallbacks[entry.fallbacks.length - 1]?.action(first, second, net);
+  };
+
+  // The network rule of a pair dispatches to its patterns while it has any
+  const installPair = (entry: PairRules) => {
+    const [pattern] = entry.patterns;
+    const fallback = entry.fallbacks[entry.fallbacks.length - 1];
+    if (pattern) {
+      const dispatch: PairAction = (first, second, net) => dispatchPair(entry, first, second, net);
+      network.addRule(ActionRule(entry.leftPort, entry.rightPort, dispatch, pattern.name), { onConflict: 'replace' });
+      entry.installed = pattern.name;
+    } else if (fallback) {
+      network.addRule(ActionRule(entry.leftPort, entry.rightPort, fallback.action, fallback.name));
+      entry.installed = fallback.name;
+    }
+  };
+
+  // A plain pair rule registered on the ports of a pattern becomes its fallback
+  const addPairRule = (leftPort: IBoundPort, rightPort: IBoundPort, action: PairAction, ruleName: string) => {
+    const key = pairKey(leftPort, rightPort);
+    const entry = pairRules.get(key) ?? { leftPort, rightPort, patterns: [], fallbacks: [], installed: ruleName };
+    entry.fallbacks.push({ name: ruleName, module: loadingModule, action });
+    pairRules.set(key, entry);
+    if (entry.patterns.length === 0) {
+      installPair(entry);
+    }
+  };
+
+  const addPatternRule = (leftPort: IBoundPort, rightPort: IBoundPort, pattern: Omit<RulePattern, 'left'>) => {
+    const key = pairKey(leftPort, rightPort);
+    const entry = pairRules.get(key) ?? { leftPort, rightPort, patterns: [], fallbacks: [], installed: pattern.name };
+    const installed = entry.patterns.length > 0;
+    entry.patterns.push({ ...pattern, left: leftPort.agent.name, module: loadingModule });
+    // Patterns with more neighbours are more specific, so they are tried first
+    entry.patterns.sort((a, b) => b.neighbours.length - a.neighbours.length);
+    pairRules.set(key, entry);
+
+    if (!installed) {
+      installPair(entry);
+    }
+  };
+
+  const removeModulePairRules = (moduleName: string) => {
+    for (const [key, entry] of pairRules) {
+      const patterns = entry.patterns.filter((pattern) => pattern.module !== moduleName);
+      const fallbacks = entry.fallbacks.filter((fallback) => fallback.module !== moduleName);
+      if (patterns.length === entry.patterns.length && fallbacks.length === entry.fallbacks.length) continue;
+
+      network.removeRule(entry.installed);
+      entry.patterns = patterns;
+      entry.fallbacks = fallbacks;
+      if (patterns.length > 0 || fallbacks.length > 0) {
+        installPair(entry);
+      } else {
+        pairRules.delete(key);
+      }
+    }
+  };
+
+  // Connections from the matched agents to the rest of the network are the free ports of the
+  // pattern; each goes where portMap says, or else to the first replacement with a free port
+  // of the same name
+  const replaceMatch = (agents: IAgent[], roles: string[], outcome: PatternOutcome, net: INetwork) => {
+    const taken = new Set<IBoundPort>();
+    const freePort = (portName: string) =>
+      outcome.agents
+        .map((agent) => agent.ports[portName])
+        .find((port) => port && !taken.has(port) && !peerOf(net, port));
+
+    agents.forEach((agent, index) => {
+      const mapping = outcome.portMap?.[roles[index]];
+      for (const [portName, port] of Object.entries(agent.ports)) {
+        const peer = peerOf(net, port);
+        if (!peer || agents.includes(peer.agent)) continue;
+
+        net.disconnectPorts(port, peer);
+        const mapped = mapping?.[portName];
+        const target = mapping && portName in mapping ? mapped && mapped.agent.ports[mapped.port] : freePort(portName);
+        if (target) {
+          taken.add(target);
+          net.connectPorts(target, peer);
+        }
+      }
+    });
+
+    return toRuleCommands({ destroy: agents, spawn: outcome.agents });
+  };
+
+  const createPatternBuilder = (
+    leftInfo: ReturnType<typeof resolveAgentInfo>,
+    rightInfo: ReturnType<typeof resolveAgentInfo>,
+    leftPortName: string,
+    rightPortName: string,
+    pairGuard?: (left: IAgent, right: IAgent) => boolean
+  ) => {
+    const neighbours: RulePattern['neighbours'] = [];
+    let guard = pairGuard as RulePattern['guard'];
+
+    const register = (outcomeLabel: string, run: RulePattern['run']) => {
+      const names = neighbours.map((neighbour) => neighbour.name);
+      const ruleName = `${leftInfo.name}.${leftPortName}-to-${rightInfo.name}.${rightPortName}+${names.join('+')}:${outcomeLabel}`;
+      const leftPort = leftInfo.template.ports[leftPortName];
+      const rightPort = rightInfo.template.ports[rightPortName];
+
+      if (!leftPort || !rightPort) {
+        throw new Error(`Invalid ports for rule ${ruleName}`);
+      }
+
+      addPatternRule(leftPort, rightPort, { name: ruleName, neighbours: [...neighbours], guard, run });
+      const metadata: RuleMetadata = {
+        name: ruleName,
+        left: leftInfo.name,
+        right: rightInfo.name,
+        leftPort: leftPortName,
+        rightPort: rightPortName,
+        outcome: outcomeLabel,
+        symmetric: false,
+        neighbours: names
+      };
+
+      registerRuleMetadata(metadata);
+      return metadata;
+    };
+
+    const builder: PatternRuleBuilder<IAgent[]> = {
+      and: (neighbour, spec) => {
+        const info = resolveAgentInfo(neighbour);
+        const side = spec.side ?? 'left';
+        const owner = side === 'left' ? leftInfo : rightInfo;
+        const via = spec.via ?? getDefaultPortName(info.ports);
+
+        if (!owner.ports[spec.port] || !info.ports[via]) {
+          throw new Error(`Invalid ports for neighbour ${info.name}.${via} on ${owner.name}.${spec.port}`);
+        }
+
+        neighbours.push({ name: info.name, side, port: spec.port, via });
+        return builder as PatternRuleBuilder<any>;
+      },
+      where: (guardFn) => {
+        guard = guardFn;
+        return builder;
+      },
+      mutate: (handler) =>
+        register('mutate', (agents) => {
+          const result = handler(...agents);
+          return Array.isArray(result) ? result : undefined;
+        }),
+      replace: (handler) =>
+        register('replace', (agents, net) => {
+          const result = handler(...agents);
+          const outcome = isAgent(result) ? { agents: [result] } : Array.isArray(result) ? { agents: result } : result;
+          const roles = ['left', 'right', ...neighbours.map((neighbour) => `${neighbour.side}.${neighbour.port}`)];
+          return replaceMatch(agents, roles, outcome, net);
+        })
+    };
+
+    return builder;
+  };
+
   const registerActionRule = (
     leftInfo: ReturnType<typeof resolveAgentInfo>,
     rightInfo: ReturnType<typeof resolveAgentInfo>,
@@ -720,8 +1075,7 @@ export function createNetwork(name: string): ScopedNetwork {
       throw new Error(`Invalid ports for rule ${ruleName}`);
     }
 
-    const rule = ActionRule(leftPort, rightPort, action, ruleName);
-    network.addRule(rule);
+    addPairRule(leftPort, rightPort, action, ruleName);
     const metadata: RuleMetadata = {
       name: ruleName,
       left: leftInfo.name,
@@ -830,8 +1184,7 @@ export function createNetwork(name: string): ScopedNetwork {
       throw new Error(`Invalid ports for rule ${ruleName}`);
     }
 
-    const rule = ActionRule(leftPort, rightPort, action, ruleName);
-    network.addRule(rule);
+    addPairRule(leftPort, rightPort, action, ruleName);
     const metadata: RuleMetadata = {
       name: ruleName,
       left: leftInfo.name,
@@ -861,6 +1214,49 @@ export function createNetwork(name: string): ScopedNetwork {
     return metadata;
   };
 
+  // Resolved the way a live pair is, so glob, type and predicate patterns count
+  const hasRuleFor = (port1: IBoundPort, port2: IBoundPort) => {
+    try {
+      return network.findRuleFor?.(port1, port2) !== undefined;
+    } catch {
+      // A predicate that cannot judge a template agent covers nothing
+      return false;
+    }
+  };
+
+  const coverage = (): RuleCoverage => {
+    const principalPorts = new Map<string, IBoundPort[]>();
+    for (const [agentName, factory] of factoryRegistry) {
+      const ports = Object.values(resolveAgentInfo(factory).ports);
+      principalPorts.set(agentName, ports.filter((port) => port.type === 'main'));
+    }
+    // Agents created by rewrites have the default ports unless a factory declares theirs
+    for (const rule of network.getAllRules()) {
+      if (rule.type !== 'rewrite' || rule.rewrite._isDeferredFn) continue;
+      for (const definition of rule.rewrite.newAgents) {
+        if (!principalPorts.has(definition.name)) {
+          principalPorts.set(definition.name, [BaseAgent(definition.name as AgentName, null).ports.main]);
+        }
+      }
+    }
+
+    const agents = [...principalPorts.keys()].sort();
+    const covered: RulePairing[] = [];
+    const missing: RulePairing[] = [];
+    agents.forEach((left, index) => {
+      for (const right of agents.slice(index)) {
+        for (const leftPort of principalPorts.get(left)!) {
+          for (const rightPort of principalPorts.get(right)!) {
+            const pairing = { left, leftPort: leftPort.name, right, rightPort: rightPort.name };
+            (hasRuleFor(leftPort, rightPort) ? covered : missing).push(pairing);
+          }
+        }
+      }
+    });
+
+    return { agents, covered, missing };
+  };
+
   const rules: RulesRegistry = {
     when: (left, right) => {
       const leftInfo = resolveAgentInfo(left);
@@ -906,7 +1302,9 @@ export function createNetwork(name: string): ScopedNetwork {
         replace: (handler) => {
           const wrapped = guard ? when(guard, handler) : handler;
           return registerReplaceRule(leftInfo, rightInfo, leftPort, rightPort, wrapped as unknown as RuleHandler, symmetric);
-        }
+        },
+        and: (neighbour, spec) =>
+          createPatternBuilder(leftInfo, rightInfo, leftPort, rightPort, guard).and(neighbour, spec) as PatternRuleBuilder<any>
       };
 
       return builder as RuleBuilder<any, any>;
@@ -927,18 +1325,21 @@ export function createNetwork(name: string): ScopedNetwork {
     },
     toMermaid: () => {
       const lines = ruleMetadata.map(
-        (rule) => `  ${rule.left} -->|${rule.outcome}| ${rule.right}`
+        (rule) => `  ${rule.left} -->|${[rule.outcome, ...(rule.neighbours ?? [])].join(' + ')}| ${rule.right}`
       );
       return `graph LR\n${lines.join('\n')}`;
-    }
+    },
+    coverage
   };
 
   const ensureFactory = <N extends string, V, T extends string, P extends PortsDefinition>(
     name: N,
-    options?: { ports?: P; type?: T }
+    options?: { ports?: P; type?: T; schema?: ValueSchema<V> }
   ) => {
+    if (options?.schema) network.registerSchema?.(name, options.schema);
     const factory = ((value: V, portsOverride?: P) => {
-      const agent = BaseAgent(name, value, portsOverride ?? options?.ports, options?.type);
+      const agent = createAgent(name, value, portsOverride ?? options?.ports, options?.type);
+      if (options?.schema) attachSchema(agent, options.schema, 'create', network.getSchemaValidation?.());
       if (isTrackingEnabled()) {
         network.addAgent(agent);
       }
@@ -952,6 +1353,7 @@ export function createNetwork(name: string): ScopedNetwork {
     factory.__agentName = name;
     factory.__ports = options?.ports;
     factory.__type = options?.type;
+    factory.__schema = options?.schema;
 
     factoryRegistry.set(name, factory as AgentFactory);
     return factory;
@@ -964,7 +1366,7 @@ export function createNetwork(name: string): ScopedNetwork {
       ports?: P,
       type?: T
     ) => {
-      const agent = BaseAgent(name, value, ports, type);
+      const agent = createAgent(name, value, ports, type);
       network.addAgent(agent);
       attachMethods(agent);
       return agent;
@@ -972,7 +1374,7 @@ export function createNetwork(name: string): ScopedNetwork {
     {
       factory: <V, N extends string, T extends string = string, P extends PortsDefinition = PortsDefinition>(
         name: N,
-        portsOrOptions?: P | { ports?: P; type?: T }
+        portsOrOptions?: P | { ports?: P; type?: T; schema?: ValueSchema<V> }
       ) => {
         const options = normalizeFactoryOptions<P, T>(portsOrOptions);
         return ensureFactory<N, V, T, P>(name, options);
@@ -1064,14 +1466,19 @@ export function createNetwork(name: string): ScopedNetwork {
           return [{ type: 'remove', entity: op }];
         }
 
-        const result = wrapped.handler(subject, op, ...args);
-        if (Array.isArray(result)) {
-          return [...result, { type: 'remove', entity: op }];
-        }
+        const finish = (result: unknown): ActionReturn => {
+          if (Array.isArray(result)) {
+            return [...result, { type: 'remove', entity: op }];
+          }
 
-        const outcome = resolveOutcome(subject, op, wrapped as NormalizedHandler<IAgent, IAgent>, result);
-        const commands = toRuleCommands(outcome);
-        return [...commands, { type: 'remove', entity: op }];
+          const outcome = resolveOutcome(subject, op, wrapped as NormalizedHandler<IAgent, IAgent>, result);
+          const commands = toRuleCommands(outcome);
+          return [...commands, { type: 'remove', entity: op }];
+        };
+
+        // Async methods run as async actions, settling with reduceAsync
+        const result: unknown = wrapped.handler(subject, op, ...args);
+        return isPromiseLike(result) ? Promise.resolve(result).then(finish) : finish(result);
       });
 
       network.addRule(definition.rule);
@@ -1093,13 +1500,21 @@ export function createNetwork(name: string): ScopedNetwork {
     if (!isTrackingEnabled()) {
       return undefined;
     }
-    if (isBoundPort(source) && isBoundPort(destination)) {
-      return network.connectPorts(source, destination, name);
+    if (isBoundPort(source) !== isBoundPort(destination)) {
+      throw new Error('connect requires either two agents or two bound ports');
     }
-    if (!isBoundPort(source) && !isBoundPort(destination)) {
-      return network.connectPorts(source.ports.main, destination.ports.main, name);
+
+    const sourcePort = isBoundPort(source) ? source : source.ports.main;
+    const destinationPort = isBoundPort(destination) ? destination : destination.ports.main;
+    // A principal pair without a rule would never reduce
+    if (options?.strict && sourcePort && destinationPort && sourcePort.type === 'main' && destinationPort.type === 'main'
+      && !hasRuleFor(sourcePort, destinationPort)) {
+      throw new PortConnectionError(
+        `No rule handles ${sourcePort.agent.name}.${sourcePort.name} meeting ${destinationPort.agent.name}.${destinationPort.name}`,
+        sourcePort.agent, sourcePort, destinationPort.agent, destinationPort, 'no-rule'
+      );
     }
-    throw new Error('connect requires either two agents or two bound ports');
+    return network.connectPorts(sourcePort, destinationPort, name);
   };
 
   const fnAgent: ScopedNetwork['fnAgent'] = (
@@ -1175,13 +1590,16 @@ export function createNetwork(name: string): ScopedNetwork {
     const derivedName = `Derived:${factory.__agentName}`;
 
     return (source: IAgent<N, V, T, P>) => {
-      const agent = BaseAgent(derivedName, compute(source));
+      const agent = createAgent(derivedName, compute(source));
       network.addAgent(agent);
       derivedRegistry.add({ agent, source, compute: compute as (agent: IAgent) => any });
       return agent;
     };
   };
 
+  const methodsOf = (factory: AgentFactory) =>
+    [...(methodRegistry.get(factory.__agentName)?.values() ?? [])].map(({ name, mode }) => ({ name, mode }));
+
   const createStoryAgent = <N extends string>(
     factory: AgentFactory<N, any, string, PortsDefinition>,
     id: string
@@ -1224,9 +1642,14 @@ export function createNetwork(name: string): ScopedNetwork {
       steps: payload.steps,
       subjectName: payload.subjectName,
       subjectId: payload.subjectId,
-      apply: (subject: IAgent) => applyStory(payload.subjectId, story.steps, subject),
-      replay: (subject: IAgent) => applyStory(payload.subjectId, story.steps, subject),
-      stepper: (subject: IAgent) => createStepper(payload.subjectId, story.steps, subject),
+      apply: (subject: IAgent, options?: StorylineReplayOptions) => applyStory(payload.subjectId, story.steps, subject, options),
+      replay: (subject: IAgent, options?: StorylineReplayOptions) => applyStory(payload.subjectId, story.steps, subject, options),
+      applyAsync: async (subject: IAgent, options?: StorylineReplayOptions) => {
+        await runStoryStepsAsync(story.steps, new Map([[payload.subjectId, subject]]), options ?? {});
+        return subject;
+      },
+      stepper: (subject: IAgent, options?: StorylineReplayOptions) =>
+        createStepper(payload.subjectId, story.steps, subject, options ?? {}),
       serialize: (options?: StorylineSerializeOptions) => {
         const format = options?.format ?? 'seroval';
         const data: StorylinePayload = { subjectName: payload.subjectName, subjectId: payload.subjectId, steps: payload.steps };
@@ -1240,11 +1663,22 @@ export function createNetwork(name: string): ScopedNetwork {
     return Object.assign(story, { deserialize: storylineDeserialize });
   };
 
+  const recordStorySteps = (iterator: Generator<StorylineStep, any, any>) => {
+    const steps: StorylineStep[] = [];
+    let result = iterator.next();
+    while (!result.done) {
+      if (result.value) {
+        steps.push(result.value as StorylineStep);
+      }
+      result = iterator.next();
+    }
+    return steps;
+  };
+
   const storyline = (
     factory: AgentFactory,
     generator: (subject: StoryAgent, ctx: StorylineContext) => Generator<StorylineStep, any, any>
   ) => {
-    const steps: StorylineStep[] = [];
     const subjectId = nextStoryId();
 
     const ctx: StorylineContext = {
@@ -1260,82 +1694,192 @@ export function createNetwork(name: string): ScopedNetwork {
         yield step;
         const agent = createStoryAgent(spawnFactory as AgentFactory<string, any, string, PortsDefinition>, id);
         return agent;
+      },
+      branch: function* (name, alternatives, options) {
+        const recorded = Object.entries(alternatives).map(([alternative, steps]) => [alternative, recordStorySteps(steps())]);
+        yield { type: 'branch', name, alternatives: Object.fromEntries(recorded), default: options?.default };
+      },
+      when: function* ({ agent, ...condition }, steps, otherwise) {
+        yield {
+          type: 'when',
+          condition: { ...condition, targetId: agent.__storyId },
+          steps: recordStorySteps(steps()),
+          otherwise: otherwise && recordStorySteps(otherwise())
+        };
+      },
+      await: function* (steps) {
+        let result = steps.next();
+        while (!result.done) {
+          yield result.value.type === 'method' ? { ...result.value, await: true } : result.value;
+          result = steps.next();
+        }
+        return result.value;
       }
     };
 
     const subject = createStoryAgent(factory as AgentFactory<string, any, string, PortsDefinition>, subjectId);
-    const iterator = generator(subject, ctx);
-
-    let result = iterator.next();
-    while (!result.done) {
-      if (result.value) {
-        steps.push(result.value as StorylineStep);
-      }
-      result = iterator.next();
-    }
+    const steps = recordStorySteps(generator(subject, ctx));
 
     return createStorylineFromPayload({ subjectName: factory.__agentName, subjectId, steps }) as StorylineDefinition & {
       deserialize: typeof storylineDeserialize;
     };
   };
 
-  const applyStory = (subjectId: string, steps: StorylineStep[], subject: IAgent) => {
-    const agentMap = new Map<string, IAgent>();
-    agentMap.set(subjectId, subject);
+  const testStoryCondition = (condition: StorylineCondition, agentMap: Map<string, IAgent>) => {
+    const target = agentMap.get(condition.targetId);
+    if (!target) {
+      throw new Error(`Storyline target ${condition.targetId} not found`);
+    }
+    const actual = (condition.path ? condition.path.split('.') : []).reduce((value, key) => value?.[key], target.value);
+
+    switch (condition.op) {
+      case 'eq': return actual === condition.value;
+      case 'ne': return actual !== condition.value;
+      case 'gt': return actual > condition.value;
+      case 'gte': return actual >= condition.value;
+      case 'lt': return actual < condition.value;
+      case 'lte': return actual <= condition.value;
+      case 'truthy': return Boolean(actual);
+      case 'falsy': return !actual;
+    }
+  };
+
+  // Steps a branch or conditional step stands for on this replay
+  const chooseStorySteps = (
+    step: Extract<StorylineStep, { type: 'branch' | 'when' }>,
+    agentMap: Map<string, IAgent>,
+    options: StorylineReplayOptions
+  ): StorylineStep[] => {
+    if (step.type === 'when') {
+      return testStoryCondition(step.condition, agentMap) ? step.steps : step.otherwise ?? [];
+    }
 
+    const alternative = options.branches?.[step.name] ?? step.default ?? Object.keys(step.alternatives)[0];
+    const steps = step.alternatives[alternative];
+    if (!steps) {
+      throw new Error(`Storyline branch ${step.name} has no alternative ${alternative}`);
+    }
+    return steps;
+  };
+
+  const runStoryStep = (step: Extract<StorylineStep, { type: 'method' | 'spawn' }>, agentMap: Map<string, IAgent>) => {
+    if (step.type === 'spawn') {
+      const factory = factoryRegistry.get(step.factoryName);
+      if (!factory) {
+        throw new Error(`Unknown factory ${step.factoryName} in storyline`);
+      }
+      const agent = factory(step.value, step.ports as any);
+      agentMap.set(step.id, agent);
+      return;
+    }
+
+    const target = agentMap.get(step.targetId);
+    if (!target) {
+      throw new Error(`Storyline target ${step.targetId} not found`);
+    }
+    const method = (target as any)[step.method];
+    if (typeof method !== 'function') {
+      throw new Error(`Method ${step.method} is not defined on agent ${target.name}`);
+    }
+    const args = step.args.map((arg) => resolveStoryArg(arg, agentMap));
+    method(...args);
+  };
+
+  const runStorySteps = (steps: StorylineStep[], agentMap: Map<string, IAgent>, options: StorylineReplayOptions) => {
     for (const step of steps) {
-      if (step.type === 'spawn') {
-        const factory = factoryRegistry.get(step.factoryName);
-        if (!factory) {
-          throw new Error(`Unknown factory ${step.factoryName} in storyline`);
-        }
-        const agent = factory(step.value, step.ports as any);
-        agentMap.set(step.id, agent);
+      if (step.type === 'branch' || step.type === 'when') {
+        runStorySteps(chooseStorySteps(step, agentMap, options), agentMap, options);
         continue;
       }
+      if (step.type === 'method' && step.await) {
+        throw new Error(`Storyline step ${step.method} is async; replay it with applyAsync`);
+      }
+      runStoryStep(step, agentMap);
+    }
+  };
 
-      if (step.type === 'method') {
-        const target = agentMap.get(step.targetId);
-        if (!target) {
-          throw new Error(`Storyline target ${step.targetId} not found`);
-        }
-        const method = (target as any)[step.method];
-        if (typeof method !== 'function') {
-          throw new Error(`Method ${step.method} is not defined on agent ${target.name}`);
-        }
-        const args = step.args.map((arg) => resolveStoryArg(arg, agentMap));
-        method(...args);
+  const runStoryStepsAsync = async (steps: StorylineStep[], agentMap: Map<string, IAgent>, options: StorylineReplayOptions) => {
+    for (const step of steps) {
+      if (step.type === 'branch' || step.type === 'when') {
+        await runStoryStepsAsync(chooseStorySteps(step, agentMap, options), agentMap, options);
+        continue;
+      }
+      runStoryStep(step, agentMap);
+      if (step.type === 'method' && step.await) {
+        await network.reduceAsync?.();
       }
     }
+  };
 
+  const applyStory = (subjectId: string, steps: StorylineStep[], subject: IAgent, options: StorylineReplayOptions = {}) => {
+    runStorySteps(steps, new Map([[subjectId, subject]]), options);
     return subject;
   };
 
-  const createStepper = (subjectId: string, steps: StorylineStep[], subject: IAgent): StorylineStepper => {
-    const baseValue = serializeValue(subject.value);
+  const createStepper = (
+    subjectId: string,
+    steps: StorylineStep[],
+    subject: IAgent,
+    options: StorylineReplayOptions,
+    baseValue = serializeValue(subject.value)
+  ): StorylineStepper => {
+    // Agents spawned by earlier steps stay referable by later ones
+    let agentMap = new Map<string, IAgent>([[subjectId, subject]]);
     let index = 0;
 
-    const reset = () => {
-      subject.value = deserializeValue(baseValue);
+    // Going back replays from the starting value
+    const rewind = (target: number) => {
+      const clamped = Math.max(0, Math.min(target, steps.length));
+      if (clamped < index) {
+        subject.value = deserializeValue(baseValue);
+        agentMap = new Map([[subjectId, subject]]);
+        index = 0;
+      }
+      return clamped;
+    };
+
+    const arrive = (target: number) => {
+      index = target;
+      stepper.index = index;
+      return subject;
+    };
+
+    const seek = (target: number) => {
+      const clamped = rewind(target);
+      runStorySteps(steps.slice(index, clamped), agentMap, options);
+      return arrive(clamped);
+    };
+
+    const seekAsync = async (target: number) => {
+      const clamped = rewind(target);
+      await runStoryStepsAsync(steps.slice(index, clamped), agentMap, options);
+      return arrive(clamped);
+    };
+
+    const createFork = (forkOptions?: StorylineReplayOptions) => {
+      const factory = factoryRegistry.get(subject.name);
+      if (!factory) {
+        throw new Error(`Unknown factory ${subject.name} in storyline`);
+      }
+      const copy = factory(deserializeValue(baseValue));
+      return createStepper(subjectId, steps, copy, { branches: { ...options.branches, ...forkOptions?.branches } }, baseValue);
     };
 
     const stepper: StorylineStepper = {
-      next: () => {
-        if (index < steps.length) {
-          applyStory(subjectId, [steps[index]], subject);
-          index += 1;
-        }
-        stepper.index = index;
-        return subject;
+      next: () => seek(index + 1),
+      back: () => seek(index - 1),
+      seek,
+      nextAsync: () => seekAsync(index + 1),
+      seekAsync,
+      fork: (forkOptions) => {
+        const forked = createFork(forkOptions);
+        forked.seek(index);
+        return forked;
       },
-      back: () => {
-        if (index > 0) {
-          index -= 1;
-          reset();
-          applyStory(subjectId, steps.slice(0, index), subject);
-        }
-        stepper.index = index;
-        return subject;
+      forkAsync: async (forkOptions) => {
+        const forked = createFork(forkOptions);
+        await forked.seekAsync(index);
+        return forked;
       },
       current: subject,
       index
@@ -1386,6 +1930,119 @@ export function createNetwork(name: string): ScopedNetwork {
     };
   };
 
+  // Registries a module load writes to, so a load that throws can put them back
+  const captureModuleState = () => ({
+    factories: new Map(factoryRegistry),
+    pairs: [...pairRules].map(([key, entry]) => ({
+      key,
+      entry,
+      copy: { ...entry, patterns: [...entry.patterns], fallbacks: [...entry.fallbacks] }
+    })),
+    rules: ruleMetadata.length,
+    modules: new Map(loadedModules)
+  });
+
+  const restoreModuleState = (saved: ReturnType<typeof captureModuleState>) => {
+    factoryRegistry.clear();
+    saved.factories.forEach((factory, name) => factoryRegistry.set(name, factory));
+    pairRules.clear();
+    for (const { key, entry, copy } of saved.pairs) {
+      pairRules.set(key, Object.assign(entry, copy));
+    }
+    ruleMetadata.splice(saved.rules);
+    loadedModules.clear();
+    saved.modules.forEach((entry, name) => loadedModules.set(name, entry));
+  };
+
+  // A module that throws while loading leaves no factories, rules or metadata behind;
+  // the network's transaction undoes the rules it installed
+  const use = <Agents extends ModuleAgents>(
+    module: RuleModule<Agents>,
+    options?: UseRuleModuleOptions
+  ): LoadedRuleModule<Agents> => {
+    const saved = captureModuleState();
+    const load = () => loadModule(module, options);
+    try {
+      return network.transaction ? network.transaction(load) : load();
+    } catch (error) {
+      restoreModuleState(saved);
+      throw error;
+    }
+  };
+
+  const loadModule = <Agents extends ModuleAgents>(
+    module: RuleModule<Agents>,
+    options?: UseRuleModuleOptions
+  ): LoadedRuleModule<Agents> => {
+    const existing = loadedModules.get(module.name);
+    if (existing) {
+      if (existing.module !== module) {
+        throw new RuleModuleError(`Another rule module named ${module.name} is already loaded`, 'duplicate', module.name);
+      }
+      return existing.loaded as LoadedRuleModule<Agents>;
+    }
+
+    const dependencies = Object.fromEntries(
+      (module.dependsOn ?? []).map((dependency) => [dependency.name, use(dependency).agents])
+    );
+    const namespace = options?.namespace === false ? undefined : options?.namespace ?? module.name;
+    const moduleAgent = {
+      factory: ((agentName: string, portsOrOptions?: any) =>
+        scopedAgent.factory(namespace ? `${namespace}/${agentName}` : agentName, portsOrOptions)) as typeof createAgentFactory
+    };
+    const agents = module.agents?.(moduleAgent) ?? ({} as Agents);
+
+    const firstRule = ruleMetadata.length;
+    loadingModule = module.name;
+    try {
+      module.rules?.(rules, agents, dependencies);
+    } finally {
+      loadingModule = undefined;
+    }
+
+    const loaded: LoadedRuleModule<Agents> = {
+      name: module.name,
+      version: module.version,
+      namespace,
+      agents,
+      rules: ruleMetadata.slice(firstRule),
+      unload: () => unload(module.name)
+    };
+    loadedModules.set(module.name, { module, loaded });
+    return loaded;
+  };
+
+  const unload = (moduleName: string) => {
+    const entry = loadedModules.get(moduleName);
+    if (!entry) return;
+
+    const dependent = [...loadedModules.values()].find((other) => other.module.dependsOn?.includes(entry.module));
+    if (dependent) {
+      throw new RuleModuleError(`Rule module ${moduleName} is used by ${dependent.module.name}`, 'in-use', moduleName);
+    }
+
+    // Agents of the module, and agents its rules apply to, depend on it
+    const names = new Set(Object.values(entry.loaded.agents).map((factory) => factory.__agentName as string));
+    for (const rule of entry.loaded.rules) {
+      [rule.left, rule.right, ...(rule.neighbours ?? [])].forEach((name) => names.add(name));
+    }
+    const live = network.getAllAgents().find((agent) => names.has(agent.name));
+    if (live) {
+      throw new RuleModuleError(`Rule module ${moduleName} is in use by ${live.name} ${live._agentId}`, 'in-use', moduleName);
+    }
+
+    removeModulePairRules(moduleName);
+    for (const rule of entry.loaded.rules) {
+      if (rule.symmetric) network.removeRule(rule.name);
+    }
+    const kept = ruleMetadata.filter((rule) => rule.module !== moduleName);
+    ruleMetadata.splice(0, ruleMetadata.length, ...kept);
+    for (const factory of Object.values(entry.loaded.agents)) {
+      factoryRegistry.delete(factory.__agentName);
+    }
+    loadedModules.delete(moduleName);
+  };
+
   const scopedNetwork: ScopedNetwork = {
     network,
     Agent: Object.assign(scopedAgent, { factoryFrom: createAgentFactoryFrom }) as ScopedNetwork['Agent'],
@@ -1394,6 +2051,7 @@ export function createNetwork(name: string): ScopedNetwork {
     Connection,
     rules,
     withConnections,
+    methodsOf,
     fnAgent,
     connect,
     scope,
@@ -1402,6 +2060,8 @@ export function createNetwork(name: string): ScopedNetwork {
     derived,
     storyline,
     sync,
+    use,
+    modules: () => [...loadedModules.values()].map((entry) => entry.loaded),
     step: scopedStep,
     reduce: scopedReduce
   };
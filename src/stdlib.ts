@@ -49,6 +49,12 @@ import {
   MapOperationDescriptor, ListOperationDescriptor, TextOperationDescriptor, CounterOperationDescriptor
 } from './specialized-updaters';
 
+import {
+  EraserAgent, DuplicatorAgent, ConstructorAgent as ConstructorAgentFn,
+  registerCombinatorRules, encodeLambda, readbackLambda, reduceLambda, formatLambda, Lambda,
+  DuplicatorValue, LambdaTerm
+} from './combinators';
+
 /**
  * Standard library namespace providing common patterns and utilities
  */
@@ -93,6 +99,17 @@ export const StdLib = {
     CounterUpdater: CounterUpdaterFn,
     registerSpecializedUpdaterRules
   },
+  Combinators: {
+    Eraser: EraserAgent,
+    Duplicator: DuplicatorAgent,
+    Constructor: ConstructorAgentFn,
+    registerCombinatorRules,
+    Lambda,
+    encodeLambda,
+    readbackLambda,
+    reduceLambda,
+    formatLambda
+  },
   Reactive: {
     ReactiveAgent,
     createReactive,
@@ -187,6 +204,9 @@ export type {
   TextOperationDescriptor,
   CounterOperationDescriptor,
   
+  DuplicatorValue,
+  LambdaTerm,
+  
   IPlugin,
   IPluginManager,
   EventType,
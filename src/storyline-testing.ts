@@ -0,0 +1,216 @@
+/**
+ * Storyline Property Testing
+ *
+ * Generates random storylines from the methods registered with
+ * `withConnections`, replays each against a fresh scoped network and checks
+ * invariants after every step. A failing storyline is shrunk to the fewest
+ * calls that still break the same invariant and returned serialized, so the
+ * repro can be pasted into a test and replayed with `deserialize`.
+ *
+ * ```typescript
+ * const result = checkStorylines(() => {
+ *   const scoped = createNetwork('bank');
+ *   const Account = scoped.withConnections(scoped.Agent.factory<'Account', number>('Account'), {
+ *     deposit: account => { account.value += 10; },
+ *     withdraw: account => { account.value -= 10; }
+ *   }, { autoDisconnectMain: true });
+ *   return { network: scoped, factory: Account, subject: Account(0) };
+ * }, {
+ *   invariants: { solvent: account => account.value >= 0 }
+ * });
+ * // result.failure?.calls: [{ method: 'withdraw', args: [] }]
+ * ```
+ */
+import type { IAgent } from './agent';
+import { StorylinePropertyError } from './errors';
+import type { AgentFactory, ScopedNetwork, StorylineDefinition } from './scoped-network';
+import { seededRandom } from './utils';
+
+/**
+ * A fresh network with the agent whose methods the storylines call
+ */
+export type StorylineCheckSetup = {
+  network: ScopedNetwork;
+  factory: AgentFactory;
+  subject: IAgent;
+};
+
+/**
+ * Returns false or throws when the invariant does not hold
+ */
+export type StorylineInvariant = (subject: IAgent, context: { network: ScopedNetwork; step: number }) => boolean | void;
+
+/**
+ * A method call of a generated storyline
+ */
+export type StorylineCall = {
+  method: string;
+  args: any[];
+};
+
+export type StorylineCheckOptions = {
+  invariants: Record<string, StorylineInvariant>;
+  /** Storylines to try (default 100) */
+  runs?: number;
+  /** Most calls in a storyline (default 20) */
+  maxSteps?: number;
+  /** Seed of the random storylines (default random, reported on failure) */
+  seed?: number;
+  /** Methods to call (default every method but pair methods, which need an agent; list them here and give them `args`) */
+  methods?: string[];
+  /** Arguments of each call, by method name (default none) */
+  args?: Record<string, (random: () => number) => any[]>;
+};
+
+export type StorylineCheckFailure = {
+  /** Name of the invariant that failed, or 'error' when a step threw */
+  invariant: string;
+  error?: unknown;
+  seed: number;
+  /** Number of the failing run, from 1 */
+  run: number;
+  /** Shrunk calls reproducing the failure */
+  calls: StorylineCall[];
+  /** The shrunk storyline, serialized as JSON */
+  storyline: string;
+};
+
+export type StorylineCheckResult = {
+  passed: boolean;
+  runs: number;
+  failure?: StorylineCheckFailure;
+};
+
+/**
+ * Check invariants against random storylines, shrinking the first failing one
+ */
+export function checkStorylines(setup: () => StorylineCheckSetup, options: StorylineCheckOptions): StorylineCheckResult {
+  const runs = options.runs ?? 100;
+  const maxSteps = options.maxSteps ?? 20;
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+  const random = seededRandom(seed);
+  const methods = options.methods ?? discoverMethods(setup());
+
+  if (methods.length === 0) {
+    throw new Error('No methods to build storylines from');
+  }
+
+  for (let run = 1; run <= runs; run++) {
+    const calls = Array.from({ length: 1 + Math.floor(random() * maxSteps) }, () => {
+      const method = methods[Math.floor(random() * methods.length)];
+      return { method, args: options.args?.[method]?.(random) ?? [] };
+    });
+
+    const outcome = replay(setup, calls, options.invariants);
+    if (outcome) {
+      const shrunk = shrink(setup, calls.slice(0, outcome.step), options.invariants, outcome.invariant);
+      const final = replay(setup, shrunk, options.invariants)!;
+      return {
+        passed: false,
+        runs: run,
+        failure: {
+          invariant: final.invariant,
+          error: final.error,
+          seed,
+          run,
+          calls: shrunk,
+          storyline: final.story.serialize({ format: 'json' })
+        }
+      };
+    }
+  }
+
+  return { passed: true, runs };
+}
+
+/**
+ * Like `checkStorylines`, throwing a StorylinePropertyError with the shrunk repro on failure
+ */
+export function assertStorylines(setup: () => StorylineCheckSetup, options: StorylineCheckOptions): void {
+  const { failure } = checkStorylines(setup, options);
+  if (failure) {
+    const cause = failure.error instanceof Error ? ` (${failure.error.message})` : '';
+    throw new StorylinePropertyError(
+      `Invariant ${failure.invariant} failed${cause} after ${failure.calls.map(call => call.method).join(', ')}; seed ${failure.seed}, storyline ${failure.storyline}`,
+      failure
+    );
+  }
+}
+
+type ReplayFailure = {
+  invariant: string;
+  error?: unknown;
+  /** Calls made when the invariant failed */
+  step: number;
+  story: StorylineDefinition;
+};
+
+// Replay calls on a fresh setup, checking the invariants after each
+function replay(
+  setup: () => StorylineCheckSetup,
+  calls: StorylineCall[],
+  invariants: Record<string, StorylineInvariant>
+): ReplayFailure | undefined {
+  const { network, factory, subject } = setup();
+  const story = network.storyline(factory, function* (agent) {
+    for (const call of calls) {
+      yield* agent[call.method](...call.args);
+    }
+  });
+  const stepper = story.stepper(subject);
+
+  for (let step = 1; step <= calls.length; step++) {
+    try {
+      stepper.next();
+    } catch (error) {
+      return { invariant: 'error', error, step, story };
+    }
+
+    for (const [name, invariant] of Object.entries(invariants)) {
+      try {
+        if (invariant(subject, { network, step }) === false) {
+          return { invariant: name, step, story };
+        }
+      } catch (error) {
+        return { invariant: name, error, step, story };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+// Remove chunks of calls, halving the chunk size, while the same invariant still fails
+function shrink(
+  setup: () => StorylineCheckSetup,
+  calls: StorylineCall[],
+  invariants: Record<string, StorylineInvariant>,
+  invariant: string
+): StorylineCall[] {
+  let current = calls;
+  let size = Math.max(1, Math.floor(current.length / 2));
+
+  while (size >= 1) {
+    let removed = false;
+    for (let start = 0; start + size <= current.length; ) {
+      const candidate = [...current.slice(0, start), ...current.slice(start + size)];
+      const outcome = candidate.length > 0 ? replay(setup, candidate, invariants) : undefined;
+      if (outcome?.invariant === invariant) {
+        current = candidate.slice(0, outcome.step);
+        removed = true;
+      } else {
+        start += size;
+      }
+    }
+    if (!removed) {
+      size = Math.floor(size / 2);
+    }
+  }
+
+  return current;
+}
+
+// Pair methods are left out: a call without the other agent cannot run
+function discoverMethods({ network, factory }: StorylineCheckSetup): string[] {
+  return network.methodsOf(factory).filter(method => method.mode === 'self').map(method => method.name);
+}
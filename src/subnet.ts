@@ -0,0 +1,273 @@
+/**
+ * Subnets
+ *
+ * A subnet is a slice of a network lifted out as plain data: its agents,
+ * the connections between them, and its interface, the ports through which
+ * it meets the rest of a network. Embedding a subnet instantiates fresh
+ * agents for it and wires its interface ports to ports of the host network,
+ * so a subnet works as a reusable "macro agent" and, being JSON-friendly,
+ * can be sent to another network to continue its work there.
+ *
+ * ```typescript
+ * const pipeline = source.extract([parser]);
+ * const { ports } = target.embed(pipeline, { 'Parser.input': feed.ports.out });
+ * ```
+ */
+import { Agent, AgentId, IAgent } from "./agent";
+import { IBoundPort, IPort, Port, PortsMap } from "./port";
+import { SubnetError } from "./errors";
+import type { INetwork } from "./network";
+import type { AgentRecord, LinkRecord } from "./query";
+
+/**
+ * Which agents an extraction takes and where its interface lies
+ * - `free-ports`: the connected components of the roots; their free ports form the interface
+ * - `cut`: the roots only; their free ports and the ports wired to other agents form the interface
+ */
+export type SubnetBoundary = 'free-ports' | 'cut';
+
+export interface ExtractOptions {
+  /** Default 'free-ports' */
+  boundary?: SubnetBoundary;
+  /** Remove the extracted agents from the network (default false) */
+  detach?: boolean;
+  /** Name of an interface port (default `${agent.name}.${port.name}`) */
+  label?: (port: IBoundPort) => string;
+}
+
+/**
+ * Serialized agent of a subnet, with its port declarations
+ */
+export interface SubnetAgent extends AgentRecord {
+  ports: Record<string, IPort>;
+}
+
+/**
+ * Port of a subnet agent that embedding may bind to a host port
+ */
+export interface SubnetInterfacePort {
+  /** Name that bindings refer to */
+  name: string;
+  agentId: string;
+  portName: string;
+  type: string;
+  /** Port outside the subnet this one was wired to, for `cut` extractions */
+  peer?: { agentId: string; portName: string };
+}
+
+/**
+ * Self-contained slice of a network
+ */
+export interface Subnet {
+  agents: SubnetAgent[];
+  connections: LinkRecord[];
+  interface: SubnetInterfacePort[];
+}
+
+/**
+ * Result of embedding a subnet
+ */
+export interface EmbeddedSubnet {
+  /** The new agents, in the subnet's order */
+  agents: IAgent[];
+  /** Subnet agent id to the id of the agent created for it */
+  ids: Record<string, AgentId>;
+  /** Interface ports of the new agents by interface name, bound or not */
+  ports: Record<string, IBoundPort>;
+}
+
+/**
+ * Access to a network's agents and wiring that extraction needs
+ */
+export interface SubnetHost {
+  getAgent(agentId: string): IAgent | undefined;
+  removeAgent(agent: IAgent): boolean;
+  /** Port on the other end of a port, if the port is connected */
+  peer(port: IBoundPort): IBoundPort | undefined;
+}
+
+/**
+ * Network operations that embedding needs
+ */
+export type SubnetTarget = Pick<INetwork, 'addAgent' | 'connectPorts'>;
+
+type AgentRef = IAgent | string;
+
+// Copy a value through JSON, refusing values that would not come back the same
+function copyValue(value: unknown, agentId: string): unknown {
+  if (value === undefined) return undefined;
+  const problem = findUnserializable(value, 'value', new Set());
+  if (problem) {
+    throw new SubnetError(`Value of agent ${agentId} cannot be copied: ${problem}`, 'unserializable-value', agentId);
+  }
+  return JSON.parse(JSON.stringify(value));
+}
+
+// Describe the first part of a value that is not plain JSON data
+function findUnserializable(value: unknown, path: string, ancestors: Set<object>): string | undefined {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') return undefined;
+  if (typeof value === 'number') return Number.isFinite(value) ? undefined : `${path} is ${value}`;
+  if (value === undefined) return `${path} is undefined`;
+  if (typeof value !== 'object') return `${path} is a ${typeof value}`;
+  if (ancestors.has(value)) return `${path} is a circular reference`;
+
+  const isArray = Array.isArray(value);
+  const prototype = Object.getPrototypeOf(value);
+  if (!isArray && prototype !== Object.prototype && prototype !== null) {
+    return `${path} is a ${prototype?.constructor?.name ?? 'non-plain object'}`;
+  }
+
+  ancestors.add(value);
+  for (const [key, item] of Object.entries(value)) {
+    const problem = isArray || item !== undefined
+      ? findUnserializable(item, isArray ? `${path}[${key}]` : `${path}.${key}`, ancestors)
+      : undefined;
+    if (problem) return problem;
+  }
+  ancestors.delete(value);
+  return undefined;
+}
+
+/**
+ * Lift agents and their wiring out of a network
+ * @param roots Agents, or agent ids, to extract from
+ */
+export function extractSubnet(host: SubnetHost, roots: AgentRef | AgentRef[], options: ExtractOptions = {}): Subnet {
+  const boundary = options.boundary ?? 'free-ports';
+  const label = options.label ?? (port => `${port.agent.name}.${port.name}`);
+
+  const members = new Map<AgentId, IAgent>();
+  const pending: IAgent[] = [];
+  for (const root of Array.isArray(roots) ? roots : [roots]) {
+    const agentId = typeof root === 'string' ? root : root._agentId;
+    const agent = host.getAgent(agentId);
+    if (!agent) {
+      throw new SubnetError(`Agent ${agentId} is not in the network`, 'unknown-agent', agentId);
+    }
+    if (members.has(agent._agentId)) continue;
+    members.set(agent._agentId, agent);
+    pending.push(agent);
+  }
+
+  // Breadth-first over every connection, so the subnet has no wires leaving it
+  if (boundary === 'free-ports') {
+    while (pending.length > 0) {
+      for (const port of Object.values(pending.shift()!.ports)) {
+        const peer = host.peer(port)?.agent;
+        if (!peer || members.has(peer._agentId)) continue;
+        members.set(peer._agentId, peer);
+        pending.push(peer);
+      }
+    }
+  }
+
+  const subnet: Subnet = { agents: [], connections: [], interface: [] };
+  const labels = new Map<string, number>();
+  const seen = new Set<string>();
+
+  for (const agent of members.values()) {
+    const ports: Record<string, IPort> = {};
+    for (const [portName, port] of Object.entries(agent.ports)) {
+      ports[portName] = port.constraints
+        ? { name: port.name, type: port.type, constraints: { ...port.constraints } }
+        : { name: port.name, type: port.type };
+
+      const peer = host.peer(port);
+      if (peer && members.has(peer.agent._agentId)) {
+        // Record each internal connection from the end visited first
+        const key = `${agent._agentId}#${portName}`;
+        if (seen.has(key)) continue;
+        seen.add(`${peer.agent._agentId}#${peer.name}`);
+        subnet.connections.push({
+          sourceAgentId: agent._agentId,
+          sourcePortName: portName,
+          destinationAgentId: peer.agent._agentId,
+          destinationPortName: peer.name
+        });
+        continue;
+      }
+
+      const base = label(port);
+      const count = (labels.get(base) ?? 0) + 1;
+      labels.set(base, count);
+      subnet.interface.push({
+        name: count === 1 ? base : `${base}#${count}`,
+        agentId: agent._agentId,
+        portName,
+        type: port.type,
+        ...(peer ? { peer: { agentId: peer.agent._agentId, portName: peer.name } } : {})
+      });
+    }
+
+    subnet.agents.push({
+      id: agent._agentId,
+      name: agent.name,
+      type: agent.type || "",
+      value: copyValue(agent.value, agent._agentId),
+      ports
+    });
+  }
+
+  if (options.detach) {
+    members.forEach(agent => host.removeAgent(agent));
+  }
+
+  return subnet;
+}
+
+/**
+ * Instantiate a subnet in a network
+ *
+ * Every subnet agent is created afresh with a new id from the active id
+ * generator, a copy of its value and its port declarations, then the subnet's connections are restored and
+ * each bound interface port is connected to its host port.
+ * @param bindings Host port to connect each named interface port to
+ */
+export function embedSubnet(
+  target: SubnetTarget,
+  subnet: Subnet,
+  bindings: Record<string, IBoundPort> = {}
+): EmbeddedSubnet {
+  const interfacePorts = new Map(subnet.interface.map(port => [port.name, port]));
+  for (const name of Object.keys(bindings)) {
+    if (!interfacePorts.has(name)) {
+      throw new SubnetError(`Subnet has no interface port ${name}`, 'unknown-interface', name);
+    }
+  }
+
+  const created = new Map<string, IAgent>();
+  const ids: Record<string, AgentId> = {};
+  for (const record of subnet.agents) {
+    const ports: PortsMap = {};
+    for (const [portName, port] of Object.entries(record.ports)) {
+      ports[portName] = Port({ name: port.name, type: port.type, constraints: port.constraints });
+    }
+    const agent = target.addAgent(Agent(record.name, copyValue(record.value, record.id), ports, record.type || undefined));
+    created.set(record.id, agent);
+    ids[record.id] = agent._agentId;
+  }
+
+  const portOf = (agentId: string, portName: string): IBoundPort => {
+    const port = created.get(agentId)?.ports[portName];
+    if (!port) {
+      throw new SubnetError(`Subnet has no port ${agentId}.${portName}`, 'unknown-port', `${agentId}#${portName}`);
+    }
+    return port;
+  };
+
+  for (const connection of subnet.connections) {
+    target.connectPorts(
+      portOf(connection.sourceAgentId, connection.sourcePortName),
+      portOf(connection.destinationAgentId, connection.destinationPortName)
+    );
+  }
+
+  const ports: Record<string, IBoundPort> = {};
+  for (const port of subnet.interface) {
+    ports[port.name] = portOf(port.agentId, port.portName);
+    const binding = bindings[port.name];
+    if (binding) target.connectPorts(ports[port.name], binding);
+  }
+
+  return { agents: Array.from(created.values()), ids, ports };
+}
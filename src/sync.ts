@@ -11,6 +11,7 @@ import { Network, INetwork, ChangeHistoryEntry } from "./network";
 import { Port } from "./port";
 import { ActionRule } from "./rule";
 import { AgentState, NetworkSnapshot } from "./timetravel";
+import { attachSchema, validateAgentValue } from "./schema";
 
 // Sync-related types
 export type SyncOperation = {
@@ -242,6 +243,9 @@ export function applyRemoteOperations(network: INetwork, operations: SyncOperati
       case 'agent-create':
         const { name, value, ports } = op.data;
         const newAgent = Agent(name, value, ports);
+        // Agents named like ones the network knows a schema for take that schema
+        const schema = network.getSchemaByName?.(name);
+        if (schema) attachSchema(newAgent, schema, 'remote', network.getSchemaValidation?.());
         network.addAgent(newAgent);
         break;
         
@@ -249,6 +253,7 @@ export function applyRemoteOperations(network: INetwork, operations: SyncOperati
         const { agentId, value: newValue } = op.data;
         const agent = network.getAgent(agentId);
         if (agent) {
+          validateAgentValue(agent, 'remote', { value: newValue, mode: network.getSchemaValidation?.() });
           agent.value = newValue;
         } else {
           // Create a remote agent if it doesn't exist locally
@@ -384,6 +389,9 @@ export function collectSyncOperations(
 /**
  * Create a SyncNetwork that extends a regular network with sync capabilities
  * 
+ * Interactions on `sync` ports are routed through the SyncNetwork: they run
+ * locally and the new values of the agents involved are sent on the next `sync`.
+ * 
  * @param name Network name
  * @param sourceId Source identifier for this network instance
  * @returns A network with sync capabilities
@@ -405,13 +413,33 @@ export function SyncNetwork<Name extends string>(
   // Register sync rules
   registerSyncRules(network);
   
+  // Interactions on sync ports run locally and queue an update of every
+  // agent they touched, shipped with the next sync
+  network.routePorts?.('sync', (port, peer, interact) => {
+    if (!interact()) return;
+    for (const agent of [port.agent, peer.agent]) {
+      if (agent === syncAgent || !network.getAgent(agent._agentId)) continue;
+      syncAgent.value.operations.push(createSyncOperation(
+        'agent-update',
+        {
+          agentId: agent._agentId,
+          value: JSON.parse(JSON.stringify(agent.value))
+        },
+        sourceId
+      ));
+    }
+  });
+  
   // Add sync method
   const sync = (targetNetwork: INetwork) => {
-    const operations = collectSyncOperations(
-      network,
-      sourceId,
-      syncAgent.value.lastSyncTimestamp
-    );
+    const operations = [
+      ...syncAgent.value.operations.splice(0),
+      ...collectSyncOperations(
+        network,
+        sourceId,
+        syncAgent.value.lastSyncTimestamp
+      )
+    ];
     
     // Apply our operations to the target network
     applyRemoteOperations(targetNetwork, operations);
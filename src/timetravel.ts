@@ -1,9 +1,10 @@
 import { Agent, AgentId, IAgent } from "./agent";
 import { IConnection } from "./connection";
-import { INetwork, Network } from "./network";
+import { captureAgentState, INetwork, Network } from "./network";
 import { BoundPortsMap, IBoundPort, PortInstanceKey, getPortInstanceKey } from "./port";
 import { AnyRule } from "./rule";
-import { v4 as uuidv4 } from 'uuid';
+import { AgentQuery, createRecordGraph, runQuery } from "./query";
+import { nextId } from './id-generator';
 
 /**
  * Network snapshot representing the state at a specific point in time
@@ -45,6 +46,19 @@ export interface ConnectionState {
   name: string;
 }
 
+/**
+ * Run an agent query against a snapshot
+ * @returns The agent states that match
+ */
+export function querySnapshot(snapshot: NetworkSnapshot, query?: AgentQuery<AgentState>): AgentState[] {
+  const graph = createRecordGraph(
+    snapshot.agentStates.values(),
+    snapshot.connections.values(),
+    agent => Object.keys(agent.ports)
+  );
+  return runQuery(graph, query);
+}
+
 /**
  * Time Travel Manager that extends an existing network with
  * snapshot, rollback, and time travel capabilities
@@ -75,7 +89,7 @@ export class TimeTravelManager<Name extends string = string, A extends IAgent =
   takeSnapshot(description: string = "Manual snapshot"): NetworkSnapshot {
     const snapshot: NetworkSnapshot = {
 
-      id: uuidv4(),
+      id: nextId('snapshot'),
       timestamp: Date.now(),
       description,
       agentStates: new Map(),
@@ -85,7 +99,7 @@ export class TimeTravelManager<Name extends string = string, A extends IAgent =
     // Snapshot all agents
     const agents = this.getAllAgents();
     for (const agent of agents) {
-      snapshot.agentStates.set(agent._agentId, this.serializeAgent(agent));
+      snapshot.agentStates.set(agent._agentId, captureAgentState(agent));
     }
     
     // Snapshot all connections
@@ -251,6 +265,20 @@ export class TimeTravelManager<Name extends string = string, A extends IAgent =
     return this.snapshots.find(snapshot => snapshot.id === id);
   }
   
+  /**
+   * Run an agent query against a snapshot
+   * @param snapshotOrId The snapshot or snapshot ID to query
+   * @param query Name, type, value, port and neighbourhood criteria
+   * @returns The agent states that match
+   */
+  querySnapshot(snapshotOrId: NetworkSnapshot | string, query?: AgentQuery<AgentState>): AgentState[] {
+    const snapshot = typeof snapshotOrId === 'string' ? this.getSnapshotById(snapshotOrId) : snapshotOrId;
+    if (!snapshot) {
+      throw new Error(`Snapshot ${snapshotOrId} not found`);
+    }
+    return querySnapshot(snapshot, query);
+  }
+  
   /**
    * Create a snapshot from existing change history
    * @param description Optional description for the snapshot
@@ -477,47 +505,7 @@ export class TimeTravelManager<Name extends string = string, A extends IAgent =
    * Get all connections from the network
    */
   private getAllConnections(): IConnection[] {
-    const connections: Set<IConnection> = new Set();
-    const agents = this.getAllAgents();
-    
-    // Collect connections from all agents by checking all ports
-    for (const agent of agents) {
-      for (const port of Object.values(agent.ports)) {
-        // Skip ports that aren't connected
-        if (!this.network.isPortConnected(port)) {
-          continue;
-        }
-        
-        // Try to find the connection by connecting this port with another port
-        for (const otherAgent of agents) {
-          if (agent === otherAgent) continue;
-          
-          for (const otherPort of Object.values(otherAgent.ports)) {
-            try {
-              // Check if these ports are connected
-              if (this.network.isPortConnected(otherPort)) {
-                // Create a connection object
-                const connection = {
-                  source: agent,
-                  sourcePort: port,
-                  sourcePortKey: getPortInstanceKey(port),
-                  destination: otherAgent,
-                  destinationPort: otherPort,
-                  destinationPortKey: getPortInstanceKey(otherPort),
-                  name: `${agent.name}.${port.name}-to-${otherAgent.name}.${otherPort.name}`
-                };
-                
-                connections.add(connection as IConnection);
-              }
-            } catch (e) {
-              // Ignore errors during connection discovery
-            }
-          }
-        }
-      }
-    }
-    
-    return Array.from(connections);
+    return this.network.getAllConnections();
   }
   
   /**
@@ -546,30 +534,6 @@ export class TimeTravelManager<Name extends string = string, A extends IAgent =
     }
   }
   
-  /**
-   * Serialize an agent to a plain object
-   * @param agent The agent to serialize
-   */
-  private serializeAgent(agent: IAgent): AgentState {
-    const ports: {[portName: string]: {name: string, type: string}} = {};
-    
-    for (const [portName, port] of Object.entries(agent.ports)) {
-      ports[portName] = {
-        name: port.name,
-        type: port.type
-      };
-    }
-    
-    return {
-      id: agent._agentId,
-      name: agent.name,
-      type: agent.type || "",
-      value: JSON.parse(JSON.stringify(agent.value)),
-      // ports: agent.ports
-      ports,
-    };
-  }
-  
   /**
    * Get a unique key for a connection
    */
@@ -614,6 +578,7 @@ export interface ITimeTravelNetwork<Name extends string = string, A extends IAge
   getTimeline(): Array<{id: string, timestamp: number, description: string, agentCount: number}>;
   exportSnapshots(): string;
   importSnapshots(json: string): boolean;
+  querySnapshot(snapshotOrId: NetworkSnapshot | string, query?: AgentQuery<AgentState>): AgentState[];
 }
 
 /**
@@ -671,7 +636,10 @@ export function TimeTravelNetwork<
       timeTravelManager.exportSnapshots(),
       
     importSnapshots: (json: string) => 
-      timeTravelManager.importSnapshots(json)
+      timeTravelManager.importSnapshots(json),
+      
+    querySnapshot: (snapshotOrId: NetworkSnapshot | string, query?: AgentQuery<AgentState>) =>
+      timeTravelManager.querySnapshot(snapshotOrId, query)
   };
   
   // Take initial snapshot
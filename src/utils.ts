@@ -65,4 +65,26 @@ export function safeParse<T>(text: string, fallback?: T): T {
     }
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Check whether a value is a promise or another thenable
+ */
+export function isPromiseLike<T = unknown>(value: unknown): value is PromiseLike<T> {
+  return typeof value === 'object' && value !== null && typeof (value as PromiseLike<T>).then === 'function';
+}
+
+/**
+ * Create a seeded pseudo-random generator (mulberry32); generators with the
+ * same seed return the same numbers in [0, 1), each a multiple of 2^-32
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
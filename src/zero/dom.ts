@@ -1,4 +1,5 @@
 import type { ZeroAgent, ZeroNetwork, ZeroPort } from "./index";
+import { runTimeSliced, type TimeSlicedTask, type TimeSliceOptions } from "../reduction-scheduler";
 
 export type ZeroGraphTemplate = {
   tag: string;
@@ -129,6 +130,11 @@ export type ZeroDomSystem = {
   selectBlock: (manager: ZeroSelectionManager, block: ZeroBlock) => void;
   createListManager: <T>(options: ZeroListManagerValue<T>) => ZeroListManager<T>;
   updateList: <T>(manager: ZeroListManager<T>, items: Array<ZeroListItem<T>>) => void;
+  updateListScheduled: <T>(
+    manager: ZeroListManager<T>,
+    items: Array<ZeroListItem<T>>,
+    options?: TimeSliceOptions
+  ) => TimeSlicedTask<number>;
   createListRenderer: <T>(container: HTMLElement, makeRow: ZeroRowFactory<T>) => ZeroListRenderer<T>;
   applyUpdates: (block: ZeroBlock, updates: ZeroUpdateSpec[]) => void;
 };
@@ -157,6 +163,30 @@ const applyUpdate = (block: ZeroBlock, update: ZeroUpdateSpec) => {
   applyUpdateToEdits(block.edits, update);
 };
 
+const removeStaleBlocks = <T,>(state: ZeroListManagerValue<T>, items: Array<ZeroListItem<T>>) => {
+  const active = state.activeBlocks;
+  const nextIds = new Set(items.map((item) => item.id));
+
+  for (const [id, block] of active.entries()) {
+    if (!nextIds.has(id)) {
+      block.root.remove();
+      active.delete(id);
+    }
+  }
+};
+
+const syncItem = <T,>(state: ZeroListManagerValue<T>, item: ZeroListItem<T>) => {
+  let block = state.activeBlocks.get(item.id);
+  if (!block) {
+    block = state.blockFactory(item);
+    state.activeBlocks.set(item.id, block);
+    state.container.appendChild(block.root);
+  }
+
+  const updates = state.getUpdates?.(item, block) ?? [];
+  updates.forEach((patch) => applyUpdate(block, patch));
+};
+
 const detachNode = (node: Node) => {
   const removable = node as Node & { remove?: () => void };
   if (typeof removable.remove === "function") {
@@ -272,27 +302,8 @@ export const createDomSystem = (network: ZeroNetwork): ZeroDomSystem => {
   const createListManager = <T,>(options: ZeroListManagerValue<T>): ZeroListManager<T> => {
     const manager = network.Agent("ListManager", (state: ZeroListManagerValue<T>) => {
       const update = network.createPort<Array<ZeroListItem<T>>>((items) => {
-        const active = state.activeBlocks;
-        const nextIds = new Set(items.map((item) => item.id));
-
-        for (const [id, block] of active.entries()) {
-          if (!nextIds.has(id)) {
-            block.root.remove();
-            active.delete(id);
-          }
-        }
-
-        items.forEach((item) => {
-          let block = active.get(item.id);
-          if (!block) {
-            block = state.blockFactory(item);
-            active.set(item.id, block);
-            state.container.appendChild(block.root);
-          }
-
-          const updates = state.getUpdates?.(item, block) ?? [];
-          updates.forEach((patch) => applyUpdate(block, patch));
-        });
+        removeStaleBlocks(state, items);
+        items.forEach((item) => syncItem(state, item));
       });
 
       return { value: state, update };
@@ -301,10 +312,41 @@ export const createDomSystem = (network: ZeroNetwork): ZeroDomSystem => {
     return manager(options);
   };
 
+  // The scheduled update of each list; a newer update of the list cancels it
+  // so it cannot re-add items the newer one removed
+  const listUpdates = new WeakMap<ZeroListManager<any>, TimeSlicedTask<number>>();
+
+  const cancelListUpdate = (manager: ZeroListManager<any>) => {
+    listUpdates.get(manager)?.cancel();
+    listUpdates.delete(manager);
+  };
+
   const updateList = <T,>(manager: ZeroListManager<T>, items: Array<ZeroListItem<T>>) => {
+    cancelListUpdate(manager);
     manager.update(items);
   };
 
+  // Sync one item per tick, yielding between slices; resolves with the
+  // number of items synced
+  const updateListScheduled = <T,>(
+    manager: ZeroListManager<T>,
+    items: Array<ZeroListItem<T>>,
+    options?: TimeSliceOptions
+  ) => {
+    let synced = 0;
+    cancelListUpdate(manager);
+    removeStaleBlocks(manager.value, items);
+
+    const task = runTimeSliced(() => {
+      if (synced === items.length) return synced;
+      syncItem(manager.value, items[synced]!);
+      synced++;
+      return undefined;
+    }, () => synced, options);
+    listUpdates.set(manager, task);
+    return task;
+  };
+
   const createListRenderer = <T,>(container: HTMLElement, makeRow: ZeroRowFactory<T>): ZeroListRenderer<T> => {
     const byKey = new Map<ZeroKey, ZeroRowInstance<T>>();
     const order: ZeroKey[] = [];
@@ -388,6 +430,7 @@ export const createDomSystem = (network: ZeroNetwork): ZeroDomSystem => {
     selectBlock,
     createListManager,
     updateList,
+    updateListScheduled,
     createListRenderer,
     applyUpdates
   };
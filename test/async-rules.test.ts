@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { Network, Agent, ActionRule, Port, RuleApplicationError, TraceEvent } from '../src';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const setup = () => {
+  const network = Network('async');
+  const log: string[] = [];
+  const fetcher = Agent('Fetcher', { url: '' });
+  const request = Agent('Request', { id: 0 });
+  const counter = Agent('Counter', { count: 0 });
+  const increment = Agent('Increment', {});
+
+  network.addRule(ActionRule(fetcher.ports.main, request.ports.main, async (source, req) => {
+    log.push(`start ${req.value.id}`);
+    await delay(10);
+    if (source.value.url === 'fail') throw new Error('offline');
+    log.push(`done ${req.value.id}`);
+    return [Agent('Response', { id: req.value.id })];
+  }, 'fetch'));
+  network.addRule(ActionRule(counter.ports.main, increment.ports.main, (left) => {
+    left.value.count++;
+    log.push(`count ${left.value.count}`);
+  }, 'count'));
+
+  const connect = (left: ReturnType<typeof Agent>, right: ReturnType<typeof Agent>) => {
+    network.addAgent(left);
+    network.addAgent(right);
+    network.connectPorts(left.ports.main, right.ports.main);
+  };
+  return { network, log, connect };
+};
+
+describe('Async action rules', () => {
+  it('awaits async actions while independent pairs keep firing', async () => {
+    const { network, log, connect } = setup();
+    const events: TraceEvent[] = [];
+    network.onTrace!(event => events.push(event));
+    connect(Agent('Fetcher', { url: '/a' }), Agent('Request', { id: 1 }));
+    const tally = Agent('Counter', { count: 0 });
+    connect(tally, Agent('Increment', {}));
+
+    expect((await network.reduceAsync!()).steps).toBe(2);
+    expect(log).toEqual(['start 1', 'count 1', 'done 1']);
+    expect(network.findAgents({ name: 'Response' })[0].value.id).toBe(1);
+
+    const latency = network.getRuleLatency!();
+    expect(latency.fetch.count).toBe(1);
+    expect(latency.fetch.meanMs).toBeGreaterThanOrEqual(5);
+    expect(latency.count.count).toBe(1);
+    expect(events.filter(event => event.type === 'rule-settled').map(event => event.rule.name)).toEqual(['fetch']);
+  });
+
+  it('keeps agents of a pending action out of other interactions', async () => {
+    const { network, log } = setup();
+    const fetcher = network.addAgent(Agent('Fetcher', { url: '/a' }, { main: Port.main(), aux: Port.aux('aux') }));
+    const poke = network.addAgent(Agent('Poke', {}));
+    network.addRule(ActionRule(fetcher.ports.aux, poke.ports.main, () => {
+      log.push('poke');
+    }, 'poke'));
+    network.connectPorts(fetcher.ports.main, network.addAgent(Agent('Request', { id: 1 })).ports.main);
+    network.connectPorts(fetcher.ports.aux, poke.ports.main);
+
+    expect(network.reduce().steps).toBe(1);
+    expect(log).toEqual(['start 1']);
+    expect((await network.reduceAsync!()).steps).toBe(1);
+    expect(log).toEqual(['start 1', 'done 1', 'poke']);
+  });
+
+  it('reports rejected actions as RuleApplicationError', async () => {
+    const { network, connect } = setup();
+    connect(Agent('Fetcher', { url: 'fail' }), Agent('Request', { id: 2 }));
+
+    expect(network.reduce().steps).toBe(1);
+    const error = await network.reduceAsync!().catch(caught => caught);
+    expect(error).toBeInstanceOf(RuleApplicationError);
+    expect([error.rule.name, error.step, error.cause.message]).toEqual(['fetch', 1, 'offline']);
+    expect((await network.reduceAsync!()).steps).toBe(0);
+  });
+
+  it('delivers failures no reduceAsync awaits to error listeners and refuses async actions in transactions', async () => {
+    const { network, connect } = setup();
+    connect(Agent('Fetcher', { url: 'fail' }), Agent('Request', { id: 3 }));
+    expect(network.reduce().steps).toBe(1);
+    await delay(20);
+
+    const errors: RuleApplicationError[] = [];
+    const unsubscribe = network.onAsyncError!(error => errors.push(error));
+    expect(errors.map(error => error.step)).toEqual([1]);
+
+    connect(Agent('Fetcher', { url: 'fail' }), Agent('Request', { id: 4 }));
+    expect(network.reduce().steps).toBe(1);
+    await delay(20);
+    expect(errors.map(error => error.step)).toEqual([1, 2]);
+    expect((await network.reduceAsync!()).steps).toBe(0);
+    unsubscribe();
+
+    connect(Agent('Fetcher', { url: '/a' }), Agent('Request', { id: 5 }));
+    expect(() => network.reduce({ atomic: true })).toThrow('Async rule fetch cannot run inside a transaction');
+    expect((await network.reduceAsync!()).steps).toBe(1);
+    expect(network.findAgents({ name: 'Response' })).toHaveLength(1);
+  });
+
+  it('stops starting interactions when aborted', async () => {
+    const { network, log, connect } = setup();
+    connect(Agent('Fetcher', { url: '/a' }), Agent('Request', { id: 1 }));
+    connect(Agent('Fetcher', { url: '/b' }), Agent('Request', { id: 2 }));
+    const controller = new AbortController();
+
+    const reduction = network.reduceAsync!({ signal: controller.signal, mode: 'one' });
+    controller.abort(new Error('navigated away'));
+
+    expect(await reduction).toMatchObject({ steps: 2, reason: 'aborted' });
+    await delay(20);
+    expect(log).toEqual(['start 1', 'start 2', 'done 1', 'done 2']);
+
+    connect(Agent('Fetcher', { url: '/c' }), Agent('Request', { id: 3 }));
+    expect(await network.reduceAsync!({ signal: controller.signal })).toMatchObject({ steps: 0, reason: 'aborted' });
+    expect(log).not.toContain('start 3');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Network, Agent, Port, StdLib, EraserAgent, DuplicatorAgent, ConstructorAgent,
+  registerCombinatorRules, Lambda, formatLambda, reduceLambda
+} from '../src';
+
+const { v, lam, app } = Lambda;
+
+const setup = () => {
+  const network = Network('combinators');
+  registerCombinatorRules(network);
+  const wire = () => network.addAgent(Agent('Wire', null, { main: Port.main() }));
+  return { network, wire };
+};
+
+describe('Combinator rules', () => {
+  it('annihilates constructors by joining matching auxiliary ports', () => {
+    const { network, wire } = setup();
+    const [a, b, c, d] = [wire(), wire(), wire(), wire()];
+    const g1 = network.addAgent(ConstructorAgent());
+    const g2 = network.addAgent(ConstructorAgent());
+    network.connectPorts(g1.ports.aux1, a.ports.main);
+    network.connectPorts(g1.ports.aux2, b.ports.main);
+    network.connectPorts(g2.ports.aux1, c.ports.main);
+    network.connectPorts(g2.ports.aux2, d.ports.main);
+    network.connectPorts(g1.ports.main, g2.ports.main);
+
+    expect(network.reduce().steps).toBe(1);
+    expect(network.isPortConnected(a.ports.main)).toBe(true);
+    expect(network.findConnections({ from: a.ports.main, to: c.ports.main })).toHaveLength(1);
+    expect(network.findConnections({ from: b.ports.main, to: d.ports.main })).toHaveLength(1);
+    expect(network.findAgents({ name: 'Constructor' })).toHaveLength(0);
+  });
+
+  it('commutes duplicators with different labels and annihilates equal ones', () => {
+    const { network } = setup();
+    const d1 = network.addAgent(DuplicatorAgent(1));
+    const d2 = network.addAgent(DuplicatorAgent(2));
+    network.connectPorts(d1.ports.main, d2.ports.main);
+    network.reduce();
+
+    expect(network.findAgents({ name: 'Duplicator' }).map(agent => agent.value.label).sort()).toEqual([1, 1, 2, 2]);
+
+    const { network: same } = setup();
+    const d3 = same.addAgent(DuplicatorAgent(1));
+    const d4 = same.addAgent(DuplicatorAgent(1));
+    same.connectPorts(d3.ports.main, d4.ports.main);
+    same.connectPorts(d3.ports.aux1, d3.ports.aux2);
+    same.connectPorts(d4.ports.aux1, d4.ports.aux2);
+
+    expect(same.reduce().steps).toBe(1);
+    expect(same.getAllAgents()).toHaveLength(0);
+  });
+
+  it('erases a whole tree', () => {
+    const { network } = setup();
+    const eraser = network.addAgent(EraserAgent());
+    const g = network.addAgent(ConstructorAgent());
+    const d = network.addAgent(DuplicatorAgent(3));
+    network.connectPorts(g.ports.aux1, d.ports.main);
+    network.connectPorts(g.ports.aux2, network.addAgent(EraserAgent()).ports.main);
+    network.connectPorts(d.ports.aux1, d.ports.aux2);
+    network.connectPorts(eraser.ports.main, g.ports.main);
+    network.reduce();
+
+    expect(network.getAllAgents()).toHaveLength(0);
+  });
+});
+
+describe('Lambda encoding', () => {
+  const id = lam('y', v('y'));
+  const two = lam('f', lam('x', app(v('f'), app(v('f'), v('x')))));
+  const succ = lam('n', lam('f', lam('x', app(v('f'), app(v('n'), v('f'), v('x'))))));
+
+  it.each([
+    [app(lam('x', v('x')), id), 'λx0.x0'],
+    [app(lam('x', app(v('x'), v('x'))), id), 'λx0.x0'],
+    [app(lam('x', lam('y', v('x'))), v('a'), v('b')), 'a'],
+    [app(succ, two), 'λx0.λx1.x0 (x0 (x0 x1))'],
+    [app(two, two), 'λx0.λx1.x0 (x0 (x0 (x0 x1)))']
+  ])('reduces %# to normal form', (term, expected) => {
+    expect(formatLambda(reduceLambda(term).term)).toBe(expected);
+  });
+
+  it('throws when a term does not reach normal form within the budget', () => {
+    expect(() => reduceLambda(app(two, two), 5)).toThrow('did not reach normal form within 5 interactions (budget)');
+  });
+
+  it('works on any network through StdLib', () => {
+    const network = StdLib.createMinimalNetwork('lambda');
+    StdLib.Combinators.registerCombinatorRules(network);
+    const root = StdLib.Combinators.encodeLambda(network, app(two, id));
+    const interactions = network.reduce().steps;
+
+    expect(interactions).toBeGreaterThan(0);
+    expect(StdLib.Combinators.readbackLambda(network, root)).toEqual(lam('x0', v('x0')));
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { Network, Agent, Port, ActionRule, TimeTravelNetwork, exportGraph } from '../src';
+
+describe('Graph export', () => {
+  it('renders DOT and Mermaid with port labels, principal ports and active pairs', () => {
+    const network = Network('export');
+    network.addRule(ActionRule(Agent('Counter', null).ports.main, Agent('Incrementer', null).ports.main, () => {}, 'increment'));
+    const counter = network.addAgent(Agent('Counter', { count: 1 }, { main: Port.main(), out: Port.aux('out') }));
+    const incrementer = network.addAgent(Agent('Incrementer', { by: 2 }, undefined, 'op'));
+    const logger = network.addAgent(Agent('Logger', 'say "hi"'));
+    network.connectPorts(counter.ports.main, incrementer.ports.main);
+    network.connectPorts(counter.ports.out, logger.ports.main);
+
+    expect(exportGraph(network)).toBe([
+      'graph "export" {',
+      '  node [shape=box];',
+      `  "${counter._agentId}" [label="Counter"];`,
+      `  "${incrementer._agentId}" [label="Incrementer"];`,
+      `  "${logger._agentId}" [label="Logger"];`,
+      `  "${counter._agentId}" -- "${incrementer._agentId}" [taillabel=<<b>main</b>>, headlabel=<<b>main</b>>, color=red, penwidth=2];`,
+      `  "${counter._agentId}" -- "${logger._agentId}" [taillabel="out", headlabel=<<b>main</b>>];`,
+      '}'
+    ].join('\n'));
+
+    expect(exportGraph(network, { format: 'mermaid', values: true })).toBe([
+      'graph LR',
+      '  a0["Counter<br/>{#quot;count#quot;:1}"]',
+      '  a1["Incrementer<br/>{#quot;by#quot;:2}"]',
+      '  a2["Logger<br/>#quot;say \\#quot;hi\\#quot;#quot;"]',
+      '  a0 ===|"●main – ●main"| a1',
+      '  a0 ---|"out – ●main"| a2',
+      '  linkStyle 0 stroke:red'
+    ].join('\n'));
+
+    // Principal ports without a rule are not an active pair, and values JSON cannot hold still render
+    const cyclic: any = { big: 1n };
+    cyclic.self = cyclic;
+    const idle = network.addAgent(Agent('Idle', cyclic));
+    network.connectPorts(idle.ports.main, network.addAgent(Agent('Other', null)).ports.main);
+    const mermaid = exportGraph(network, { format: 'mermaid', values: true, filter: { name: ['Idle', 'Other'] } });
+    expect(mermaid).toContain('a0 ---|"●main – ●main"| a1');
+    expect(mermaid).toContain('1n');
+    expect(mermaid).not.toContain('linkStyle');
+
+    // Filtering keeps only the connections among the agents drawn
+    expect(exportGraph(network, { format: 'mermaid', filter: { name: ['Counter', 'Logger'] } })).toBe([
+      'graph LR',
+      '  a0["Counter"]',
+      '  a1["Logger"]',
+      '  a0 ---|"out – ●main"| a1'
+    ].join('\n'));
+  });
+
+  it('exports snapshots as JSON Graph Format so timelines can be rendered', () => {
+    const network = TimeTravelNetwork('timeline');
+    network.addRule(ActionRule(Agent('Counter', null).ports.main, Agent('Incrementer', null).ports.main, () => {}, 'increment'));
+    const counter = network.addAgent(Agent('Counter', { count: 1 }, { main: Port.main(), out: Port.aux('out') }));
+    const incrementer = network.addAgent(Agent('Incrementer', { by: 2 }, undefined, 'op'));
+    const logger = network.addAgent(Agent('Logger', 'say "hi"'));
+    network.connectPorts(counter.ports.main, incrementer.ports.main);
+    network.connectPorts(counter.ports.out, logger.ports.main);
+
+    const before = network.takeSnapshot('wired');
+    network.disconnectPorts(counter.ports.main, incrementer.ports.main);
+    const after = network.takeSnapshot('unwired');
+
+    const frames = [before, after].map(snapshot => JSON.parse(exportGraph(snapshot, { format: 'json-graph', values: true, filter: { type: ['agent', 'op'] } })));
+    expect(frames[0].graph.label).toBe('wired');
+    expect(frames[0].graph.nodes[incrementer._agentId]).toEqual({
+      label: 'Incrementer',
+      metadata: { type: 'op', value: { by: 2 }, ports: { main: { name: 'main', type: 'main' } } }
+    });
+    expect(frames.map(frame => frame.graph.edges.map((edge: any) => [edge.relation, edge.metadata.active]))).toEqual([
+      [['main-main', true], ['out-main', false]],
+      [['out-main', false]]
+    ]);
+    expect(frames[1].graph.edges[0].metadata).toMatchObject({ principal: [false, true] });
+    expect(JSON.parse(exportGraph(network, { format: 'json-graph' })).graph.nodes[incrementer._agentId].metadata).not.toHaveProperty('value');
+  });
+});
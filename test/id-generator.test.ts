@@ -0,0 +1,68 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  Network, Agent, RewriteRule, TimeTravelNetwork, createNetwork,
+  sequentialIds, seededIds, namespacedIds, setDefaultIdGenerator, withIdGenerator
+} from '../src';
+
+describe('Id generators', () => {
+  afterEach(() => {
+    setDefaultIdGenerator();
+  });
+
+  it('generates sequential, seeded and namespaced ids', () => {
+    const sequential = sequentialIds();
+    expect([sequential('agent'), sequential('agent'), sequential('network')]).toEqual(['agent-1', 'agent-2', 'network-1']);
+
+    const [first, second] = [seededIds('annette'), seededIds('annette')].map(ids => [ids('agent'), ids('agent')]);
+    expect(first).toEqual(second);
+    expect(first[0]).not.toBe(first[1]);
+    expect(first[0]).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(seededIds(7)('agent')).not.toBe(seededIds(8)('agent'));
+
+    expect(namespacedIds('peer-a')('agent')).toBe('peer-a:agent-1');
+    expect(() => namespacedIds('peer#a')).toThrow("may not contain '#'");
+
+    // The innermost generator wins, and the default applies outside of any
+    setDefaultIdGenerator(namespacedIds('default'));
+    const outer = sequentialIds();
+    const ids = withIdGenerator(outer, () => [
+      Agent('A', null)._agentId,
+      withIdGenerator(namespacedIds('inner'), () => Agent('B', null)._agentId),
+      Agent('C', null)._agentId
+    ]);
+    expect(ids).toEqual(['agent-1', 'inner:agent-1', 'agent-2']);
+    expect(Agent('D', null)._agentId).toBe('default:agent-1');
+    expect(TimeTravelNetwork('snapshots').takeSnapshot('first').id).toMatch(/^default:snapshot-\d+$/);
+  });
+
+  it('gives networks, rewrite-created agents and scoped agents reproducible ids', () => {
+    const run = () => {
+      const ids = seededIds(42);
+      const network = Network('ids', undefined, undefined, { ids });
+      network.addRule(RewriteRule(Agent('Ping', null).ports.main, Agent('Pong', null).ports.main, () => ({
+        newAgents: [{ name: 'Done', _templateId: 'done', initialValue: null }],
+        internalConnections: [],
+        portMapAgent1: {},
+        portMapAgent2: {}
+      }), 'ping'));
+      withIdGenerator(ids, () => {
+        const ping = network.addAgent(Agent('Ping', null));
+        network.connectPorts(ping.ports.main, network.addAgent(Agent('Pong', null)).ports.main);
+      });
+      network.reduce();
+      return { id: network.id, agents: network.getAllAgents().map(agent => agent._agentId) };
+    };
+
+    const first = run();
+    expect(first.agents).toHaveLength(1);
+    expect(run()).toEqual(first);
+
+    const sequential = Network('sequential', undefined, undefined, { ids: sequentialIds() });
+    expect(sequential.id).toBe('network-1');
+
+    const { Agent: ScopedAgent, network } = createNetwork('scoped-ids', { ids: namespacedIds('peer-a') });
+    const Counter = ScopedAgent.factory<'Counter', number>('Counter');
+    expect([Counter(0)._agentId, ScopedAgent('Logger', null)._agentId]).toEqual(['peer-a:agent-1', 'peer-a:agent-2']);
+    expect(network.id).toBe('peer-a:network-1');
+  });
+});
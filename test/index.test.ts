@@ -1,5 +1,10 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { Network, Agent, ActionRule, Port } from '../src';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  Network, Agent, ActionRule, RewriteRule, Rule, Port, ReductionStrategies, RuleIndex,
+  TraceEvent, createPluginNetwork, EventType, IEvent,
+  IAgent, INetwork, registerCombinatorRules, encodeLambda, Lambda, PortConnectionError, RuleConflictError,
+  RuleApplicationError
+} from '../src';
 
 
  describe('Annette Library - Core Functionality', () => {
@@ -110,9 +115,537 @@ import { Network, Agent, ActionRule, Port } from '../src';
         network.addAgent(agent);
 
         // Reduce until no more reductions possible
-        const totalReductions = await network.reduce();
-        expect(typeof totalReductions).toBe('number');
-        expect(totalReductions).toBeGreaterThanOrEqual(0);
+        const { steps, reason } = await network.reduce();
+        expect(steps).toBe(0);
+        expect(reason).toBe('normal-form');
+      });
+
+      const createCounterPairs = (count: number) => {
+        const pairs = Array.from({ length: count }, (_, index) => {
+          const counter = Agent('Counter', { value: index });
+          const incrementer = Agent('Incrementer', { by: 1 });
+          network.addAgent(counter);
+          network.addAgent(incrementer);
+          return { counter, incrementer };
+        });
+
+        network.addRule(ActionRule(pairs[0].counter.ports.main, pairs[0].incrementer.ports.main, (counter, incrementer) => {
+          counter.value.value += incrementer.value.by;
+        }));
+
+        for (const { counter, incrementer } of pairs) {
+          network.connectPorts(counter.ports.main, incrementer.ports.main);
+        }
+
+        return pairs;
+      };
+
+      it('keeps other active pairs when stepping one interaction at a time', () => {
+        const pairs = createCounterPairs(3);
+
+        expect(network.stepOne()).toBe(true);
+        expect(pairs.map(({ counter }) => counter.value.value)).toEqual([1, 1, 2]);
+
+        expect(network.step()).toBe(true);
+        expect(network.step()).toBe(true);
+        expect(network.step()).toBe(false);
+        expect(pairs.map(({ counter }) => counter.value.value)).toEqual([1, 2, 3]);
+      });
+
+      it('fires every disjoint redex in all-disjoint mode', () => {
+        const pairs = createCounterPairs(3);
+
+        expect(network.step({ mode: 'all-disjoint' })).toBe(true);
+        expect(pairs.map(({ counter }) => counter.value.value)).toEqual([1, 2, 3]);
+        expect(network.getInteractionCount?.()).toBe(3);
+        expect(network.step({ mode: 'all-disjoint' })).toBe(false);
+      });
+
+      it('counts interactions rather than ticks in reduce', () => {
+        createCounterPairs(4);
+
+        expect(network.reduce({ mode: 'all-disjoint', maxSteps: 3 }).steps).toBe(3);
+        expect(network.reduce({ mode: 'all-disjoint' }).steps).toBe(1);
+      });
+    });
+
+    describe('Reduction Strategies', () => {
+      const createJobs = (target: ReturnType<typeof Network>, names: string[]) => {
+        const fired: string[] = [];
+        const jobs = names.map(name => {
+          const job = Agent('Job', { name });
+          const worker = Agent(name.startsWith('urgent') ? 'UrgentWorker' : 'Worker', {});
+          target.addAgent(job);
+          target.addAgent(worker);
+          return { job, worker };
+        });
+
+        const record = (job: any) => { fired.push(job.value.name); };
+        const worker = jobs.find(({ worker }) => worker.name === 'Worker');
+        const urgent = jobs.find(({ worker }) => worker.name === 'UrgentWorker');
+        if (worker) target.addRule(ActionRule(worker.job.ports.main, worker.worker.ports.main, record, 'work'));
+        if (urgent) target.addRule(ActionRule(urgent.job.ports.main, urgent.worker.ports.main, record, 'urgent'));
+
+        for (const { job, worker } of jobs) {
+          target.connectPorts(job.ports.main, worker.ports.main);
+        }
+
+        return fired;
+      };
+
+      it('fires active pairs oldest first by default', () => {
+        const fired = createJobs(network, ['a', 'b', 'c']);
+
+        network.reduce();
+        expect(fired).toEqual(['a', 'b', 'c']);
+        expect(network.getReductionStrategy().name).toBe('fifo');
+      });
+
+      it('accepts a strategy option and fires newest first with lifo', () => {
+        const lifoNetwork = Network('lifo-network', [], [], { strategy: 'lifo' });
+        const fired = createJobs(lifoNetwork, ['a', 'b', 'c']);
+
+        lifoNetwork.reduce();
+        expect(fired).toEqual(['c', 'b', 'a']);
+      });
+
+      it('fires higher-priority rules first', () => {
+        network.setReductionStrategy(ReductionStrategies.priority({ urgent: 10 }));
+        const fired = createJobs(network, ['a', 'urgent-b', 'c', 'urgent-d']);
+
+        network.reduce();
+        expect(fired).toEqual(['urgent-b', 'urgent-d', 'a', 'c']);
+      });
+
+      it('reproduces the same order for the same random seed', () => {
+        const runWithSeed = (seed: number) => {
+          const target = Network('random-network', [], [], { strategy: ReductionStrategies.random(seed) });
+          const fired = createJobs(target, ['a', 'b', 'c', 'd', 'e', 'f']);
+          target.reduce();
+          return fired;
+        };
+
+        const first = runWithSeed(7);
+        expect(runWithSeed(7)).toEqual(first);
+        expect([...first].sort()).toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+      });
+
+      it('reports the strategy that produced each step', () => {
+        const strategies: string[] = [];
+        const unsubscribe = network.onReductionStep!(step => strategies.push(step.strategy));
+        createJobs(network, ['a', 'b', 'c']);
+
+        network.step();
+        network.setReductionStrategy('lifo');
+        network.step();
+        unsubscribe();
+        network.step();
+
+        expect(strategies).toEqual(['fifo', 'lifo']);
+      });
+    });
+
+    describe('Tracing', () => {
+      const createWrappers = (count: number) => {
+        const sinks = Array.from({ length: count }, () => {
+          const wrapper = Agent('Wrapper', { value: 1 }, { main: Port.main(), out: Port.aux('out') });
+          const unwrap = Agent('Unwrap', {});
+          const sink = Agent('Sink', {});
+          network.addAgent(wrapper);
+          network.addAgent(unwrap);
+          network.addAgent(sink);
+          network.connectPorts(wrapper.ports.out, sink.ports.main);
+          return { wrapper, unwrap, sink };
+        });
+
+        network.addRule(RewriteRule(sinks[0].wrapper.ports.main, sinks[0].unwrap.ports.main, (wrapper) => ({
+          newAgents: [{ name: 'Value', _templateId: 'value', initialValue: wrapper.value.value }],
+          internalConnections: [],
+          portMapAgent1: { out: { newAgentTemplateId: 'value', newPortName: 'main' } },
+          portMapAgent2: {}
+        }), 'unwrap'));
+
+        for (const { wrapper, unwrap } of sinks) {
+          network.connectPorts(wrapper.ports.main, unwrap.ports.main);
+        }
+
+        return sinks;
+      };
+
+      it('emits typed events for each stage of a rewrite', () => {
+        const events: TraceEvent[] = [];
+        network.onTrace!(event => events.push(event));
+        const [{ sink }] = createWrappers(2);
+
+        network.reduce();
+
+        expect(events.map(event => event.type)).toEqual([
+          'rule-matched', 'plan-cache-miss', 'agent-created', 'ports-rewired',
+          'rule-matched', 'plan-cache-hit', 'agent-created', 'ports-rewired'
+        ]);
+
+        const rewired = events.find(event => event.type === 'ports-rewired');
+        expect(rewired?.type === 'ports-rewired' && rewired.peer.agent).toBe(sink);
+      });
+
+      it('does not write to the console while rewriting', () => {
+        const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+        createWrappers(2);
+
+        network.reduce();
+
+        expect(log).not.toHaveBeenCalled();
+        log.mockRestore();
+      });
+
+      it('stops delivering events after unsubscribing', () => {
+        const events: TraceEvent[] = [];
+        const unsubscribe = network.onTrace!(event => events.push(event));
+        unsubscribe();
+        createWrappers(1);
+
+        network.reduce();
+        expect(events).toEqual([]);
+      });
+
+      it('forwards trace events to the plugin event bus', () => {
+        const pluginNetwork = createPluginNetwork([], 'traced');
+        const types: string[] = [];
+        const listener = (event: IEvent) => types.push(event.data.type);
+        pluginNetwork.addEventListener(EventType.TRACE, listener);
+
+        const left = pluginNetwork.addAgent(Agent('Left', {}));
+        const right = pluginNetwork.addAgent(Agent('Right', {}));
+        pluginNetwork.addRule(ActionRule(left.ports.main, right.ports.main, () => {}, 'noop'));
+        pluginNetwork.connectPorts(left.ports.main, right.ports.main);
+        pluginNetwork.reduce();
+
+        expect(types).toEqual(['rule-matched']);
+        pluginNetwork.removeEventListener(EventType.TRACE, listener);
+      });
+    });
+
+    describe('Pattern Rules', () => {
+      const fire = (left: any, right: any) => {
+        network.addAgent(left);
+        network.addAgent(right);
+        network.connectPorts(left.ports.main, right.ports.main);
+        network.reduce();
+      };
+
+      it('matches any agent of a type', () => {
+        const erased: string[] = [];
+        network.addRule(Rule.pattern({ name: 'Eraser' }, { type: 'dom' }, {
+          action: (_eraser, target) => { erased.push(target.name); }
+        }, 'erase-dom'));
+
+        fire(Agent('Div', {}, undefined, 'dom'), Agent('Eraser', {}));
+        fire(Agent('Eraser', {}), Agent('Span', {}, undefined, 'dom'));
+        fire(Agent('Eraser', {}), Agent('Counter', {}));
+
+        expect(erased).toEqual(['Div', 'Span']);
+      });
+
+      it('prefers exact rules, then type patterns, then wildcards', () => {
+        const fired: string[] = [];
+        network.addRule(Rule.pattern({ name: 'Eraser' }, { name: '*' }, { action: () => { fired.push('wildcard'); } }));
+        network.addRule(Rule.pattern({ name: 'Eraser' }, { type: 'dom' }, { action: () => { fired.push('type'); } }));
+
+        const eraser = Agent('Eraser', {});
+        const div = Agent('Div', {}, undefined, 'dom');
+        network.addRule(ActionRule(eraser.ports.main, div.ports.main, () => { fired.push('exact'); }));
+
+        fire(eraser, div);
+        fire(Agent('Eraser', {}), Agent('Span', {}, undefined, 'dom'));
+        fire(Agent('Eraser', {}), Agent('Counter', {}));
+
+        expect(fired).toEqual(['exact', 'type', 'wildcard']);
+      });
+
+      it('ranks an exact name with a wildcard above two types', () => {
+        const fired: string[] = [];
+        network.addRule(Rule.pattern({ type: 'tool' }, { type: 'dom' }, { action: () => { fired.push('types'); } }));
+        network.addRule(Rule.pattern({ name: 'Eraser' }, {}, { action: () => { fired.push('exact-wildcard'); } }));
+
+        fire(Agent('Eraser', {}, undefined, 'tool'), Agent('Div', {}, undefined, 'dom'));
+
+        expect(fired).toEqual(['exact-wildcard']);
+        expect(network.validateRules!().conflicts).toEqual([]);
+      });
+
+      it('matches name globs and predicates and orients the action', () => {
+        const seen: Array<[string, string]> = [];
+        network.addRule(Rule.pattern(
+          { name: 'Eraser' },
+          { name: 'Temp*', where: agent => agent.value.disposable },
+          { action: (left, right) => { seen.push([left.name, right.name]); } }
+        ));
+
+        fire(Agent('TempFile', { disposable: true }), Agent('Eraser', {}));
+        fire(Agent('Eraser', {}), Agent('TempDir', { disposable: false }));
+        fire(Agent('Eraser', {}), Agent('Config', { disposable: true }));
+
+        expect(seen).toEqual([['Eraser', 'TempFile']]);
+      });
+
+      it('orders RuleIndex results by specificity', () => {
+        const index = new RuleIndex();
+        const wildcard = Rule.pattern({ name: 'Eraser' }, {}, { action: () => {} }, 'wildcard');
+        const byType = Rule.pattern({ name: 'Eraser' }, { type: 'dom' }, { action: () => {} }, 'type');
+        const eraser = Agent('Eraser', {});
+        const div = Agent('Div', {}, undefined, 'dom');
+        const exact = ActionRule(eraser.ports.main, div.ports.main, () => {}, 'exact');
+
+        index.addRule(wildcard);
+        index.addRule(byType);
+        index.addRule(exact);
+
+        expect(index.findRules(div, div.ports.main, eraser, eraser.ports.main).map(rule => rule.name))
+          .toEqual(['exact', 'type', 'wildcard']);
+      });
+    });
+
+    describe('Rule Conflicts', () => {
+      const counter = Agent('Counter', { count: 0 });
+      const incrementer = Agent('Incrementer', { by: 1 });
+      const counterRule = (name: string, by = 1) =>
+        ActionRule(counter.ports.main, incrementer.ports.main, (left, right) => {
+          left.value.count += by;
+          return [left, right];
+        }, name);
+
+      const fire = () => {
+        const left = network.addAgent(Agent('Counter', { count: 0 }));
+        const right = network.addAgent(Agent('Incrementer', { by: 1 }));
+        network.connectPorts(left.ports.main, right.ports.main);
+        network.reduce();
+        return left.value.count;
+      };
+
+      it('replaces duplicate rules by default and serves the new rule', () => {
+        network.addRule(counterRule('first', 1));
+        expect(fire()).toBe(1);
+
+        network.addRule(ActionRule(incrementer.ports.main, counter.ports.main, (a, b) => {
+          [a, b].find(agent => agent.name === 'Counter')!.value.count += 10;
+          return [a, b];
+        }, 'symmetric'));
+
+        expect(network.getAllRules().map(rule => rule.name)).toEqual(['symmetric']);
+        expect(fire()).toBe(10);
+      });
+
+      it('keeps or rejects duplicates when asked to', () => {
+        network.addRule(counterRule('first'));
+        network.addRule(counterRule('second'), { onConflict: 'keep' });
+        expect(network.getAllRules().map(rule => rule.name)).toEqual(['first']);
+
+        const strict = Network('strict', [], [], { onRuleConflict: 'error' });
+        strict.addRule(counterRule('first'));
+        expect(() => strict.addRule(counterRule('second'))).toThrow(RuleConflictError);
+        expect(() => strict.addRule(Rule.pattern({ name: 'Counter' }, { name: 'Incrementer' }, { action: () => {} }, 'pattern')))
+          .toThrow('matches the same pairs as first');
+        expect(() => strict.addRule(Rule.pattern({ name: 'Counter' }, { name: 'Incr*' }, { action: () => {} }))).not.toThrow();
+      });
+
+      it('reports unreachable and ambiguous rules', () => {
+        const noop = { action: () => {} };
+        network.addRule(Rule.pattern({ name: 'Eraser' }, { name: '*' }, noop, 'any'));
+        network.addRule(Rule.pattern({ name: 'Eraser' }, { name: 'Temp*' }, noop, 'temp'));
+        network.addRule(Rule.pattern({ name: 'Eraser' }, { name: 'Dir*', port: 'aux' }, noop, 'dir'));
+        network.addRule(Rule.pattern({ name: 'Logger' }, { name: 'Temp*' }, noop, 'log-temp'));
+        network.addRule(Rule.pattern({ name: 'Logger' }, { name: '*File' }, noop, 'log-file'));
+        network.addRule(Rule.pattern({ name: 'Logger' }, { name: 'Dir*' }, noop, 'log-dir'));
+        network.addRule(counterRule('exact'));
+        network.addRule(Rule.pattern({ name: 'Counter', port: 'main' }, { name: 'Incrementer', type: 'agent' }, noop, 'shadowed'));
+
+        const report = network.validateRules!();
+        expect(report.valid).toBe(false);
+        expect(report.unreachable.map(({ rule, shadowedBy }) => [rule.name, shadowedBy.name]))
+          .toEqual([['shadowed', 'exact'], ['temp', 'any']]);
+        expect(report.conflicts.map(({ rules }) => rules.map(rule => rule.name)))
+          .toEqual([['log-temp', 'log-file'], ['log-file', 'log-dir']]);
+      });
+    });
+
+    describe('Transactions', () => {
+      const wrapper = Agent('Wrapper', { value: 1 }, { main: Port.main(), out: Port.aux('out') });
+      const unwrap = Agent('Unwrap', {});
+      const counter = Agent('Counter', { count: 0 });
+      const failing = Agent('Failing', {});
+
+      const setup = () => {
+        network.addRule(RewriteRule(wrapper.ports.main, unwrap.ports.main, (left) => ({
+          newAgents: [{ name: 'Value', _templateId: 'value', initialValue: left.value.value }],
+          internalConnections: [],
+          portMapAgent1: { out: { newAgentTemplateId: 'value', newPortName: 'main' } },
+          portMapAgent2: {}
+        }), 'unwrap'));
+        network.addRule(ActionRule(counter.ports.main, unwrap.ports.main, (left, right) => {
+          left.value.count++;
+          return [left, right];
+        }, 'count'));
+        network.addRule(ActionRule(failing.ports.main, unwrap.ports.main, () => {
+          throw new Error('boom');
+        }, 'fail'));
+
+        const box = network.addAgent(Agent('Wrapper', { value: 7 }, { main: Port.main(), out: Port.aux('out') }));
+        const sink = network.addAgent(Agent('Sink', {}));
+        const tally = network.addAgent(Agent('Counter', { count: 0 }));
+        network.connectPorts(box.ports.out, sink.ports.main);
+        network.connectPorts(box.ports.main, network.addAgent(Agent('Unwrap', {})).ports.main);
+        network.connectPorts(tally.ports.main, network.addAgent(Agent('Unwrap', {})).ports.main);
+        return { box, sink, tally };
+      };
+
+      it('rolls back an atomic reduce and names the failed interaction', () => {
+        const { box, sink, tally } = setup();
+        const failure = network.addAgent(Agent('Failing', {}));
+        network.connectPorts(failure.ports.main, network.addAgent(Agent('Unwrap', {})).ports.main);
+        const agents = network.getAllAgents().length;
+
+        let error: unknown;
+        try {
+          network.reduce({ atomic: true });
+        } catch (caught) {
+          error = caught;
+        }
+
+        expect(error).toBeInstanceOf(RuleApplicationError);
+        const { rule, agent1, agent2, step, cause } = error as RuleApplicationError;
+        expect([rule.name, agent1?.name, agent2?.name, step]).toEqual(['fail', 'Failing', 'Unwrap', 3]);
+        expect((cause as Error).message).toBe('boom');
+        expect(tally.value.count).toBe(0);
+        expect(network.getAllAgents()).toHaveLength(agents);
+        expect(network.findConnections({ from: box.ports.out, to: sink.ports.main })).toHaveLength(1);
+        expect(network.getInteractionCount!()).toBe(0);
+
+        network.removeAgent(failure);
+        expect(network.reduce().steps).toBe(2);
+        expect(tally.value.count).toBe(1);
+        expect(network.findAgents({ name: 'Value' })[0].value).toBe(7);
+      });
+
+      it('undoes rules and connections of a failed transaction, keeping committed inner ones', () => {
+        const { tally } = setup();
+        const extra = network.addAgent(Agent('Counter', { count: 5 }));
+
+        expect(() => network.transaction!(() => {
+          network.transaction!(() => {
+            network.connectPorts(extra.ports.main, network.addAgent(Agent('Unwrap', {})).ports.main);
+          });
+          expect(() => network.transaction!(() => {
+            network.removeRule('count');
+            throw new Error('inner');
+          })).toThrow('inner');
+          expect(network.findRules({ name: 'count' })).toHaveLength(1);
+
+          network.reduce();
+          expect(extra.value.count).toBe(6);
+          network.clearRules();
+          throw new Error('outer');
+        })).toThrow('outer');
+
+        expect(network.getAllRules().map(rule => rule.name).sort()).toEqual(['count', 'fail', 'unwrap']);
+        expect(extra.value.count).toBe(5);
+        expect(network.isPortConnected(extra.ports.main)).toBe(false);
+        expect(network.transaction!(() => network.reduce()).steps).toBe(2);
+        expect(tally.value.count).toBe(1);
+      });
+
+      it('restores values in place, including agents a rule reached', () => {
+        const Ledger = Agent('Ledger', {}, { main: Port.main(), log: Port.aux('log') });
+        network.addRule(ActionRule(Ledger.ports.main, counter.ports.main, (ledger, tally) => {
+          ledger.value.entries.set('b', 2n);
+          ledger.value.opened.setTime(0);
+          ledger.value.tags.push('late');
+          const log = network.getAllAgents().find(agent => agent.name === 'Log')!;
+          log.value.lines.push('fired');
+          network.getAgent(audit._agentId)!.value.seen++;
+          tally.value.count++;
+          throw new Error('boom');
+        }, 'record'));
+
+        const value: any = { entries: new Map([['a', 1n]]), opened: new Date(1000), tags: ['early'] };
+        value.self = value;
+        const ledger = network.addAgent(Agent('Ledger', value, { main: Port.main(), log: Port.aux('log') }));
+        const log = network.addAgent(Agent('Log', { lines: [] as string[] }));
+        // Not connected to the pair
+        const audit = network.addAgent(Agent('Audit', { seen: 0 }));
+        network.connectPorts(ledger.ports.log, log.ports.main);
+        network.connectPorts(ledger.ports.main, network.addAgent(Agent('Counter', { count: 0 })).ports.main);
+
+        expect(() => network.reduce({ atomic: true })).toThrow(RuleApplicationError);
+        expect(ledger.value).toBe(value);
+        expect(Array.from(value.entries)).toEqual([['a', 1n]]);
+        expect(value.opened.getTime()).toBe(1000);
+        expect(value.tags).toEqual(['early']);
+        expect(value.self).toBe(value);
+        expect(log.value.lines).toEqual([]);
+        expect(audit.value.seen).toBe(0);
+      });
+
+      it('restores values changed directly inside a transaction', () => {
+        const counter = network.addAgent(Agent('Counter', { count: 0, history: [1] }));
+
+        expect(() => network.transaction!(() => {
+          counter.value.count = 1;
+          counter.value.history.push(2);
+          throw new Error('abort');
+        })).toThrow('abort');
+        expect(counter.value).toEqual({ count: 0, history: [1] });
+      });
+    });
+
+    describe('Garbage Collection', () => {
+      const { v, lam, app } = Lambda;
+
+      // (λx.λy.x) a b leaves an eraser attached to b, cut off from the root
+      const encodeK = (target: INetwork) => {
+        registerCombinatorRules(target);
+        const root = encodeLambda(target, app(lam('x', lam('y', v('x'))), v('a'), v('b')));
+        target.addRoot?.(root);
+        return root;
+      };
+
+      it('erases subnets cut off from the roots after each tick in eager mode', () => {
+        const eager = Network('gc', undefined, undefined, { gc: 'eager' });
+        const collected: IAgent[][] = [];
+        eager.onGarbageCollected?.(removed => collected.push(removed));
+        const root = encodeK(eager);
+
+        eager.reduce();
+
+        expect(eager.getAllAgents().map(agent => agent.name).sort()).toEqual(['Free', 'Root']);
+        expect(eager.getRoots?.()).toEqual([root]);
+        expect(collected.flat().map(agent => agent.name).sort()).toEqual(['Eraser', 'Free']);
+      });
+
+      it('only collects on demand in manual mode', () => {
+        const manual = Network('gc');
+        encodeK(manual);
+        manual.reduce();
+
+        expect(manual.getAllAgents()).toHaveLength(4);
+        expect(manual.collectGarbage?.().map(agent => agent.name).sort()).toEqual(['Eraser', 'Free']);
+        expect(manual.getAllAgents()).toHaveLength(2);
+
+        const rootless = Network('gc', undefined, undefined, { gc: 'eager' });
+        rootless.addAgent(Agent('Orphan', {}));
+        expect(rootless.collectGarbage?.()).toEqual([]);
+        expect(rootless.getAllAgents()).toHaveLength(1);
+      });
+
+      it('emits AGENT_REMOVED for collected agents on plugin networks', () => {
+        const pluginNetwork = createPluginNetwork([], 'gc', { gc: 'periodic', gcInterval: 1 });
+        const removed: any[] = [];
+        pluginNetwork.addEventListener(EventType.AGENT_REMOVED, (event: IEvent) => removed.push(event.data));
+        encodeK(pluginNetwork);
+
+        pluginNetwork.reduce();
+
+        expect(removed.map(data => data.agentName).sort()).toEqual(['Eraser', 'Free']);
+        expect(removed.every(data => data.reason === 'gc')).toBe(true);
       });
     });
 
@@ -167,6 +700,77 @@ import { Network, Agent, ActionRule, Port } from '../src';
       });
     });
 
+    describe('Port Compatibility', () => {
+      const connectError = (connect: () => unknown) => {
+        try {
+          connect();
+        } catch (error) {
+          return error as PortConnectionError;
+        }
+        throw new Error('Expected connectPorts to throw');
+      };
+
+      it('rejects agents that are not accepted', () => {
+        const display = network.addAgent(Agent('Display', null, { main: Port.main({ accepts: ['Counter'] }) }));
+        const counter = network.addAgent(Agent('Counter', 0));
+        const logger = network.addAgent(Agent('Logger', null));
+
+        // @ts-expect-error Logger is not accepted by Display.main
+        const error = connectError(() => network.connectPorts(logger.ports.main, display.ports.main));
+        expect(error).toBeInstanceOf(PortConnectionError);
+        expect(error.reason).toBe('agent-not-accepted');
+        expect(error.sourceAgent).toBe(logger);
+        expect(network.isPortConnected(display.ports.main)).toBe(false);
+
+        expect(network.connectPorts(display.ports.main, counter.ports.main)).toBeDefined();
+      });
+
+      it('rejects port types that are not accepted', () => {
+        const store = network.addAgent(Agent('Store', null, {
+          main: Port.main(),
+          hold: Port.hold({ acceptsPortTypes: ['hold'] })
+        }));
+        const reader = network.addAgent(Agent('Reader', null, { main: Port.main(), hold: Port.hold() }));
+
+        // @ts-expect-error a hold port cannot be wired to a main port
+        const error = connectError(() => network.connectPorts(store.ports.hold, reader.ports.main));
+        expect(error.reason).toBe('port-type-not-accepted');
+        expect(error.getDetails()).toContain('Reason: port-type-not-accepted');
+
+        expect(network.connectPorts(store.ports.hold, reader.ports.hold)).toBeDefined();
+      });
+
+      it('requires tags carried by the peer port', () => {
+        const sink = network.addAgent(Agent('Sink', null, { main: Port.main({ requiresTags: ['stream'] }) }));
+        const plain = network.addAgent(Agent('Plain', null));
+        const source = network.addAgent(Agent('Source', null, { main: Port.main({ tags: ['stream', 'ordered'] }) }));
+
+        expect(connectError(() => network.connectPorts(plain.ports.main, sink.ports.main)).reason).toBe('missing-tags');
+        expect(network.connectPorts(source.ports.main, sink.ports.main)).toBeDefined();
+      });
+
+      it('allows a once port to be connected only once', () => {
+        const token = network.addAgent(Agent('Token', null, { main: Port.main({ once: true }) }));
+        const first = network.addAgent(Agent('First', null));
+        const second = network.addAgent(Agent('Second', null));
+
+        network.connectPorts(token.ports.main, first.ports.main);
+        expect(connectError(() => network.connectPorts(token.ports.main, second.ports.main)).reason).toBe('already-connected');
+
+        network.disconnectPorts(token.ports.main, first.ports.main);
+        expect(connectError(() => network.connectPorts(second.ports.main, token.ports.main)).reason).toBe('already-used');
+      });
+
+      it('keeps constraints when ports are created from a factory', () => {
+        const makePort = Port.factoryFrom(Port.aux('in', { accepts: ['Counter'] }));
+        const gate = network.addAgent(Agent('Gate', null, { main: Port.main(), in: makePort() }));
+        const logger = network.addAgent(Agent('Logger', null));
+
+        expect(gate.ports.in.constraints?.accepts).toEqual(['Counter']);
+        expect(connectError(() => network.connectPorts(gate.ports.in, logger.ports.main)).reason).toBe('agent-not-accepted');
+      });
+    });
+
     describe('Change History', () => {
 
      it('tracks changes in network', () => {
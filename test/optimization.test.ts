@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { Network, Agent, ActionRule, createOptimizedNetwork } from '../src';
+
+describe('createOptimizedNetwork', () => {
+  const setup = () => {
+    const network = createOptimizedNetwork(Network('lazy'), { enableMemoryManagement: false });
+    const counter = Agent('Counter', { count: 0 });
+    const increment = Agent('Increment', {});
+    network.addRule(ActionRule(counter.ports.main, increment.ports.main, (left, right) => {
+      left.value.count++;
+      return [left];
+    }, 'increment'));
+    return network;
+  };
+
+  const addPair = (network: ReturnType<typeof setup>) => {
+    const counter = network.addAgent(Agent('Counter', { count: 0 }));
+    network.connectPorts(counter.ports.main, network.addAgent(Agent('Increment', {})).ports.main);
+    return counter;
+  };
+
+  it('returns a ReduceResult from the lazy reduce', () => {
+    const network = setup();
+    const counter = addPair(network);
+
+    const result = network.reduce();
+    expect(result).toMatchObject({ steps: 1, reason: 'normal-form' });
+    expect(result.elapsedMs).toBeGreaterThanOrEqual(0);
+    expect(counter.value.count).toBe(1);
+  });
+
+  it('stops the lazy reduce at the step budget', () => {
+    const network = setup();
+    addPair(network);
+    addPair(network);
+
+    expect(network.reduce(1)).toMatchObject({ steps: 1, reason: 'budget', budget: 'steps' });
+    expect(network.reduce()).toMatchObject({ steps: 1, reason: 'normal-form' });
+  });
+});
@@ -138,4 +138,65 @@ describe("optimized dom system", () => {
     dom.updateList(manager, [{ id: "2", data: { label: "Beta" } }]);
     expect(container.children).toHaveLength(1);
   });
+  it("syncs lists in chunks across scheduled slices", async () => {
+    const scope = createNetwork("optimized-dom-scheduled");
+    const dom = createOptimizedDomSystem(scope);
+    const container = createElement("div");
+    const tasks: Array<() => void> = [];
+
+    const manager = dom.createListManager({
+      container: container as unknown as HTMLElement,
+      blockFactory: (item: { id: string; data: null }) =>
+        dom.Block({ id: item.id, root: createElement("div") as unknown as HTMLElement, edits: {} }),
+      activeBlocks: new Map()
+    });
+    const items = ["1", "2", "3", "4", "5"].map((id) => ({ id, data: null }));
+
+    const update = dom.updateListScheduled(manager, items, {
+      chunkSize: 2,
+      budgetMs: 0,
+      scheduler: (task) => tasks.push(task)
+    });
+
+    tasks.shift()?.();
+    expect(container.children).toHaveLength(2);
+    tasks.shift()?.();
+    tasks.shift()?.();
+    expect(container.children).toHaveLength(5);
+    tasks.shift()?.();
+    expect(await update.promise).toMatchObject({ steps: 3, reason: "normal-form" });
+  });
+
+  it("replaces an in-flight scheduled update with a newer one", async () => {
+    const scope = createNetwork("optimized-dom-overlap");
+    const dom = createOptimizedDomSystem(scope);
+    const container = createElement("div");
+    const tasks: Array<() => void> = [];
+    const options = { chunkSize: 2, budgetMs: 0, scheduler: (task: () => void) => tasks.push(task) };
+
+    const manager = dom.createListManager({
+      container: container as unknown as HTMLElement,
+      blockFactory: (item: { id: string; data: null }) =>
+        dom.Block({ id: item.id, root: createElement("div") as unknown as HTMLElement, edits: {} }),
+      activeBlocks: new Map()
+    });
+    const items = (...ids: string[]) => ids.map((id) => ({ id, data: null }));
+
+    const first = dom.updateListScheduled(manager, items("1", "2", "3", "4", "5"), options);
+    tasks.shift()?.();
+    expect(container.children).toHaveLength(2);
+
+    const second = dom.updateListScheduled(manager, items("1", "6"), options);
+    expect((await first.promise).reason).toBe("aborted");
+    while (tasks.length > 0) tasks.shift()?.();
+    expect(await second.promise).toMatchObject({ reason: "normal-form" });
+    expect(Array.from(manager.value.activeBlocks.keys())).toEqual(["1", "6"]);
+
+    const third = dom.updateListScheduled(manager, items("7", "8", "9"), options);
+    tasks.shift()?.();
+    third.cancel();
+    await third.promise;
+    expect(scope.network.findAgents({ name: "ListData" })).toHaveLength(0);
+    expect(() => dom.updateList(manager, items("7"))).not.toThrow();
+  });
 });
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Network, Agent, Port, Rule, RewritePlanCache, structuralHash, Rewrite } from '../src';
+
+const plan = (name: string): Rewrite => ({
+  newAgents: [{ name, _templateId: name }],
+  internalConnections: [],
+  portMapAgent1: {},
+  portMapAgent2: {}
+});
+
+describe('structuralHash', () => {
+  it('ignores object key order and Map/Set insertion order', () => {
+    expect(structuralHash({ a: 1, b: [2, 3] })).toBe(structuralHash({ b: [2, 3], a: 1 }));
+    expect(structuralHash(new Map([['x', 1], ['y', 2]]))).toBe(structuralHash(new Map([['y', 2], ['x', 1]])));
+    expect(structuralHash(new Set([1, 2]))).toBe(structuralHash(new Set([2, 1])));
+  });
+
+  it('distinguishes values that JSON.stringify conflates', () => {
+    expect(structuralHash(new Map([['x', 1]]))).not.toBe(structuralHash(new Map([['x', 2]])));
+    expect(structuralHash({ value: undefined })).not.toBe(structuralHash({}));
+    expect(structuralHash([1, '1'])).not.toBe(structuralHash([1, 1]));
+  });
+
+  it('hashes cyclic values', () => {
+    const first: any = { name: 'node' };
+    first.self = first;
+    const second: any = { name: 'node' };
+    second.self = second;
+
+    expect(structuralHash(first)).toBe(structuralHash(second));
+  });
+});
+
+describe('RewritePlanCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('evicts the least recently used plan when full', () => {
+    const cache = new RewritePlanCache({ maxSize: 2 });
+    cache.set('a', plan('A'));
+    cache.set('b', plan('B'));
+    cache.get('a');
+    cache.set('c', plan('C'));
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.getMetrics()).toMatchObject({ hits: 2, misses: 1, evictions: 1, size: 2, maxSize: 2 });
+  });
+
+  it('expires plans after the ttl', () => {
+    vi.useFakeTimers();
+    const cache = new RewritePlanCache({ ttl: 1000 });
+    cache.set('a', plan('A'));
+
+    vi.advanceTimersByTime(500);
+    expect(cache.get('a')).toBeDefined();
+    vi.advanceTimersByTime(1000);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.getMetrics().expirations).toBe(1);
+  });
+});
+
+describe('Network rewrite-plan caching', () => {
+  const run = (cache: boolean, pairs: number, values: (index: number) => any) => {
+    const network = Network('plan-cache');
+    const define = vi.fn(() => plan('Done'));
+    const agents = Array.from({ length: pairs }, (_, index) => {
+      const source = Agent('Source', values(index), { main: Port.main() });
+      const target = Agent('Target', {});
+      network.addAgent(source);
+      network.addAgent(target);
+      return { source, target };
+    });
+
+    network.addRule(Rule.rewrite(agents[0].source.ports.main, agents[0].target.ports.main, define, { cache }));
+    for (const { source, target } of agents) {
+      network.connectPorts(source.ports.main, target.ports.main);
+    }
+    network.reduce();
+
+    return { network, define };
+  };
+
+  it('reuses the plan for structurally equal agent values', () => {
+    const { network, define } = run(true, 3, () => ({ tags: new Set(['a']) }));
+
+    expect(define).toHaveBeenCalledTimes(1);
+    expect(network.getPlanCacheMetrics?.()).toMatchObject({ hits: 2, misses: 1, size: 1 });
+  });
+
+  it('computes a new plan when values differ', () => {
+    const { define } = run(true, 3, index => ({ tags: new Set([index]) }));
+
+    expect(define).toHaveBeenCalledTimes(3);
+  });
+
+  it('never caches rules declared uncacheable', () => {
+    const { network, define } = run(false, 3, () => ({ tags: new Set(['a']) }));
+
+    expect(define).toHaveBeenCalledTimes(3);
+    expect(network.getPlanCacheMetrics?.()).toMatchObject({ hits: 0, misses: 0, size: 0 });
+  });
+});
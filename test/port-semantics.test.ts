@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { Network, Agent, ActionRule, Port, SyncNetwork, NetworkBoundary } from '../src';
+
+const counterRule = (left: ReturnType<typeof Agent>, right: ReturnType<typeof Agent>, leftPort = 'main', rightPort = 'main') =>
+  ActionRule(left.ports[leftPort], right.ports[rightPort], (counter, increment) => {
+    counter.value.count += increment.value.by;
+    return [counter, increment];
+  });
+
+describe('Port semantics', () => {
+  it('defers wait ports until a condition agent arrives', () => {
+    const network = Network('wait');
+    const counter = network.addAgent(Agent('Counter', { count: 0 }, { main: Port.main(), ready: Port.wait('ready', { until: 'Ready' }) }));
+    const increment = network.addAgent(Agent('Increment', { by: 1 }));
+    network.addRule(counterRule(counter, increment, 'ready'));
+    network.connectPorts(counter.ports.ready, increment.ports.main);
+
+    expect(network.reduce().steps).toBe(0);
+    expect(counter.value.count).toBe(0);
+
+    network.addAgent(Agent('Ready', null));
+    expect(network.reduce().steps).toBe(1);
+    expect(counter.value.count).toBe(1);
+  });
+
+  it('interacts on wait ports without a condition straight away', () => {
+    const network = Network('wait-free');
+    const counter = network.addAgent(Agent('Counter', { count: 0 }, { main: Port.main(), ready: Port.wait('ready') }));
+    const increment = network.addAgent(Agent('Increment', { by: 1 }));
+    network.addRule(counterRule(counter, increment, 'ready'));
+    network.connectPorts(counter.ports.ready, increment.ports.main);
+
+    expect(network.reduce().steps).toBe(1);
+  });
+
+  it('buffers interactions on held ports until released', () => {
+    const network = Network('hold');
+    const counter = network.addAgent(Agent('Counter', { count: 0 }, { main: Port.main(), hold: Port.hold({ held: true }) }));
+    const increment = network.addAgent(Agent('Increment', { by: 5 }));
+    network.addRule(counterRule(counter, increment, 'hold'));
+    network.connectPorts(counter.ports.hold, increment.ports.main);
+
+    expect(network.reduce().steps).toBe(0);
+    expect(network.releasePort!(counter.ports.hold)).toBe(true);
+    expect(network.releasePort!(counter.ports.hold)).toBe(false);
+    expect(network.reduce().steps).toBe(1);
+    expect(counter.value.count).toBe(5);
+
+    network.holdPort!(counter.ports.hold);
+    network.disconnectPorts(counter.ports.hold, increment.ports.main);
+    network.connectPorts(counter.ports.hold, increment.ports.main);
+    expect(network.reduce().steps).toBe(0);
+    expect(() => network.holdPort!(counter.ports.main)).toThrow('only hold ports can be held');
+  });
+
+  it('routes sync port interactions through SyncNetwork', () => {
+    const client = SyncNetwork('client', 'client-1');
+    const server = Network('server');
+    const counter = client.addAgent(Agent('Counter', { count: 0 }, { main: Port.main(), sync: Port.sync() }));
+    const increment = client.addAgent(Agent('Increment', { by: 2 }));
+    client.addRule(counterRule(counter, increment, 'sync'));
+    client.connectPorts(counter.ports.sync, increment.ports.main);
+
+    expect(client.reduce().steps).toBe(1);
+    client.sync(server);
+
+    const mirrored = server.findAgents({ name: 'Remote' }).find(agent => agent.value.sourceAgentId === counter._agentId);
+    expect(mirrored?.value.count).toBe(2);
+  });
+
+  it('forwards remote port interactions through a NetworkBoundary', () => {
+    const local = Network('local');
+    const remote = Network('remote');
+    const store = remote.addAgent(Agent('Store', { count: 0 }));
+    const proxyTemplate = Agent('ProxyIncrement', {}, { main: Port.main(), remote: Port.remote() });
+    remote.addRule(ActionRule(proxyTemplate.ports.main, store.ports.main, (proxy, target) => {
+      target.value.count += proxy.value.by;
+      return [proxy, target];
+    }));
+
+    const [toRemote, toLocal] = NetworkBoundary.createBidirectional(local, remote);
+    toLocal.registerNode(store, false);
+    const stop = toRemote.forwardRemotePorts();
+
+    const storeProxy = local.findAgents({ name: 'ProxyStore' })[0];
+    const increment = local.addAgent(Agent('Increment', { by: 3 }));
+    local.connectPorts(increment.ports.main, storeProxy.ports.remote);
+
+    expect(local.reduce().steps).toBe(1);
+    expect(store.value.count).toBe(3);
+
+    stop();
+    local.disconnectPorts(increment.ports.main, storeProxy.ports.remote);
+    local.connectPorts(increment.ports.main, storeProxy.ports.remote);
+    expect(local.reduce().steps).toBe(0);
+    expect(store.value.count).toBe(3);
+  });
+});
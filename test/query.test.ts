@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { Network, Agent, Port, TimeTravelNetwork, DebugTools } from '../src';
+
+const nearIncrementer = (within: number) => ({
+  name: 'Counter',
+  near: { via: 'main', match: { name: 'Incrementer' }, within }
+});
+
+describe('Agent queries', () => {
+  it('filters live agents by name, type, value, ports and neighbourhood', () => {
+    const network = Network('query');
+    const port = () => ({ main: Port.main(), out: Port.aux('out') });
+    const direct = network.addAgent(Agent('Counter', { count: 1 }, port()));
+    const relayed = network.addAgent(Agent('Counter', { count: 5 }, port()));
+    const lone = network.addAgent(Agent('Counter', { count: 9 }, port()));
+    const relay = network.addAgent(Agent('Relay', null, port(), 'wire'));
+    const first = network.addAgent(Agent('Incrementer', { by: 1 }, port(), 'op'));
+    const second = network.addAgent(Agent('Incrementer', { by: 2 }, port(), 'op'));
+    network.connectPorts(direct.ports.main, first.ports.main);
+    network.connectPorts(relayed.ports.main, relay.ports.main);
+    network.connectPorts(relay.ports.out, second.ports.main);
+
+    expect(network.query!({ type: 'op' })).toEqual([first, second]);
+    expect(network.query!({ name: ['Relay', 'Incrementer'], where: value => value?.by !== 1 })).toEqual([relay, second]);
+    expect(network.query!({ name: 'Counter', ports: { main: 'free' } })).toEqual([lone]);
+    expect(network.query!(nearIncrementer(1))).toEqual([direct]);
+    expect(network.query!(nearIncrementer(2))).toEqual([direct, relayed]);
+    expect(network.query!({ name: 'Counter', near: { via: 'out', match: { type: 'op' }, within: 3 } })).toEqual([]);
+    expect(network.query!()).toHaveLength(6);
+
+    // The name and type indexes follow additions and removals
+    network.removeAgent(first);
+    network.addAgent(Agent('Incrementer', { by: 3 }, undefined, 'op'));
+    expect(network.query!({ type: 'op' }).map(agent => agent.value.by)).toEqual([2, 3]);
+    expect(network.query!(nearIncrementer(2))).toEqual([relayed]);
+  });
+
+  it('runs the same query against time travel and debug snapshots', () => {
+    const network = TimeTravelNetwork('query-snapshots');
+    const port = () => ({ main: Port.main(), out: Port.aux('out') });
+    const direct = network.addAgent(Agent('Counter', { count: 1 }, port()));
+    const relayed = network.addAgent(Agent('Counter', { count: 5 }, port()));
+    network.addAgent(Agent('Counter', { count: 9 }, port()));
+    const relay = network.addAgent(Agent('Relay', null, port(), 'wire'));
+    const first = network.addAgent(Agent('Incrementer', { by: 1 }, port(), 'op'));
+    const second = network.addAgent(Agent('Incrementer', { by: 2 }, port(), 'op'));
+    network.connectPorts(direct.ports.main, first.ports.main);
+    network.connectPorts(relayed.ports.main, relay.ports.main);
+    network.connectPorts(relay.ports.out, second.ports.main);
+
+    const before = network.takeSnapshot('wired');
+    network.disconnectPorts(direct.ports.main, first.ports.main);
+
+    expect(network.querySnapshot(before, nearIncrementer(2)).map(state => state.id))
+      .toEqual([direct._agentId, relayed._agentId]);
+    expect(network.querySnapshot(before.id, { name: 'Counter', ports: { main: 'free' } }).map(state => state.value.count))
+      .toEqual([9]);
+    expect(() => network.querySnapshot('missing')).toThrow('Snapshot missing not found');
+
+    const debug = DebugTools.getInstance();
+    network.connectPorts(direct.ports.main, first.ports.main);
+    debug.takeNetworkSnapshot(network, 'query-debug');
+    expect(debug.querySnapshot('query-debug', nearIncrementer(2)).map(record => record.id))
+      .toEqual([direct._agentId, relayed._agentId]);
+    expect(debug.query(network, { type: 'wire' })).toEqual([relay]);
+  });
+
+  it('indexes agents given when the network is created', () => {
+    const counter = Agent('Counter', { count: 1 });
+    const incrementer = Agent('Incrementer', { by: 1 }, undefined, 'op');
+    const network = Network('initial', [counter, incrementer]);
+
+    expect(network.query!({ name: 'Counter' })).toEqual([counter]);
+    expect(network.query!({ type: 'op' })).toEqual([incrementer]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { Network, Agent, ActionRule, RedexQueue, getPortInstanceKey } from '../src';
+
+const pairs = (count: number) => Array.from({ length: count }, (_, index) => {
+  const left = Agent('Left', { index });
+  const right = Agent('Right', { index });
+  return [left.ports.main, right.ports.main] as const;
+});
+
+const add = (queue: RedexQueue, [port1, port2]: ReturnType<typeof pairs>[number]) =>
+  queue.add(port1, getPortInstanceKey(port1), port2, getPortInstanceKey(port2));
+
+const indexes = (queue: RedexQueue) => [...queue].map(id => queue.firstPort(id).agent.value.index);
+
+describe('RedexQueue', () => {
+  it('keeps pairs in activation order across removals and compaction', () => {
+    const queue = new RedexQueue();
+    const ports = pairs(300);
+    ports.forEach(pair => add(queue, pair));
+
+    ports.forEach(([port], index) => {
+      if (index % 3 !== 0) queue.remove(getPortInstanceKey(port));
+    });
+    add(queue, ports[1]);
+
+    expect(queue.size).toBe(101);
+    expect(indexes(queue)).toEqual([...Array.from({ length: 100 }, (_, index) => index * 3), 1]);
+    expect(queue.find(false, () => true)).toBe([...queue][0]);
+    expect(queue.firstPort(queue.find(true, () => true)).agent.value.index).toBe(1);
+  });
+
+  it('tells a reused pair id apart from the pair that held it', () => {
+    const queue = new RedexQueue();
+    const [first, second] = pairs(2);
+    const id = add(queue, first);
+    const activation = queue.activationOf(id);
+
+    queue.delete(id);
+    const reused = add(queue, second);
+
+    expect(reused).toBe(id);
+    expect(queue.isActive(id, activation)).toBe(false);
+    expect(queue.isActive(reused, queue.activationOf(reused))).toBe(true);
+    expect(queue.keyOf(reused)).toBe(`${getPortInstanceKey(second[0])}<->${getPortInstanceKey(second[1])}`);
+  });
+});
+
+describe('Active pair scheduling', () => {
+  const setup = (strategy: 'fifo' | 'lifo') => {
+    const network = Network('scheduling', [], [], { strategy });
+    const fired: number[] = [];
+    const jobs = Array.from({ length: 4 }, (_, index) => [
+      network.addAgent(Agent('Job', { index })),
+      network.addAgent(Agent('Worker', {}))
+    ] as const);
+    network.addRule(ActionRule(jobs[0][0].ports.main, jobs[0][1].ports.main, job => {
+      fired.push(job.value.index);
+    }));
+    jobs.forEach(([job, worker]) => network.connectPorts(job.ports.main, worker.ports.main));
+    return { network, jobs, fired };
+  };
+
+  it('moves a reconnected pair to the back and drops pairs of removed agents', () => {
+    const { network, jobs, fired } = setup('fifo');
+    network.disconnectPorts(jobs[0][0].ports.main, jobs[0][1].ports.main);
+    network.connectPorts(jobs[0][0].ports.main, jobs[0][1].ports.main);
+    network.removeAgent(jobs[2][1]);
+
+    expect(network.reduce().steps).toBe(3);
+    expect(fired).toEqual([1, 3, 0]);
+  });
+
+  it('fires the newest pair first with lifo without reordering the rest', () => {
+    const { network, jobs, fired } = setup('lifo');
+    network.step();
+    network.disconnectPorts(jobs[1][0].ports.main, jobs[1][1].ports.main);
+    network.reduce();
+
+    expect(fired).toEqual([3, 2, 0]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Network, Agent, ActionRule, ReductionScheduler } from '../src';
+
+describe('Scheduled reduction', () => {
+  it('fires a slice per scheduled task and can pause, resume and cancel', async () => {
+    const network = Network('scheduled');
+    const counter = network.addAgent(Agent('Counter', { count: 0 }));
+    network.addRule(ActionRule(counter.ports.main, Agent('Increment', {}).ports.main, (left, right) => {
+      if (right.value.fail) throw new Error('broken increment');
+      left.value.count++;
+    }, 'count'));
+    for (let index = 0; index < 4; index++) {
+      const holder = network.addAgent(Agent('Counter', { count: 0 }));
+      network.connectPorts(holder.ports.main, network.addAgent(Agent('Increment', {})).ports.main);
+    }
+
+    // Slices run only when the test asks for them
+    const tasks: Array<() => void> = [];
+    const scheduler: ReductionScheduler = task => tasks.push(task);
+    const runSlice = () => tasks.shift()?.();
+    const counters = () => network.findAgents({ name: 'Counter' }).map(agent => agent.value.count);
+
+    // A zero budget fires exactly one tick per slice
+    const reduction = network.reduceScheduled!({ budgetMs: 0, scheduler });
+    expect(counters()).toEqual([0, 0, 0, 0, 0]);
+    runSlice();
+    expect(counters()).toEqual([0, 1, 0, 0, 0]);
+
+    reduction.pause();
+    runSlice();
+    expect(reduction.status).toBe('paused');
+    expect(tasks).toHaveLength(0);
+
+    reduction.resume();
+    runSlice();
+    runSlice();
+    expect(counters()).toEqual([0, 1, 1, 1, 0]);
+
+    reduction.cancel();
+    expect(await reduction.promise).toMatchObject({ steps: 3, reason: 'aborted' });
+    runSlice();
+    expect(counters()).toEqual([0, 1, 1, 1, 0]);
+    expect(reduction.status).toBe('done');
+  });
+
+  it('settles with the reduction result and keeps budgets across slices', async () => {
+    const network = Network('scheduled');
+    network.addRule(ActionRule(Agent('Counter', { count: 0 }).ports.main, Agent('Increment', {}).ports.main, (left, right) => {
+      if (right.value.fail) throw new Error('broken increment');
+      left.value.count++;
+    }, 'count'));
+    for (let index = 0; index < 3; index++) {
+      const holder = network.addAgent(Agent('Counter', { count: 0 }));
+      network.connectPorts(holder.ports.main, network.addAgent(Agent('Increment', {})).ports.main);
+    }
+
+    // Slices run only when the test asks for them
+    const tasks: Array<() => void> = [];
+    const scheduler: ReductionScheduler = task => tasks.push(task);
+    const runSlice = () => tasks.shift()?.();
+
+    const reduction = network.reduceScheduled!({ budgetMs: 0, scheduler, maxSteps: 2 });
+    runSlice();
+    runSlice();
+    runSlice();
+    expect(await reduction.promise).toMatchObject({ steps: 2, reason: 'budget', budget: 'steps' });
+
+    // A settled reduction stops listening to its signal
+    const controller = new AbortController();
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+    const rest = network.reduceScheduled!({ scheduler: 'timeout', signal: controller.signal });
+    expect(await rest.promise).toMatchObject({ steps: 1, reason: 'normal-form' });
+    expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+
+    const broken = network.addAgent(Agent('Counter', { count: 0 }));
+    network.connectPorts(broken.ports.main, network.addAgent(Agent('Increment', { fail: true })).ports.main);
+    await expect(network.reduceScheduled!({ scheduler: 'message-channel' }).promise).rejects.toThrow('broken increment');
+  });
+});
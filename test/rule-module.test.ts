@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { createNetwork, defineRuleModule, RuleModuleError } from '../src';
+
+const math = defineRuleModule({
+  name: 'math',
+  version: '1.2.0',
+  agents: Agent => ({
+    Num: Agent.factory<'Num', number>('Num'),
+    Inc: Agent.factory<'Inc', number>('Inc')
+  }),
+  rules: (rules, { Num, Inc }) => {
+    rules.when(Num, Inc).consume((num, inc) => {
+      num.value += inc.value;
+    });
+  }
+});
+
+// Declares its own Num, and doubles increments of math's Num
+const doubling = defineRuleModule({
+  name: 'doubling',
+  dependsOn: [math],
+  agents: Agent => ({ Num: Agent.factory<'Num', string>('Num') }),
+  rules: (rules, _agents, { math: { Num, Inc } }) => {
+    rules.when(Num, Inc).consume((num, inc) => {
+      num.value += inc.value * 2;
+    });
+  }
+});
+
+describe('Rule modules', () => {
+  it('loads modules with their dependencies under namespaced agent names', () => {
+    const { use, modules, rules, connect, step } = createNetwork('modules');
+    const loaded = use(doubling);
+    expect(use(doubling)).toBe(loaded);
+    expect(modules().map(module => [module.name, module.version, module.namespace])).toEqual([
+      ['math', '1.2.0', 'math'],
+      ['doubling', undefined, 'doubling']
+    ]);
+
+    const { Num, Inc } = use(math).agents;
+    expect([Num.__agentName, loaded.agents.Num.__agentName]).toEqual(['math/Num', 'doubling/Num']);
+    expect(rules.list().map(rule => [rule.name, rule.module])).toEqual([
+      ['math/Num.main-to-math/Inc.main:consume', 'math'],
+      ['math/Num.main-to-math/Inc.main:consume', 'doubling']
+    ]);
+
+    const num = Num(1);
+    connect(num, Inc(3));
+    step();
+    expect(num.value).toBe(7);
+
+    // Names must be unique per network, and namespaces can be chosen per network
+    expect(() => use(defineRuleModule({ name: 'math' }))).toThrow(expect.objectContaining({ reason: 'duplicate' }));
+    expect(() => defineRuleModule({ name: 'a/b' })).toThrow(RuleModuleError);
+    const other = createNetwork('other').use(math, { namespace: false });
+    expect(other.agents.Num.__agentName).toBe('Num');
+  });
+
+  it('leaves nothing behind when a module throws while loading', () => {
+    const { use, modules, rules, network, connect, step } = createNetwork('broken');
+    const { Num, Inc } = use(math).agents;
+    const installed = network.getAllRules().map(rule => rule.name);
+
+    const helper = defineRuleModule({
+      name: 'helper',
+      agents: Agent => ({ Half: Agent.factory<'Half', number>('Half') }),
+      rules: (rules, { Half }) => {
+        rules.when(Half, Inc).consume(() => {});
+      }
+    });
+    const broken = defineRuleModule({
+      name: 'broken',
+      dependsOn: [math, helper],
+      rules: (rules, _agents, { math: { Num, Inc } }) => {
+        rules.when(Num, Inc).consume((num, inc) => {
+          num.value -= inc.value;
+        });
+        throw new Error('bad module');
+      }
+    });
+
+    expect(() => use(broken)).toThrow('bad module');
+    expect(modules().map(module => module.name)).toEqual(['math']);
+    expect(rules.list().map(rule => rule.module)).toEqual(['math']);
+    expect(network.getAllRules().map(rule => rule.name)).toEqual(installed);
+
+    const num = Num(1);
+    connect(num, Inc(3));
+    step();
+    expect(num.value).toBe(4);
+  });
+
+  it('unloads modules that nothing depends on, restoring the rules they replaced', () => {
+    const { use, rules, network, connect, step } = createNetwork('unload');
+    const { Num, Inc } = use(math).agents;
+    const loaded = use(doubling);
+
+    expect(() => use(math).unload()).toThrow('Rule module math is used by doubling');
+    const num = Num(0);
+    expect(() => loaded.unload()).toThrow(expect.objectContaining({ reason: 'in-use', module: 'doubling' }));
+
+    network.removeAgent(num);
+    loaded.unload();
+    expect(rules.list().map(rule => rule.module)).toEqual(['math']);
+    expect(network.getAllRules().map(rule => rule.name)).toEqual(['math/Num.main-to-math/Inc.main:consume']);
+
+    const counted = Num(1);
+    connect(counted, Inc(3));
+    step();
+    expect(counted.value).toBe(4);
+
+    network.removeAgent(counted);
+    use(math).unload();
+    expect(network.getAllRules()).toEqual([]);
+    expect(rules.list()).toEqual([]);
+  });
+});
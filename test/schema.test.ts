@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  Network, Agent, ActionRule, createNetwork, applyRemoteOperations, SyncOperation,
+  Schemas, StandardSchemaV1, SchemaValidationError, setSchemaValidation, onSchemaViolation, ErrorReporter
+} from '../src';
+
+const counterSchema = Schemas.object({
+  count: Schemas.refine(Schemas.number(), count => count >= 0, 'must not be negative'),
+  tags: Schemas.optional(Schemas.array(Schemas.string()))
+});
+
+const operation = (type: SyncOperation['type'], data: any): SyncOperation =>
+  ({ type, data, source: 'peer', timestamp: 0, version: 1, id: `${type}-${JSON.stringify(data)}` });
+
+describe('Agent value schemas', () => {
+  const reported: Error[] = [];
+  const errors: Error[] = [];
+  let unsubscribe: () => void;
+  let removeHandler: () => void;
+
+  beforeEach(() => {
+    unsubscribe = onSchemaViolation(error => reported.push(error));
+    removeHandler = ErrorReporter.getInstance().addErrorHandler(error => errors.push(error));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    removeHandler();
+    setSchemaValidation('throw');
+    reported.length = 0;
+    errors.length = 0;
+  });
+
+  it('validates values on creation with built-in and standard schemas, per mode', () => {
+    const Counter = Agent.factory<'Counter', { count: number; tags?: string[] }>('Counter', { schema: counterSchema });
+    expect(Counter({ count: 1, tags: ['a'] }).value.count).toBe(1);
+
+    const error = (() => {
+      try {
+        Counter({ count: -1, tags: ['a', 2 as any] });
+      } catch (caught) {
+        return caught as SchemaValidationError;
+      }
+    })();
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error).toMatchObject({ phase: 'create', agentName: 'Counter' });
+    expect(error!.message).toBe('Invalid value for Counter: count: must not be negative; tags.1: expected string, got number');
+    expect(reported).toEqual([error]);
+
+    // Any Standard Schema implementation works
+    const even: StandardSchemaV1<unknown, number> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: value => (value as number) % 2 === 0 ? { value: value as number } : { issues: [{ message: 'odd' }] }
+      }
+    };
+    const Even = Agent.factory<'Even', number>('Even', { schema: even });
+    expect(() => Even(3)).toThrow('Invalid value for Even: odd');
+
+    setSchemaValidation('report');
+    expect(Even(5).value).toBe(5);
+    expect(reported).toHaveLength(3);
+
+    setSchemaValidation('off');
+    expect(Even(7).value).toBe(7);
+    expect(reported).toHaveLength(3);
+  });
+
+  it('checks values after action rules and remote operations', () => {
+    const Counter = Agent.factory<'Counter', { count: number }>('Counter', { schema: counterSchema });
+    const network = Network('schemas');
+    network.addRule(ActionRule(Counter({ count: 0 }).ports.main, Agent('Decrement', null).ports.main, counter => {
+      counter.value.count--;
+    }, 'decrement'));
+
+    const counter = network.addAgent(Counter({ count: 0 }));
+    network.connectPorts(counter.ports.main, network.addAgent(Agent('Decrement', null)).ports.main);
+    expect(() => network.reduce({ atomic: true })).toThrow('Invalid value for Counter after rule decrement');
+    expect(counter.value.count).toBe(0);
+    expect(reported[0]).toMatchObject({ phase: 'rule', ruleName: 'decrement', agentId: counter._agentId });
+
+    // Remote agents take the schema registered for their name
+    applyRemoteOperations(network, [operation('agent-update', { agentId: counter._agentId, value: { count: 3 } })]);
+    expect(counter.value.count).toBe(3);
+    expect(() => applyRemoteOperations(network, [operation('agent-update', { agentId: counter._agentId, value: { count: 'x' } })]))
+      .toThrow(SchemaValidationError);
+    expect(counter.value.count).toBe(3);
+    expect(() => applyRemoteOperations(network, [operation('agent-create', { name: 'Counter', value: {} })]))
+      .toThrow('count: expected number, got undefined');
+
+    // Scoped network factories take schemas too
+    const { Agent: ScopedAgent } = createNetwork('scoped-schemas');
+    const Flag = ScopedAgent.factory<'Flag', boolean>('Flag', { schema: Schemas.boolean() });
+    expect(() => Flag('yes' as any)).toThrow(expect.objectContaining({ phase: 'create', agentName: 'Flag' }));
+  });
+
+  it('scopes the validation mode and schemas by name to each network', () => {
+    const Counter = Agent.factory<'Counter', { count: number }>('Counter', { schema: counterSchema });
+    const lenient = Network('lenient', undefined, undefined, { schemaValidation: 'report' });
+    const strict = Network('strict');
+    lenient.addRule(ActionRule(Counter({ count: 0 }).ports.main, Agent('Decrement', null).ports.main, counter => {
+      counter.value.count--;
+    }, 'decrement'));
+
+    const counter = lenient.addAgent(Counter({ count: 0 }));
+    lenient.connectPorts(counter.ports.main, lenient.addAgent(Agent('Decrement', null)).ports.main);
+    lenient.reduce();
+    expect(counter.value.count).toBe(-1);
+    expect(reported).toHaveLength(1);
+    // Reported violations reach the ErrorReporter, as thrown ones do
+    expect(errors).toEqual(reported);
+    expect(() => strict.addAgent(Counter({ count: -2 }))).toThrow(SchemaValidationError);
+    expect(errors).toHaveLength(2);
+    expect(errors[1]).toBe(reported[1]);
+    expect(strict.getSchemaValidation?.()).toBe('throw');
+
+    // Only the network that saw a Counter knows its schema
+    expect(lenient.getSchemaByName?.('Counter')).toBe(counterSchema);
+    expect(strict.getSchemaByName?.('Counter')).toBeUndefined();
+    applyRemoteOperations(strict, [operation('agent-create', { name: 'Counter', value: {} })]);
+    expect(reported).toHaveLength(2);
+
+    expect(lenient.setSchemaValidation?.(undefined)).toBe('report');
+    expect(lenient.getSchemaValidation?.()).toBe('throw');
+  });
+});
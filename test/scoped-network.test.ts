@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { createNetwork, ActionRule, Rule, Connection, Port, consume, pair, asNestedNetwork } from '../src';
+import {
+  createNetwork, ActionRule, RewriteRule, Rule, Connection, Port, consume, pair, asNestedNetwork, IAgent, Agent as CoreAgent
+} from '../src';
 
 describe('Scoped Network API', () => {
   it('creates agent factories with ports', () => {
@@ -172,6 +174,94 @@ describe('Scoped Network API', () => {
     expect(counter3.value).toBe(4);
   });
 
+  it('replays storyline branches and conditions, seeking and forking steppers', () => {
+    const { Agent, withConnections, storyline } = createNetwork('scoped-storyline-branches');
+    const Counter = withConnections(Agent.factory<'Counter', number>('Counter'), {
+      add: (counter) => {
+        counter.value += 1;
+      },
+      bonus: (counter) => {
+        counter.value += 10;
+      },
+      jackpot: (counter) => {
+        counter.value += 100;
+      },
+      double: (counter) => {
+        counter.value *= 2;
+      }
+    }, { autoDisconnectMain: true });
+
+    const story = storyline(Counter, function* (counter, ctx) {
+      yield* counter.add();
+      yield* ctx.branch('prize', {
+        bonus: function* () {
+          yield* counter.bonus();
+        },
+        jackpot: function* () {
+          yield* counter.jackpot();
+        }
+      });
+      yield* ctx.when({ agent: counter, op: 'gt', value: 50 }, function* () {
+        yield* counter.double();
+      }, function* () {
+        yield* counter.add();
+      });
+    });
+
+    expect(story.apply(Counter(0)).value).toBe(12);
+    const loaded = story.deserialize(story.serialize({ format: 'json' }), { format: 'json' });
+    expect(loaded.apply(Counter(0), { branches: { prize: 'jackpot' } }).value).toBe(202);
+    expect(() => story.apply(Counter(0), { branches: { prize: 'nothing' } })).toThrow('Storyline branch prize has no alternative nothing');
+
+    const stepper = story.stepper(Counter(0));
+    stepper.next();
+    expect(stepper.next().value).toBe(11);
+    expect(stepper.seek(3).value).toBe(12);
+    expect(stepper.seek(1).value).toBe(1);
+    stepper.seek(2);
+
+    const fork = stepper.fork({ branches: { prize: 'jackpot' } });
+    expect([fork.index, fork.current.value, fork.next().value]).toEqual([2, 101, 202]);
+    expect([stepper.index, stepper.current.value]).toEqual([2, 11]);
+    expect(fork.current).not.toBe(stepper.current);
+  });
+
+  it('awaits async storyline steps with applyAsync', async () => {
+    const { Agent, withConnections, storyline } = createNetwork('scoped-storyline-async');
+    const Counter = withConnections(Agent.factory<'Counter', number>('Counter'), {
+      load: async (counter) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        counter.value = 5;
+      },
+      add: (counter) => {
+        counter.value += 1;
+      }
+    }, { autoDisconnectMain: true });
+
+    const story = storyline(Counter, function* (counter, ctx) {
+      yield* ctx.await(counter.load());
+      yield* ctx.when({ agent: counter, op: 'eq', value: 5 }, function* () {
+        yield* counter.add();
+      });
+    });
+
+    expect(story.steps[0]).toMatchObject({ type: 'method', method: 'load', await: true });
+    expect(() => story.apply(Counter(0))).toThrow('Storyline step load is async; replay it with applyAsync');
+    expect((await story.applyAsync(Counter(0))).value).toBe(6);
+
+    // The when step, with the add it chose, is one stepper index
+    const stepper = story.stepper(Counter(0));
+    expect(() => stepper.next()).toThrow('replay it with applyAsync');
+    expect((await stepper.nextAsync()).value).toBe(5);
+    expect((await stepper.seekAsync(2)).value).toBe(6);
+    expect(stepper.seek(0).value).toBe(0);
+    await stepper.seekAsync(1);
+
+    const fork = await stepper.forkAsync();
+    expect([fork.index, fork.current.value]).toEqual([1, 5]);
+    expect((await fork.nextAsync()).value).toBe(6);
+  });
+
   it('exposes Port, Rule, and Connection factories', () => {
     const mainPort = Port.main();
     const auxPort = Port.aux('extra');
@@ -202,6 +292,121 @@ describe('Scoped Network API', () => {
     expect(network.getAllAgents().length).toBe(1);
   });
 
+  it('matches neighbourhoods with rules.when(...).and(...) and falls back to pair rules', () => {
+    const { Agent, Port, rules, step, network } = createNetwork('rules-pattern');
+    const Add = Agent.factory<'Add', number>('Add', {
+      ports: { main: Port.main(), arg: Port.aux('arg'), out: Port.aux('out') }
+    });
+    const Num = Agent.factory<'Num', number>('Num');
+    const Show = Agent.factory<'Show', null>('Show');
+
+    rules.when(Add, Num).and(Num, { port: 'arg' }).replace((add, a, b) => {
+      const sum = Num(a.value + b.value);
+      return { agents: [sum], portMap: { left: { out: { agent: sum, port: 'main' } } } };
+    });
+    // Registered the other way round, the pair rule still only becomes the fallback
+    rules.when(Num, Add).mutate((num, add) => {
+      add.value = num.value;
+    });
+
+    // The neighbour is matched whichever way round the pair was connected
+    const add = Add(0);
+    const show = Show(null);
+    network.connectPorts(Num(2).ports.main, add.ports.main);
+    network.connectPorts(add.ports.arg, Num(3).ports.main);
+    network.connectPorts(add.ports.out, show.ports.main);
+    step();
+
+    const [connection] = network.getAllConnections();
+    expect(network.getAllAgents().map((agent) => agent.name).sort()).toEqual(['Num', 'Show']);
+    expect(connection.sourcePort.agent.value).toBe(5);
+    expect(connection.destinationPort.agent).toBe(show);
+
+    // Without a Num on arg, the pair rule runs instead
+    network.removeAgent(show);
+    const lone = Add(0);
+    network.connectPorts(Num(7).ports.main, lone.ports.main);
+    network.connectPorts(lone.ports.arg, Show(null).ports.main);
+    step();
+    expect(lone.value).toBe(7);
+    expect(network.getAllAgents()).toHaveLength(4);
+  });
+
+  it('types every matched agent, guards patterns and rewires free ports automatically', () => {
+    const { Agent, Port, rules, reduce, network } = createNetwork('rules-pattern-rewire');
+    const Account = Agent.factory<'Account', number>('Account', {
+      ports: { main: Port.main(), owner: Port.aux('owner') }
+    });
+    const Transfer = Agent.factory<'Transfer', number>('Transfer', {
+      ports: { main: Port.main(), to: Port.aux('to') }
+    });
+    const Owner = Agent.factory<'Owner', string>('Owner');
+
+    const metadata = rules.when(Transfer, Account)
+      .and(Account, { port: 'to' })
+      .where((transfer, from) => from.value >= transfer.value)
+      .replace((transfer, from, to) => [Account(from.value - transfer.value), Account(to.value + transfer.value)]);
+    expect(metadata).toMatchObject({ name: 'Transfer.main-to-Account.main+Account:replace', neighbours: ['Account'] });
+    expect(rules.toMermaid()).toBe('graph LR\n  Transfer -->|replace + Account| Account');
+
+    const setup = (amount: number) => {
+      const [alice, bob] = [Owner('alice'), Owner('bob')];
+      const [from, to] = [Account(10), Account(1)];
+      const transfer = Transfer(amount);
+      network.connectPorts(from.ports.owner, alice.ports.main);
+      network.connectPorts(to.ports.owner, bob.ports.main);
+      network.connectPorts(transfer.ports.to, to.ports.main);
+      network.connectPorts(transfer.ports.main, from.ports.main);
+      return { alice, bob, transfer };
+    };
+
+    // Each owner ends up on the first replacement with a free owner port
+    const { alice, bob } = setup(4);
+    reduce();
+    const balanceOf = (owner: IAgent) => network.getAllConnections()
+      .find((connection) => connection.destinationPort.agent === owner)?.sourcePort.agent.value;
+    expect([balanceOf(alice), balanceOf(bob)]).toEqual([6, 5]);
+
+    // The guard fails and there is no pair rule, so nothing happens
+    const refused = setup(20);
+    reduce();
+    expect(network.getAgent(refused.transfer._agentId)).toBe(refused.transfer);
+    expect([balanceOf(refused.alice), balanceOf(refused.bob)]).toEqual([10, 1]);
+  });
+
+  it('reports principal pairings without rules and rejects them when strict', () => {
+    const { Agent, Port, rules, network, connect } = createNetwork('rules-coverage', { strict: true });
+    const Counter = Agent.factory<'Counter', number>('Counter');
+    const Incrementer = Agent.factory<'Incrementer', number>('Incrementer');
+    const Doubler = Agent.factory<'Doubler', null>('Doubler');
+    const Wire = Agent.factory<'Wire', null>('Wire', { ports: { left: Port.aux('left'), right: Port.aux('right') } });
+
+    rules.when(Counter, Incrementer).consume((counter, incrementer) => {
+      counter.value += incrementer.value;
+    });
+    network.addRule(RewriteRule(CoreAgent('Doubler', null).ports.main, CoreAgent('Incrementer', 0).ports.main, {
+      newAgents: [{ name: 'Done', _templateId: 'done' }],
+      internalConnections: [],
+      portMapAgent1: {},
+      portMapAgent2: {}
+    }));
+    network.addRule(Rule.pattern({ name: 'Done' }, { name: 'Dou*' }, { action: () => {} }, 'finish'));
+
+    const report = rules.coverage();
+    expect(report.agents).toEqual(['Counter', 'Done', 'Doubler', 'Incrementer', 'Wire']);
+    expect(report.covered.map(({ left, right }) => `${left}-${right}`))
+      .toEqual(['Counter-Incrementer', 'Done-Doubler', 'Doubler-Incrementer']);
+    expect(report.missing).toHaveLength(7);
+    expect(report.missing).toContainEqual({ left: 'Counter', leftPort: 'main', right: 'Done', rightPort: 'main' });
+
+    const counter = Counter(1);
+    expect(() => connect(counter, Doubler(null))).toThrow(expect.objectContaining({ reason: 'no-rule' }));
+    expect(network.getAllConnections()).toHaveLength(0);
+    expect(connect(Wire(null).ports.left, counter.ports.main)).toBeDefined();
+    expect(connect(Incrementer(1), Doubler(null))).toBeDefined();
+    expect(connect(Doubler(null), CoreAgent('Done', null))).toBeDefined();
+  });
+
   it('creates function agents bound to rules', () => {
     const { Agent, fnAgent, connect, step } = createNetwork('fn-agent');
     const Counter = Agent.factory<'Counter', number>('Counter');
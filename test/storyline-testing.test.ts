@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { createNetwork, checkStorylines, assertStorylines, StorylinePropertyError } from '../src';
+
+describe('Storyline property testing', () => {
+  it('finds and shrinks a storyline breaking an invariant to a serialized repro', () => {
+    // withdraw forgets to check the balance
+    const setup = () => {
+      const network = createNetwork('bank');
+      const Account = network.withConnections(network.Agent.factory<'Account', number>('Account'), {
+        deposit: (account) => {
+          account.value += 10;
+        },
+        withdraw: (account) => {
+          account.value -= 10;
+        }
+      }, { autoDisconnectMain: true });
+      return { network, factory: Account, subject: Account(0) };
+    };
+
+    const result = checkStorylines(setup, {
+      seed: 7,
+      invariants: { solvent: (account) => account.value >= 0 }
+    });
+
+    expect(result.passed).toBe(false);
+    expect(result.failure).toMatchObject({ invariant: 'solvent', seed: 7, calls: [{ method: 'withdraw', args: [] }] });
+    const again = checkStorylines(setup, { seed: 7, invariants: { solvent: (account) => account.value >= 0 } });
+    expect([again.runs, again.failure!.calls]).toEqual([result.runs, result.failure!.calls]);
+
+    // The repro replays on its own
+    const { network, factory, subject } = setup();
+    const repro = network.storyline(factory, function* () {}).deserialize(result.failure!.storyline, { format: 'json' });
+    expect(repro.apply(subject).value).toBe(-10);
+  });
+
+  it('passes lawful methods and reports failures as errors', () => {
+    // charge is a pair method, which needs a Fee
+    const setup = () => {
+      const network = createNetwork('bank');
+      const Fee = network.Agent.factory<'Fee', number>('Fee');
+      const Account = network.withConnections(network.Agent.factory<'Account', number>('Account'), {
+        deposit: (account) => {
+          account.value += 10;
+        },
+        audit: () => undefined,
+        charge: {
+          other: Fee,
+          fn: (account, fee) => {
+            account.value -= fee.value;
+          }
+        }
+      }, { autoDisconnectMain: true });
+      return { network, factory: Account, subject: Account(0) };
+    };
+
+    const { network, factory } = setup();
+    expect(network.methodsOf(factory)).toContainEqual({ name: 'charge', mode: 'pair' });
+
+    expect(checkStorylines(setup, {
+      seed: 1,
+      runs: 20,
+      methods: ['deposit', 'audit'],
+      invariants: { solvent: (account) => account.value >= 0 }
+    })).toEqual({ passed: true, runs: 20 });
+
+    const attempt = () => assertStorylines(setup, {
+      seed: 3,
+      invariants: {
+        bounded: (account, { step }) => {
+          if (account.value > 10 * step) throw new Error(`balance ${account.value}`);
+        },
+        capped: (account) => account.value < 20
+      }
+    });
+    expect(attempt).toThrow(StorylinePropertyError);
+    expect(attempt).toThrow(/^Invariant capped failed after deposit, deposit; seed 3, storyline \{/);
+  });
+});
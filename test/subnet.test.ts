@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { Network, Agent, Port, ActionRule, PortConnectionError, SubnetError, sequentialIds } from '../src';
+
+const counting = (name: string) => {
+  const network = Network(name);
+  network.addRule(ActionRule(
+    Agent('Counter', { count: 0 }).ports.main,
+    Agent('Incrementer', { by: 1 }).ports.main,
+    (counter, incrementer) => {
+      counter.value.count += incrementer.value.by;
+    },
+    'increment'
+  ));
+  return network;
+};
+
+describe('Subnets', () => {
+  it('extracts a connected component and embeds it elsewhere through its free ports', () => {
+    const source = Network('source');
+    const relay = source.addAgent(Agent('Relay', null, {
+      main: Port.main({ accepts: ['Incrementer'] }),
+      out: Port.aux('out')
+    }));
+    const counter = source.addAgent(Agent('Counter', { count: 1 }, { main: Port.main(), out: Port.aux('out') }));
+    source.connectPorts(relay.ports.out, counter.ports.out);
+    source.addAgent(Agent('Incrementer', { by: 1 }));
+
+    const subnet = source.extract!([relay]);
+    expect(subnet.agents.map(agent => agent.name)).toEqual(['Relay', 'Counter']);
+    expect(subnet.connections).toHaveLength(1);
+    expect(subnet.interface.map(port => port.name)).toEqual(['Relay.main', 'Counter.main']);
+    expect(source.getAllAgents()).toHaveLength(3);
+
+    // Subnets are plain data: they survive JSON and embed any number of times
+    const target = counting('target');
+    const incrementer = target.addAgent(Agent('Incrementer', { by: 2 }));
+    const first = target.embed!(JSON.parse(JSON.stringify(subnet)), { 'Counter.main': incrementer.ports.main });
+    const second = target.embed!(subnet);
+
+    expect(first.agents.map(agent => agent._agentId)).toEqual([first.ids[relay._agentId], first.ids[counter._agentId]]);
+    expect(first.ids[relay._agentId]).not.toBe(relay._agentId);
+    expect(target.isPortConnected(first.ports['Relay.main'])).toBe(false);
+    expect(target.isPortConnected(second.ports['Counter.main'])).toBe(false);
+    expect(target.findConnections({ from: first.agents[0].ports.out })).toHaveLength(1);
+
+    target.reduce();
+    expect(first.agents[1].value).toEqual({ count: 3 });
+    expect(second.agents[1].value).toEqual({ count: 1 });
+    expect(counter.value).toEqual({ count: 1 });
+
+    // Port constraints travel with the subnet
+    expect(() => target.connectPorts(first.ports['Relay.main'], second.ports['Relay.main']))
+      .toThrow(PortConnectionError);
+  });
+
+  it('cuts the given agents out, recording their outside peers, and embeds atomically', () => {
+    const source = counting('cut-source');
+    const counters = [0, 1].map(() => source.addAgent(Agent('Counter', { count: 0 })));
+    const incrementer = source.addAgent(Agent('Incrementer', { by: 1 }));
+    source.connectPorts(counters[1].ports.main, incrementer.ports.main);
+
+    expect(() => source.extract!('missing')).toThrow(SubnetError);
+
+    const subnet = source.extract!(counters, { boundary: 'cut', detach: true });
+    expect(subnet.interface).toEqual([
+      { name: 'Counter.main', agentId: counters[0]._agentId, portName: 'main', type: 'main' },
+      {
+        name: 'Counter.main#2',
+        agentId: counters[1]._agentId,
+        portName: 'main',
+        type: 'main',
+        peer: { agentId: incrementer._agentId, portName: 'main' }
+      }
+    ]);
+    expect(source.getAllAgents()).toEqual([incrementer]);
+    expect(source.isPortConnected(incrementer.ports.main)).toBe(false);
+
+    const target = counting('cut-target');
+    const busy = target.addAgent(Agent('Incrementer', { by: 5 }));
+    target.connectPorts(busy.ports.main, target.addAgent(Agent('Counter', { count: 0 })).ports.main);
+
+    expect(() => target.embed!(subnet, { 'Counter.aux': busy.ports.main }))
+      .toThrow(expect.objectContaining({ reason: 'unknown-interface', subject: 'Counter.aux' }));
+    // The second binding fails after the first connected, so everything is undone
+    const fresh = target.addAgent(Agent('Incrementer', { by: 3 }));
+    expect(() => target.embed!(subnet, { 'Counter.main': fresh.ports.main, 'Counter.main#2': busy.ports.main }))
+      .toThrow(PortConnectionError);
+    expect(target.getAllAgents()).toHaveLength(3);
+    expect(target.isPortConnected(fresh.ports.main)).toBe(false);
+
+    const { agents } = target.embed!(subnet, { 'Counter.main#2': fresh.ports.main });
+    target.reduce();
+    expect(agents.map(agent => agent.value.count)).toEqual([0, 3]);
+  });
+
+  it('refuses values JSON would not copy and gives embedded agents the network\'s ids', () => {
+    const source = Network('values-source');
+    const tagged = source.addAgent(Agent('Tagged', { tags: new Set(['a']) }));
+    const dated = source.addAgent(Agent('Dated', { at: [new Date(0)] }));
+    expect(() => source.extract!(tagged))
+      .toThrow(expect.objectContaining({ reason: 'unserializable-value', subject: tagged._agentId }));
+    expect(() => source.extract!(dated)).toThrow('value.at[0] is a Date');
+
+    const plain = source.addAgent(Agent('Plain', { count: 1, skipped: undefined }));
+    const target = Network('values-target', undefined, undefined, { ids: sequentialIds() });
+    const { agents } = target.embed!(source.extract!(plain));
+    expect(agents[0]._agentId).toBe('agent-1');
+    expect(agents[0].value).toEqual({ count: 1 });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { Network, Agent, RewriteRule, Rewrite } from '../src';
+
+// Rewrite an active pair into a fresh pair of agents connected on their main ports
+const replaceWith = (name1: string, name2: string, value: (agent: ReturnType<typeof Agent>) => unknown = () => null) =>
+  (agent1: ReturnType<typeof Agent>): Rewrite => ({
+    newAgents: [
+      { name: name1, _templateId: 'first', initialValue: value(agent1) },
+      { name: name2, _templateId: 'second', initialValue: null }
+    ],
+    internalConnections: [{ agent1TemplateId: 'first', port1Name: 'main', agent2TemplateId: 'second', port2Name: 'main' }],
+    portMapAgent1: {},
+    portMapAgent2: {}
+  });
+
+describe('Reduction termination', () => {
+  it('reports normal form and the budget that stopped a reduction', () => {
+    // Grow/Seed never repeats a state: every rewrite counts one higher
+    const network = Network('termination');
+    network.addRule(RewriteRule(Agent('Grow', 0).ports.main, Agent('Seed', null).ports.main,
+      replaceWith('Grow', 'Seed', grow => (grow.value as number) + 1), 'grow'));
+    network.connectPorts(network.addAgent(Agent('Grow', 0)).ports.main, network.addAgent(Agent('Seed', null)).ports.main);
+
+    expect(network.reduce(5)).toMatchObject({ steps: 5, reason: 'budget', budget: 'steps' });
+    expect(network.reduce({ maxRuleInteractions: { grow: 3 } })).toMatchObject({ steps: 3, reason: 'budget', budget: 'rule', rule: 'grow' });
+    expect(network.reduce({ maxRuleInteractions: 2 })).toMatchObject({ steps: 2, rule: 'grow' });
+
+    // A budget used up by the last interaction leaves the net in normal form
+    const exact = Network('exact');
+    exact.addRule(RewriteRule(Agent('Lit', null).ports.main, Agent('Fuse', null).ports.main,
+      () => ({ newAgents: [], internalConnections: [], portMapAgent1: {}, portMapAgent2: {} }), 'burn'));
+    for (let i = 0; i < 2; i++) {
+      exact.connectPorts(exact.addAgent(Agent('Lit', null)).ports.main, exact.addAgent(Agent('Fuse', null)).ports.main);
+    }
+    expect(exact.reduce({ maxRuleInteractions: { burn: 2 } })).toMatchObject({ steps: 2, reason: 'normal-form' });
+
+    const timed = network.reduce({ maxSteps: Infinity, maxMs: 5 });
+    expect(timed).toMatchObject({ reason: 'budget', budget: 'time' });
+    expect(timed.steps).toBeGreaterThan(0);
+    expect(timed.elapsedMs).toBeGreaterThanOrEqual(5);
+
+    const controller = new AbortController();
+    controller.abort();
+    expect(network.reduce({ signal: controller.signal })).toMatchObject({ steps: 0, reason: 'aborted' });
+
+    expect(Network('empty').reduce()).toMatchObject({ steps: 0, reason: 'normal-form' });
+  });
+
+  it('detects a repeated state and reports the rules around the cycle', () => {
+    // Ping/Pong and Pang/Pung turn into each other forever
+    const network = Network('termination');
+    network.addRule(RewriteRule(Agent('Ping', null).ports.main, Agent('Pong', null).ports.main, replaceWith('Pang', 'Pung'), 'ping'));
+    network.addRule(RewriteRule(Agent('Pang', null).ports.main, Agent('Pung', null).ports.main, replaceWith('Ping', 'Pong'), 'pang'));
+    network.connectPorts(network.addAgent(Agent('Ping', null)).ports.main, network.addAgent(Agent('Pong', null)).ports.main);
+
+    expect(network.reduce({ detectCycles: true })).toMatchObject({
+      reason: 'cycle',
+      steps: 2,
+      cycle: { rules: ['ping', 'pang'], fromStep: 0, toStep: 2 }
+    });
+    expect(network.reduce(10)).toMatchObject({ steps: 10, reason: 'budget' });
+
+    const growing = Network('growing');
+    growing.addRule(RewriteRule(Agent('Grow', 0).ports.main, Agent('Seed', null).ports.main,
+      replaceWith('Grow', 'Seed', grow => (grow.value as number) + 1), 'grow'));
+    growing.connectPorts(growing.addAgent(Agent('Grow', 0)).ports.main, growing.addAgent(Agent('Seed', null)).ports.main);
+    expect(growing.reduce({ detectCycles: true, maxSteps: 50 })).toMatchObject({ steps: 50, reason: 'budget' });
+  });
+});
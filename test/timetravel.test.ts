@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { Agent, Port, TimeTravelNetwork } from '../src';
+
+describe('Time travel', () => {
+  it('records exactly the connections of the network in a snapshot', () => {
+    const network = TimeTravelNetwork('snapshots');
+    const counter = network.addAgent(Agent('Counter', { count: 1 }, { main: Port.main(), out: Port.aux('out') }));
+    const incrementer = network.addAgent(Agent('Incrementer', { by: 2 }));
+    const logger = network.addAgent(Agent('Logger', null));
+    network.addAgent(Agent('Idle', null));
+    network.connectPorts(counter.ports.main, incrementer.ports.main);
+    network.connectPorts(counter.ports.out, logger.ports.main);
+
+    const snapshot = network.takeSnapshot('wired');
+    // Each connection as its two port ends, in either orientation
+    const wire = (end1: string, end2: string) => [end1, end2].sort().join(' - ');
+    const wires = Array.from(snapshot.connections.values()).map(connection =>
+      wire(`${connection.sourceAgentId}.${connection.sourcePortName}`, `${connection.destinationAgentId}.${connection.destinationPortName}`));
+    expect(wires.sort()).toEqual([
+      wire(`${counter._agentId}.main`, `${incrementer._agentId}.main`),
+      wire(`${counter._agentId}.out`, `${logger._agentId}.main`)
+    ].sort());
+  });
+});
@@ -199,4 +199,69 @@ describe("zero dom system", () => {
       expect(container.children).toHaveLength(0);
     });
   });
+  it("syncs list items across scheduled slices", async () => {
+    const zeroNetwork = zero.createNetwork();
+    const dom = zero.dom.createDomSystem(zeroNetwork);
+    const container = createElement("div");
+    const tasks: Array<() => void> = [];
+
+    await zeroNetwork.run(async () => {
+      const manager = dom.createListManager({
+        container: container as unknown as HTMLElement,
+        blockFactory: (item: { id: string; data: null }) =>
+          zeroNetwork.Agent("Block", (_state: void) => ({
+            id: item.id,
+            root: createElement("div") as unknown as HTMLElement,
+            edits: {},
+            update: zeroNetwork.createPort<zero.dom.ZeroUpdateSpec>()
+          }))(undefined),
+        activeBlocks: new Map()
+      });
+      const items = ["1", "2", "3"].map((id) => ({ id, data: null }));
+
+      const update = dom.updateListScheduled(manager, items, {
+        budgetMs: 0,
+        scheduler: (task) => tasks.push(task)
+      });
+      tasks.shift()?.();
+      expect(container.children).toHaveLength(1);
+
+      update.cancel();
+      expect(await update.promise).toBe(1);
+      tasks.shift()?.();
+      expect(container.children).toHaveLength(1);
+    });
+  });
+  it("cancels an in-flight scheduled update when the list is updated again", async () => {
+    const zeroNetwork = zero.createNetwork();
+    const dom = zero.dom.createDomSystem(zeroNetwork);
+    const container = createElement("div");
+    const tasks: Array<() => void> = [];
+
+    await zeroNetwork.run(async () => {
+      const manager = dom.createListManager({
+        container: container as unknown as HTMLElement,
+        blockFactory: (item: { id: string; data: null }) =>
+          zeroNetwork.Agent("Block", (_state: void) => ({
+            id: item.id,
+            root: createElement("div") as unknown as HTMLElement,
+            edits: {},
+            update: zeroNetwork.createPort<zero.dom.ZeroUpdateSpec>()
+          }))(undefined),
+        activeBlocks: new Map()
+      });
+      const items = (...ids: string[]) => ids.map((id) => ({ id, data: null }));
+      const options = { budgetMs: 0, scheduler: (task: () => void) => tasks.push(task) };
+
+      const first = dom.updateListScheduled(manager, items("1", "2", "3"), options);
+      tasks.shift()?.();
+      const second = dom.updateListScheduled(manager, items("4"), options);
+      expect(await first.promise).toBe(1);
+
+      while (tasks.length > 0) tasks.shift()?.();
+      expect(await second.promise).toBe(1);
+      expect(Array.from(manager.value.activeBlocks.keys())).toEqual(["4"]);
+      expect(container.children).toHaveLength(1);
+    });
+  });
 });